@@ -121,6 +121,10 @@ const options = {
             isFlagged: { type: 'boolean' },
             replyCount: { type: 'number' },
             totalReactions: { type: 'number' },
+            viewerReaction: { type: 'string', enum: ['like', 'dislike', 'heart', 'laugh'], nullable: true },
+            replies: { type: 'array', items: { $ref: '#/components/schemas/Comment' } },
+            hasMoreReplies: { type: 'boolean' },
+            nextRepliesCursor: { type: 'string', nullable: true },
             createdAt: { type: 'string', format: 'date-time' },
             updatedAt: { type: 'string', format: 'date-time' }
           }
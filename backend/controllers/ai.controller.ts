@@ -0,0 +1,55 @@
+import { Request, Response, NextFunction } from "express";
+import { catchAsyncErrors } from "../middlewares/catchAsyncErrors";
+import ErrorHandler from "../utils/ErrorHandler";
+import { AGE_GROUPS, AgeGroup } from "../utils/ageGroups";
+import { SafetyAction, SafetyVerdict, contentSafetyService } from "../services/contentSafety.service";
+
+const MAX_MODERATED_LENGTH = 50000;
+
+// what the client should do with the content
+const moderationActions = (action: SafetyAction, verdict: SafetyVerdict): string[] => {
+    const actions: string[] = action === "block"
+        ? ["block_content", "notify_moderators"]
+        : action === "review" ? ["review_required", "flag_content"] : [];
+    if (action !== "allow" && verdict.signals.some(signal => signal.category === "pii")) {
+        actions.push("redact_personal_data");
+    }
+    return actions;
+};
+
+// content-safety check of a text for an age group, kids content types default to the youngest readers
+export const moderateContent = catchAsyncErrors(
+    async (req: Request, res: Response, next: NextFunction) => {
+        try {
+            const { content, contentType = "blog", ageGroup } = req.body;
+            if (!content || typeof content !== "string") {
+                return next(new ErrorHandler("Content is required", 400));
+            }
+            if (content.length > MAX_MODERATED_LENGTH) {
+                return next(new ErrorHandler(`Content must be under ${MAX_MODERATED_LENGTH} characters`, 400));
+            }
+            if (ageGroup !== undefined && !AGE_GROUPS.includes(ageGroup)) {
+                return next(new ErrorHandler(`Age group must be one of ${AGE_GROUPS.join(", ")}`, 400));
+            }
+            const audience: AgeGroup = ageGroup || (String(contentType).startsWith("kids") ? "kids-6-8" : "general");
+
+            const verdict = await contentSafetyService.classify(content);
+            const { score, action } = verdict.ageGroups[audience];
+
+            res.status(200).json({
+                success: true,
+                data: {
+                    isAppropriate: action === "allow",
+                    confidenceScore: action === "allow" ? Math.round((1 - score) * 100) / 100 : score,
+                    category: verdict.category,
+                    flaggedContent: verdict.flagged,
+                    ageGroup: verdict.recommendedAgeGroup,
+                    audience,
+                    ageGroups: verdict.ageGroups,
+                    moderationActions: moderationActions(action, verdict)
+                }
+            });
+        } catch (error: any) {
+            next(new ErrorHandler(error.message, 500));
+        }
+    })
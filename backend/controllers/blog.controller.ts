@@ -1,18 +1,40 @@
-import ejs from "ejs";
 
 import { catchAsyncErrors } from "../middlewares/catchAsyncErrors";
-import userModel from "../models/user.model";
+import userModel, { IUser } from "../models/user.model";
 import { Request, Response, NextFunction } from "express";
 import ErrorHandler from "../utils/ErrorHandler";
 import { nanoid } from 'nanoid';
-import BlogModel from "../models/blogs.model";
+import BlogModel, { IBlog } from "../models/blogs.model";
 
 import { redis } from "../utils/redis";
 import mongoose from "mongoose";
-import sendMail from "../utils/sendMail";
-import path from 'path';
+import cron from "node-cron";
 import NotificationModel from "../models/notification.model";
-import { getAllBlogsService } from "../services/blog.service";
+import { backfillBlogSlugs, getAllBlogsService, invalidateBlogCache, publishScheduledBlogs, refreshTrendingScores, unpublishExpiredBlogs, updateAuthorPosts } from "../services/blog.service";
+import { BLOG_SORT_MODES, BlogSortMode, InvalidCursorError, blogListingService } from "../services/blogListing.service";
+import { blogLikeService } from "../services/blogLike.service";
+import { blogRevisionService } from "../services/blogRevision.service";
+import { readTrackingService } from "../services/readTracking.service";
+import { blogSearchService } from "../services/blogSearch.service";
+import { WorkflowActor, blogWorkflowService, getBlogStatus, initialBlogStatus } from "../services/blogWorkflow.service";
+import { BlogStatus } from "../models/blogs.model";
+import { AgeGroup, ageGroupFilterFor, getAllowedAgeGroups } from "../utils/ageGroups";
+import { CONTENT_FORMATS, ContentFormat, renderContent } from "../utils/contentRenderer";
+import { validateContentBlocks } from "../utils/blockValidation";
+import { ErrorResponse, ValidationError } from "../types/api.types";
+import { createHash, randomUUID } from "crypto";
+import { seriesService } from "../services/series.service";
+import { seoService } from "../services/seo.service";
+import { categoryService } from "../services/category.service";
+import { tagService } from "../services/tag.service";
+import { blogContributorService } from "../services/blogContributor.service";
+import { blogTrashService } from "../services/blogTrash.service";
+import { translationService } from "../services/translation.service";
+import { SourceBlog, relatedPostsService } from "../services/relatedPosts.service";
+import { contentSafetyService } from "../services/contentSafety.service";
+import { commentService } from "../services/comment.service";
+import { notificationService } from "../services/notification.service";
+import { DEFAULT_LANGUAGE, LANGUAGES, Language, isLanguage, languageMeta, negotiateLanguage, requestedLanguage } from "../utils/languages";
 
 
 // interface blogData
@@ -24,6 +46,91 @@ interface IBlogData {
     tags: string[];
     draft: boolean;
     isPublished: boolean;
+    publishAt?: string | null;
+    unpublishAt?: string | null;
+    isKidsContent?: boolean;
+    ageGroup?: 'kids-6-8' | 'kids-9-12' | 'kids-13-16' | 'general';
+    category?: string;
+    language?: Language;
+    // id of the blog this one translates, null unlinks the translation
+    translationOf?: string | null;
+    // hold comments for approval, null goes back to the default for the audience
+    commentPreModeration?: boolean | null;
+}
+
+// content-safety verdict of the text of a blog for its audience
+const screenBlog = async (blog: { title?: string; des?: string; tags?: string[]; content?: any }, audience: AgeGroup) => {
+    const text = [blog.title, blog.des, (blog.tags || []).join(" "), blog.content ? renderContent(blog.content, "text") : ""]
+        .filter(Boolean)
+        .join("\n\n");
+    const verdict = await contentSafetyService.classify(text);
+    const { score, action } = verdict.ageGroups[audience];
+    return { category: verdict.category, score, action, checkedAt: new Date() };
+};
+
+// content fields an edit changes, each compared with what the blog holds
+const CONTENT_FIELDS = ["title", "des", "banner", "tags", "content"] as const;
+const changedContentFields = (blog: IBlog, changes: Partial<Record<typeof CONTENT_FIELDS[number], unknown>>) =>
+    CONTENT_FIELDS.filter(field => changes[field] !== undefined
+        && JSON.stringify(changes[field]) !== JSON.stringify(blog[field]));
+
+// the user acting on a blog, as the review workflow knows them
+const workflowActor = (user: IUser): WorkflowActor => ({ _id: String(user._id), role: user.role });
+
+// comments on kids content are pre-moderated unless a moderator turns it off
+const checkCommentPreModeration = (value: unknown, kidsContent: boolean, role?: string) => {
+    if (value === undefined || value === null) return null;
+    if (typeof value !== "boolean") {
+        return new ErrorHandler("commentPreModeration must be true, false or null", 400);
+    }
+    if (!value && kidsContent && !["moderator", "admin"].includes(role || "")) {
+        return new ErrorHandler("Only moderators can turn off comment pre-moderation on kids content", 403);
+    }
+    return null;
+};
+
+// check the original a blog translates, the user must be allowed to edit it
+const resolveTranslation = async (translationOf: string, language: Language, userId: string, blogId?: string) => {
+    const { originalId, error } = await translationService.resolveOriginal(translationOf, language, blogId);
+    if (error) {
+        return { error: new ErrorHandler(error, 400) };
+    }
+    const original = await BlogModel.findById(originalId).select("author contributors");
+    if (!original || !blogContributorService.canEdit(original, userId)) {
+        return { error: new ErrorHandler("Not authorized to add a translation to this blog", 403) };
+    }
+    return { originalId };
+}
+
+// validate scheduling dates, returns an error message when invalid
+const validateSchedule = (publishAt?: string | null, unpublishAt?: string | null): string | null => {
+    const publishDate = publishAt ? new Date(publishAt) : null;
+    const unpublishDate = unpublishAt ? new Date(unpublishAt) : null;
+    if (publishDate && isNaN(publishDate.getTime())) {
+        return "publishAt must be a valid date";
+    }
+    if (unpublishDate && isNaN(unpublishDate.getTime())) {
+        return "unpublishAt must be a valid date";
+    }
+    if (publishDate && publishDate.getTime() <= Date.now()) {
+        return "publishAt must be in the future";
+    }
+    if (unpublishDate && unpublishDate.getTime() <= Math.max(Date.now(), publishDate?.getTime() || 0)) {
+        return "unpublishAt must be in the future and after publishAt";
+    }
+    return null;
+}
+// invalid content blocks are answered with one ValidationError per block
+const sendContentErrors = (req: Request, res: Response, details: ValidationError[]) => {
+    const errorResponse: ErrorResponse = {
+        success: false,
+        error: "Invalid blog content",
+        details,
+        code: "VALIDATION_ERROR",
+        timestamp: new Date().toISOString(),
+        requestId: req.headers["x-request-id"] as string || randomUUID()
+    };
+    return res.status(400).json(errorResponse);
 }
 const generateBlogId = (title: string) => {
     const cleanTitle = title.replace(/[^a-zA-Z0-9]/g, '-').replace(/-+/g, '-').toLowerCase();
@@ -45,7 +152,7 @@ export const createBlog = catchAsyncErrors(
             const authorId = req.user?._id;
 
             // Destructure blog data from request body
-            let { title, des, banner, tags, content, draft, isPublished } = req.body as IBlogData;
+            let { title, des, banner, tags, content, draft, isPublished, publishAt, unpublishAt, isKidsContent, ageGroup, category, language, translationOf, commentPreModeration } = req.body as IBlogData;
 
             // Validate required fields
             if (!authorId) {
@@ -71,8 +178,9 @@ export const createBlog = catchAsyncErrors(
                 return next(new ErrorHandler("Banner image is required", 400));
             }
 
-            if (!content || !content.blocks.length) {
-                return next(new ErrorHandler("Blog content is required", 400));
+            const contentErrors = validateContentBlocks(content);
+            if (contentErrors.length) {
+                return sendContentErrors(req, res, contentErrors);
             }
 
             if (!tags || tags.length === 0 || tags.length > 5) {
@@ -81,12 +189,60 @@ export const createBlog = catchAsyncErrors(
                 );
             }
 
-            // Format tags
-            tags = tags.map(tag => tag.toLowerCase());
+            const scheduleError = validateSchedule(publishAt, unpublishAt);
+            if (scheduleError) {
+                return next(new ErrorHandler(scheduleError, 400));
+            }
+
+            // only managed categories, stored by slug
+            if (category) {
+                const { slug, error } = await categoryService.validateBlogCategory(category, ageGroup || "general");
+                if (error) {
+                    return next(new ErrorHandler(error, 400));
+                }
+                category = slug;
+            }
+
+            if (language !== undefined && !isLanguage(language)) {
+                return next(new ErrorHandler(`Language must be one of ${LANGUAGES.join(", ")}`, 400));
+            }
+            let originalId: string | undefined;
+            if (translationOf) {
+                const translation = await resolveTranslation(translationOf, language || DEFAULT_LANGUAGE, authorId as string);
+                if (translation.error) {
+                    return next(translation.error);
+                }
+                originalId = translation.originalId;
+            }
+
+            const preModerationError = checkCommentPreModeration(commentPreModeration, Boolean(isKidsContent), req.user?.role);
+            if (preModerationError) {
+                return next(preModerationError);
+            }
+
+            // canonical tag slugs, blocked tags are refused on kids content
+            const normalized = await tagService.normalizeTags(tags, Boolean(isKidsContent));
+            if (normalized.blocked.length) {
+                return next(new ErrorHandler(`Tags not allowed on kids content: ${normalized.blocked.join(", ")}`, 400));
+            }
+            tags = normalized.tags;
+
+            const safety = await screenBlog({ title, des, tags, content }, isKidsContent ? ageGroup || "kids-6-8" : "general");
+            if (safety.action === "block") {
+                return next(new ErrorHandler(`Content refused by the content filter: ${safety.category}`, 400));
+            }
 
             // Generate unique blog ID  
             const blog_id = generateBlogId(title);
 
+            // kids content is submitted for review instead of being published
+            const status = initialBlogStatus({
+                draft: Boolean(draft),
+                isPublished: publishAt ? false : Boolean(isPublished),
+                isKidsContent: Boolean(isKidsContent),
+                needsReview: safety.action === "review"
+            });
+
             const newBlog = {
                 blog_id,
                 title,
@@ -95,19 +251,31 @@ export const createBlog = catchAsyncErrors(
                 content,
                 tags,
                 author: authorId,
-                draft: Boolean(draft),
-                isPublished: Boolean(isPublished)
+                // a scheduled blog stays a draft until the publishing cron takes it live
+                draft: Boolean(draft) || Boolean(publishAt),
+                isKidsContent: Boolean(isKidsContent),
+                ageGroup,
+                category,
+                language: language || DEFAULT_LANGUAGE,
+                translationOf: originalId || null,
+                commentPreModeration: commentPreModeration ?? null,
+                safety,
+                status,
+                statusHistory: status === "draft" ? [] : [{ from: "draft", to: status, by: authorId, at: new Date() }],
+                // a scheduled blog goes live through the publishing cron
+                isPublished: status === "published",
+                publishAt: publishAt ? new Date(publishAt) : undefined,
+                unpublishAt: unpublishAt ? new Date(unpublishAt) : undefined
             };
             const blog = await BlogModel.create(newBlog);
             // find user and updated 
             /*  await updateUserBlogs(blog._id, authorId, res, next); */
             if (blog) {
+                await blogRevisionService.recordRevision(blog, authorId as string);
+                await tagService.syncUsage([], blog.tags);
+                await translationService.syncGroup(blog);
 
-                const incrementVal = blog.draft ? 0 : 1;
-
-                const user = await userModel.findByIdAndUpdate({ _id: authorId }, { $inc: { "account_info.total_posts": incrementVal }, $push: { blogs: blog._id } });
-
-                await redis.set(authorId as string, JSON.stringify(user));
+                await updateAuthorPosts(blog, blog.draft ? 0 : 1);
             }
 
 
@@ -115,6 +283,7 @@ export const createBlog = catchAsyncErrors(
                 success: true,
                 message: "Blog created successfully",
                 id: newBlog.blog_id,
+                slug: blog.slug,
 
             })
 
@@ -124,167 +293,473 @@ export const createBlog = catchAsyncErrors(
     }
 );
 
+interface BlogEditResult {
+    // invalid content blocks, nothing was saved
+    contentErrors?: ValidationError[];
+    revision?: number;
+    status?: BlogStatus;
+    sentToReview?: boolean;
+}
+
+/**
+ * Apply an edit to a blog with every check of editBlog: content blocks, category, translation,
+ * tags, content filter and review workflow, then the revision, tag usage, caches and post count.
+ * Throws an ErrorHandler with the HTTP status to answer when refused.
+ */
+const applyBlogEdit = async (updatedBlog: IBlog, changes: Partial<IBlogData>, user: IUser, restoredFrom?: number): Promise<BlogEditResult> => {
+    let { title, des, banner, tags, content, draft, isPublished, publishAt, unpublishAt, isKidsContent, ageGroup, category, language, translationOf, commentPreModeration } = changes as IBlogData;
+    const id = String(updatedBlog._id);
+    if (des?.length > 200) {
+        throw new ErrorHandler("Description is required and must be under 200 characters", 400);
+    }
+    if (tags?.length > 5) {
+        throw new ErrorHandler("Between 1 and 5 tags are required", 400);
+    }
+    const scheduleError = validateSchedule(publishAt, unpublishAt);
+    if (scheduleError) {
+        throw new ErrorHandler(scheduleError, 400);
+    }
+    if (content !== undefined) {
+        const contentErrors = validateContentBlocks(content);
+        if (contentErrors.length) {
+            return { contentErrors };
+        }
+    }
+    // the category must allow the age group, whichever of the two changes
+    if (category || (ageGroup && updatedBlog.category)) {
+        const { slug, error } = await categoryService.validateBlogCategory(
+            category || updatedBlog.category,
+            ageGroup || updatedBlog.ageGroup
+        );
+        if (error) {
+            throw new ErrorHandler(error, 400);
+        }
+        category = slug;
+    }
+    // the language must stay unique in the translation group the blog ends up in
+    if (language !== undefined && !isLanguage(language)) {
+        throw new ErrorHandler(`Language must be one of ${LANGUAGES.join(", ")}`, 400);
+    }
+    const previousGroup = { _id: updatedBlog._id, translationOf: updatedBlog.translationOf };
+    const nextLanguage = language || updatedBlog.language || DEFAULT_LANGUAGE;
+    let nextTranslationOf = updatedBlog.translationOf ? String(updatedBlog.translationOf) : null;
+    if (translationOf) {
+        const translation = await resolveTranslation(translationOf, nextLanguage, String(user._id), id);
+        if (translation.error) {
+            throw translation.error;
+        }
+        nextTranslationOf = translation.originalId as string;
+    } else if (translationOf === null) {
+        nextTranslationOf = null;
+    } else if (language && await translationService.languageTaken(updatedBlog, language)) {
+        throw new ErrorHandler(`The blog already has a ${language} version`, 400);
+    }
+    // tags are checked against the audience the blog will have after the edit
+    const kidsContent = isKidsContent !== undefined ? Boolean(isKidsContent) : updatedBlog.isKidsContent;
+    const previousTags = [...updatedBlog.tags];
+    if (tags?.length > 0) {
+        const normalized = await tagService.normalizeTags(tags, kidsContent);
+        if (normalized.blocked.length) {
+            throw new ErrorHandler(`Tags not allowed on kids content: ${normalized.blocked.join(", ")}`, 400);
+        }
+        tags = normalized.tags;
+    } else if (kidsContent && !updatedBlog.isKidsContent) {
+        const blocked = await tagService.blockedForKids(previousTags);
+        if (blocked.length) {
+            throw new ErrorHandler(`Tags not allowed on kids content: ${blocked.join(", ")}`, 400);
+        }
+    }
+    const preModerationError = checkCommentPreModeration(commentPreModeration, kidsContent, user.role);
+    if (preModerationError) {
+        throw preModerationError;
+    }
+    // the text is checked again for the audience it will have after the edit
+    const safety = await screenBlog({
+        title: title || updatedBlog.title,
+        des: des || updatedBlog.des,
+        tags: tags?.length > 0 ? tags : updatedBlog.tags,
+        content: content || updatedBlog.content
+    }, kidsContent ? ageGroup || updatedBlog.ageGroup || "kids-6-8" : "general");
+    if (safety.action === "block") {
+        throw new ErrorHandler(`Content refused by the content filter: ${safety.category}`, 400);
+    }
+    const currentStatus = getBlogStatus(updatedBlog);
+    const wasDraft = Boolean(updatedBlog.draft);
+    // approved and live kids content goes back to review when what readers see changes
+    const editedFields = changedContentFields(updatedBlog, {
+        title: title || undefined,
+        des: des || undefined,
+        banner: banner || undefined,
+        tags: tags?.length > 0 ? tags : undefined,
+        content
+    });
+    // so does content the filter wants a moderator to see
+    const audienceChanged = kidsContent !== updatedBlog.isKidsContent;
+    const filterReview = safety.action === "review";
+    const reReview = (currentStatus === "approved" || currentStatus === "published")
+        && (editedFields.length > 0 || audienceChanged)
+        && (kidsContent || filterReview);
+    const reviewReason = filterReview
+        ? `Flagged by the content filter: ${safety.category}`
+        : `Changed after approval: ${editedFields.join(", ") || "audience"}`;
+    if (currentStatus === "published" && (publishAt || (isKidsContent !== undefined && Boolean(isKidsContent) !== updatedBlog.isKidsContent))) {
+        throw new ErrorHandler("Unpublish the blog before scheduling it or changing its audience", 409);
+    }
+
+    // a blog written before revisions keeps its current state as revision 1
+    await blogRevisionService.recordBaseline(updatedBlog);
+
+    if (banner && updatedBlog) {
+        updatedBlog.banner = banner;
+    }
+    if (title && updatedBlog) {
+        const blog_id = generateBlogId(title);
+        updatedBlog.blog_id = blog_id;
+        updatedBlog.title = title;
+
+    }
+    if (tags?.length > 0 && tags?.length <= 5 && updatedBlog) {
+        updatedBlog.tags = tags;
+    } else (
+        new ErrorHandler("Tags are required", 400)
+
+    )
+    if (draft && updatedBlog) {
+        updatedBlog.draft = Boolean(draft);
+    }
+    updatedBlog.safety = safety;
+    if (commentPreModeration !== undefined) {
+        updatedBlog.commentPreModeration = commentPreModeration;
+    } else if (kidsContent && !updatedBlog.isKidsContent && updatedBlog.commentPreModeration === false
+        && !["moderator", "admin"].includes(user.role || "")) {
+        // an opt-out set while the blog was general content does not carry over to kids content
+        updatedBlog.commentPreModeration = null;
+    }
+    if (isKidsContent !== undefined && updatedBlog) {
+        updatedBlog.isKidsContent = Boolean(isKidsContent);
+    }
+    if (ageGroup && updatedBlog) {
+        updatedBlog.ageGroup = ageGroup;
+    }
+    if (category && updatedBlog) {
+        updatedBlog.category = category;
+    }
+    updatedBlog.language = nextLanguage;
+    updatedBlog.translationOf = nextTranslationOf ? new mongoose.Types.ObjectId(nextTranslationOf) : null;
+    // null cancels a schedule, a date (re)schedules it
+    if (publishAt !== undefined && updatedBlog) {
+        updatedBlog.publishAt = publishAt ? new Date(publishAt) : undefined;
+    }
+    if (unpublishAt !== undefined && updatedBlog) {
+        updatedBlog.unpublishAt = unpublishAt ? new Date(unpublishAt) : undefined;
+    }
+    if (content !== undefined && updatedBlog) {
+        updatedBlog.content = content;
+    }
+    if (des?.length > 0 && updatedBlog) {
+        updatedBlog.des = des;
+    }
+    const postDelta = wasDraft === Boolean(updatedBlog.draft) ? 0 : updatedBlog.draft ? -1 : 1;
+    // publishing goes through the review workflow, kids content needs an approval first
+    // publishing flagged content submits it for review instead, as on create
+    const submitFlagged = filterReview && isPublished && (currentStatus === "draft" || currentStatus === "changes_requested");
+    if (reReview || submitFlagged) {
+        await blogWorkflowService.resubmit(updatedBlog, workflowActor(user), reviewReason);
+    } else if (isPublished && currentStatus !== "published") {
+        await blogWorkflowService.transition(updatedBlog, "published", workflowActor(user));
+    } else {
+        await updatedBlog.save();
+    }
+    const { revision } = await blogRevisionService.recordRevision(updatedBlog, String(user._id), restoredFrom);
+    await tagService.syncUsage(previousTags, updatedBlog.tags);
+    await translationService.syncGroup(updatedBlog);
+    if (String(previousGroup.translationOf || "") !== String(updatedBlog.translationOf || "")) {
+        await translationService.syncGroup(previousGroup);
+    }
+    // cached copies hold the former title, slug and content
+    await invalidateBlogCache(String(updatedBlog._id));
+
+    // the author is credited with a post when the blog leaves draft, whoever edits it,
+    // a publication through the workflow is credited by the workflow
+    if (postDelta) {
+        await updateAuthorPosts(updatedBlog, postDelta);
+    }
+
+    return { revision, status: getBlogStatus(updatedBlog), sentToReview: getBlogStatus(updatedBlog) === "in_review" && currentStatus !== "in_review" };
+};
+
 // edit blog 
 export const editBlog = catchAsyncErrors(
     async (req: Request, res: Response, next: NextFunction) => {
         try {
             const authorId = req.user?._id;
             const id = req.params.id;
-            let { title, des, banner, tags, content, draft, isPublished } = req.body as IBlogData;
             const updatedBlog = await BlogModel.findById(id);
-            if (!authorId) {
+            if (!req.user || !authorId) {
                 return next(
                     new ErrorHandler("Please login to continue with author account", 401)
                 );
             }
 
-            if (!updatedBlog) {
+            if (!updatedBlog || updatedBlog.deletedAt) {
                 return next(new ErrorHandler("Blog not found", 404));
             }
-
-            if (des?.length > 200) {
-                return next(
-                    new ErrorHandler(
-                        "Description is required and must be under 200 characters",
-                        400
-                    )
-                );
-            }
-            if (tags?.length > 5) {
-                return next(
-                    new ErrorHandler("Between 1 and 5 tags are required", 400)
-                );
-            }
-
-            if (banner && updatedBlog) {
-                updatedBlog.banner = banner;
+            // the author, co-authors and editors may edit, reviewers only read
+            if (!blogContributorService.canEdit(updatedBlog, authorId as string)) {
+                return next(new ErrorHandler("Not authorized to edit this blog", 403));
             }
-            if (title && updatedBlog) {
-                const blog_id = generateBlogId(title);
-                updatedBlog.blog_id = blog_id;
-                updatedBlog.title = title;
 
+            const { contentErrors, status, sentToReview } = await applyBlogEdit(updatedBlog, req.body as IBlogData, req.user);
+            if (contentErrors) {
+                return sendContentErrors(req, res, contentErrors);
             }
-            if (tags?.length > 0 && tags?.length <= 5 && updatedBlog) {
-                tags = tags.map(tag => tag.toLowerCase());
-                updatedBlog.tags = tags;
-            } else (
-                new ErrorHandler("Tags are required", 400)
 
-            )
-            if (draft && updatedBlog) {
-                updatedBlog.draft = Boolean(draft);
-            }
-            if (isPublished && updatedBlog) {
-                updatedBlog.isPublished = Boolean(isPublished);
-            }
-            if (content?.length > 0 && updatedBlog) {
-                updatedBlog.content = content;
-            }
-            if (des?.length > 0 && updatedBlog) {
-                updatedBlog.des = des;
+            res.status(200).json({
+                success: true,
+                message: sentToReview ? "Blog updated and sent to review" : "Blog updated successfully",
+                id: updatedBlog.blog_id,
+                slug: updatedBlog.slug,
+                status,
+            });
+        } catch (error: any) {
+            if (error instanceof ErrorHandler) {
+                return next(error);
             }
-            await updatedBlog.save();
+            next(new ErrorHandler(error.message, 500));
+        }
+    }
+);
 
+// send a published blog with the per request data, from the cache when possible
+// ?format=html|amp|text renders the content blocks on the server
+// ?lang= or Accept-Language switches to the translation in that language when there is one
+const sendPublishedBlog = async (id: string, req: Request, res: Response, next: NextFunction, negotiate: boolean = true) => {
+    const format = ((req.query.format as string) || "blocks") as ContentFormat;
+    if (!CONTENT_FORMATS.includes(format)) {
+        return next(new ErrorHandler(`Format must be one of ${CONTENT_FORMATS.join(", ")}`, 400));
+    }
 
-            if (updatedBlog) {
+    const cachedBlog = await redis.get(id);
+    let blog: any;
+    if (cachedBlog) {
+        blog = typeof cachedBlog === "string" ? JSON.parse(cachedBlog) : cachedBlog;
+    } else {
+        const publishedBlog = await BlogModel.findOne({ _id: id, isPublished: true, draft: false });
+        if (!publishedBlog?.isPublished && !publishedBlog?.draft) {
+            return next(new ErrorHandler(`Blog not found the blog is removed by the author:${publishedBlog?.author} `, 404));
+        }
+        if (!publishedBlog) return next(new ErrorHandler(`Blog not found `, 404));
+        // with 1dys to expire and refresh
+        await redis.setex(id, 86400, JSON.stringify(publishedBlog));
+        blog = publishedBlog.toJSON();
+    }
 
+    const translations = await translationService.variants(blog);
+    const requested = negotiate ? requestedLanguage(req.query.lang, req.get("accept-language")) : null;
+    const variant = requested && (blog.language || DEFAULT_LANGUAGE) !== requested
+        ? translations.find(translation => translation.language === requested)
+        : undefined;
+    if (variant) {
+        return sendPublishedBlog(variant._id, req, res, next, false);
+    }
 
-                // Optimize finding user and updating
-                const incrementVal = updatedBlog.draft ? 0 : 1;
+    // series navigation, likes, translations and structured data are per request, they are not cached
+    const [series, liked, structuredData] = await Promise.all([
+        seriesService.getNavigation(id),
+        blogLikeService.likedIds(req.user?._id as string, [id]),
+        seoService.getBlogJsonLd(blog)
+    ]);
+    const language = languageMeta(blog.language);
+
+    res.setHeader("Content-Language", language.lang);
+    res.vary("Accept-Language");
+    res.status(cachedBlog ? 201 : 200).json({
+        success: true,
+        message: "Blog found",
+        blog: { ...blog, content: renderContent(blog.content, format), format, likedByMe: liked.has(id), dir: language.dir },
+        language,
+        translations,
+        series,
+        structuredData,
+    });
+}
 
-                const user = await userModel.findByIdAndUpdate({ _id: authorId }, { $inc: { "account_info.total_posts": incrementVal }, $push: { blogs: updatedBlog._id } });
+// get single blog that blog.isPublished true 
+export const getSingleBlog = catchAsyncErrors(
+    async (req: Request, res: Response, next: NextFunction) => {
+        try {
+            await sendPublishedBlog(req.params.id, req, res, next);
+        } catch (error: any) {
+            next(new ErrorHandler(error.message, 500));
+        }
+    }
+)
 
-                await redis.set(authorId as string, JSON.stringify(user));
-                res.status(200).json({
-                    success: true,
-                    message: "Blog updated successfully",
-                    id: updatedBlog.blog_id,
-                });
+// blogs to read next: shared tags, category, age group and co-reading, within the audience of the blog
+export const getRelatedBlogs = catchAsyncErrors(
+    async (req: Request, res: Response, next: NextFunction) => {
+        try {
+            const blogId = req.params.id;
+            if (!mongoose.Types.ObjectId.isValid(blogId)) {
+                return next(new ErrorHandler(`Blog not found`, 404));
+            }
+            const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 5, 1), 20);
+            const blog = await BlogModel.findOne({ _id: blogId, isPublished: true, draft: false, deletedAt: null })
+                .select("tags category ageGroup isKidsContent translationOf")
+                .lean<SourceBlog>();
+            if (!blog) {
+                return next(new ErrorHandler(`Blog not found`, 404));
             }
 
+            const related = await relatedPostsService.getRelated(blog, limit, getAllowedAgeGroups(req.user));
 
+            res.status(200).json({
+                success: true,
+                message: "Related blogs",
+                blogs: related,
+            });
         } catch (error: any) {
             next(new ErrorHandler(error.message, 500));
         }
-    }
-);
+    })
 
-// get single blog that blog.isPublished true 
-export const getSingleBlog = catchAsyncErrors(
+// get a published blog by its slug, former slugs redirect to the current one
+export const getBlogBySlug = catchAsyncErrors(
     async (req: Request, res: Response, next: NextFunction) => {
         try {
-            const id = req.params.id;
-            // implement redis caching logic
-
-            const cachedBlog = await redis.get(id);
-            if (cachedBlog) {
-                const blog = JSON.parse(cachedBlog as string);
-                return res.status(201).json({
-                    success: true,
-                    message: "Blog found",
-                    blog,
-                });
-            } else {
-                const blog = await BlogModel.findOne({ _id: id, isPublished: true, draft: false });
-                if (!blog?.isPublished && !blog?.draft) {
-                    return next(new ErrorHandler(`Blog not found the blog is removed by the author:${blog?.author} `, 404));
-                }
-                if (!blog) return next(new ErrorHandler(`Blog not found `, 404));
-                // with 1dys to expire and refresh
-                await redis.setex(id, 86400, JSON.stringify(blog));
-
-                res.status(200).json({
-                    success: true,
-                    message: "Blog found",
-                    blog,
-                });
+            const slug = req.params.slug.toLowerCase();
+            const blog = await BlogModel.findOne({
+                $or: [{ slug }, { previousSlugs: slug }],
+                isPublished: true,
+                draft: false
+            }).select("_id slug").lean();
+            if (!blog) {
+                return next(new ErrorHandler(`Blog not found `, 404));
+            }
+            if (blog.slug !== slug) {
+                return res.redirect(301, `/api/v1/blog/${encodeURIComponent(blog.slug)}`);
             }
 
+            await sendPublishedBlog(String(blog._id), req, res, next);
         } catch (error: any) {
             next(new ErrorHandler(error.message, 500));
         }
     }
 )
 
-// get all blogs where blog.isPublished true and blog.draft false 
+// get published blogs, cursor-paginated, filterable and sortable
+/**
+ * Query: limit, cursor, sort (newest | trending | most_read | top_rated), category, tags (comma separated),
+ * author, ageGroup, isKidsContent, featured, from, to (ISO dates on the publication date),
+ * lang (else Accept-Language, else the default language) picks one variant per translation group
+ */
 export const getAllBlogs = catchAsyncErrors(
     async (req: Request, res: Response, next: NextFunction) => {
         try {
-            // caching with redis strategy
-            const cachedBlogs = await redis.get("allBlogs");
-            if (cachedBlogs) {
-                const blogs = JSON.parse(cachedBlogs as string);
-                return res.status(201).json({
-                    success: true,
-                    message: "Blogs found",
-                    blogs,
-                });
-            } else {
-
-                const allBlogs = await BlogModel.find({
-                    isPublished: true, draft:
-                        false
-                });
-                // add to cache with 1 day to expire 
-                await redis.setex("allBlogs", 86400, JSON.stringify(allBlogs));
-                res.status(200).json({
-                    success: true,
-                    message: "Blogs found",
-                    data: allBlogs,
-                });
+            const query = req.query as Record<string, string | undefined>;
+            const sort = (query.sort || "newest") as BlogSortMode;
+            if (!BLOG_SORT_MODES.includes(sort)) {
+                return next(new ErrorHandler(`Sort must be one of ${BLOG_SORT_MODES.join(", ")}`, 400));
+            }
+            if (query.author && !mongoose.Types.ObjectId.isValid(query.author)) {
+                return next(new ErrorHandler("Invalid author id", 400));
+            }
+            const from = query.from ? new Date(query.from) : undefined;
+            const to = query.to ? new Date(query.to) : undefined;
+            if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+                return next(new ErrorHandler("from and to must be valid dates", 400));
+            }
+            const toBoolean = (value?: string) => value === undefined ? undefined : value === "true";
+            // a category lists the blogs of its sub categories too
+            const category = query.category ? await categoryService.resolve(query.category) : null;
+            const language = negotiateLanguage(query.lang, req.get("accept-language"));
+
+            const { blogs, pagination } = await blogListingService.list({
+                limit: Math.min(Math.max(parseInt(query.limit as string) || 10, 1), 50),
+                cursor: query.cursor,
+                sort,
+                categories: category
+                    ? await categoryService.withDescendants(category.slug)
+                    : query.category ? [query.category] : undefined,
+                tags: query.tags?.split(",").map(tag => tag.trim().toLowerCase()).filter(Boolean),
+                author: query.author,
+                ageGroup: query.ageGroup,
+                isKidsContent: toBoolean(query.isKidsContent),
+                featured: toBoolean(query.featured),
+                from,
+                to,
+                audienceFilter: ageGroupFilterFor(req.user),
+                language
+            });
+            const liked = await blogLikeService.likedIds(
+                req.user?._id as string,
+                blogs.map((blog: any) => String(blog._id))
+            );
+
+            res.vary("Accept-Language");
+            res.status(200).json({
+                success: true,
+                message: "Blogs found",
+                // groups without a variant in the language fall back to another one, hence dir per blog
+                blogs: blogs.map((blog: any) => ({
+                    ...blog,
+                    likedByMe: liked.has(String(blog._id)),
+                    dir: languageMeta(blog.language).dir
+                })),
+                language: languageMeta(language),
+                pagination,
+            });
+        } catch (error: any) {
+            if (error instanceof InvalidCursorError) {
+                return next(new ErrorHandler(error.message, 400));
+            }
+            next(new ErrorHandler(error.message, 500));
+        }
+    })
 
+// full-text search over published blogs with facets, kids accounts only see their age groups
+export const searchBlogs = catchAsyncErrors(
+    async (req: Request, res: Response, next: NextFunction) => {
+        try {
+            const q = typeof req.query.q === "string" ? req.query.q.trim() : "";
+            if (q.length < 2 || q.length > 100) {
+                return next(new ErrorHandler("Search query must be between 2 and 100 characters", 400));
             }
+            const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+            const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 10, 1), 50);
+            const tags = typeof req.query.tags === "string"
+                ? req.query.tags.split(",").map(tag => tag.trim().toLowerCase()).filter(Boolean)
+                : undefined;
+
+            const { results, facets, pagination } = await blogSearchService.search({
+                q,
+                page,
+                limit,
+                category: req.query.category as string | undefined,
+                tags,
+                ageGroup: req.query.ageGroup as string | undefined,
+                educationalLevel: req.query.educationalLevel as string | undefined,
+                audienceFilter: ageGroupFilterFor(req.user)
+            });
+
+            res.status(200).json({
+                success: true,
+                message: "Search results",
+                results,
+                facets,
+                pagination,
+            });
         } catch (error: any) {
             next(new ErrorHandler(error.message, 500));
         }
     })
+
 // get all draft of the author 
 export const getDraftBlogs = catchAsyncErrors(
     async (req: Request, res: Response, next: NextFunction) => {
         try {
             const user = req.user?._id;
-            const allBlogsDraft = await BlogModel.find({ author: user, draft: true });
+            const allBlogsDraft = await BlogModel.find({ author: user, draft: true, deletedAt: null });
             if (!allBlogsDraft.length) {
                 return next(new ErrorHandler(`No Draft blogs  found writing by the  author:${user} `, 404));
 
@@ -303,14 +778,43 @@ export const getDraftBlogs = catchAsyncErrors(
     }
 )
 
+// get all scheduled blogs of the author, waiting to be published or unpublished
+export const getScheduledBlogs = catchAsyncErrors(
+    async (req: Request, res: Response, next: NextFunction) => {
+        try {
+            const user = req.user?._id;
+            const scheduledBlogs = await BlogModel.find({
+                author: user,
+                deletedAt: null,
+                $or: [
+                    { publishAt: { $exists: true, $ne: null } },
+                    { unpublishAt: { $exists: true, $ne: null } }
+                ]
+            }).sort({ publishAt: 1, unpublishAt: 1 });
+            if (!scheduledBlogs.length) {
+                return next(new ErrorHandler(`No scheduled blogs found writing by the  author:${user} `, 404));
+            }
+            res.status(200).json({
+                success: true,
+                message: "Blogs found",
+                scheduledBlogs,
+            });
+
+        } catch (error: any) {
+            next(new ErrorHandler(error.message, 500));
+        }
+    }
+)
+
 // single draft writing by the author
 export const getSingleDraftBlog = catchAsyncErrors(
     async (req: Request, res: Response, next: NextFunction) => {
         try {
             const user = req.user?._id;
             const id = req.params.id;
-            const blog = await BlogModel.findOne({ author: user, _id: id, draft: true });
-            if (!blog) {
+            const blog = mongoose.Types.ObjectId.isValid(id) ? await BlogModel.findOne({ _id: id, draft: true, deletedAt: null }) : null;
+            // contributors read the drafts they were invited on
+            if (!blog || !blogContributorService.canView(blog, user as string)) {
                 return next(new ErrorHandler(`No Draft blog found writing by the  author:${user} `, 404))
             }
             if (blog.isPublished || !blog.draft) {
@@ -327,7 +831,7 @@ export const getSingleDraftBlog = catchAsyncErrors(
             next(new ErrorHandler(error.message, 500));
         }
     })
-// add question in blog 
+// add question in blog, stored as a comment of the blog
 interface IAddQuestionData {
     question: string;
     blogId: string;
@@ -338,56 +842,39 @@ export const addQuestion = catchAsyncErrors(
         try {
             const { question, blogId } = req.body as IAddQuestionData;
             const user = req.user;
-            const blog = await BlogModel.findById(blogId);
             if (!user) {
                 return next(new ErrorHandler("user not logging", 404));
             }
-            const userId = user._id;
-
-            if (!mongoose.Types.ObjectId.isValid(blogId)) {
-                return next(new ErrorHandler(`Blog not found`, 404));
-            }
-            if (!blog) {
-                return next(new ErrorHandler(`Blog not found`, 404));
-            }
             if (!question || question.length < 5 || question.length > 200) {
                 return next(new ErrorHandler(`Question is required and must be between 5 and 200 characters`, 400));
             }
+            const userId = String(user._id);
 
-            const newQuestion: any = {
-                userId,
-                question,
-                questionReplies: []
-            };
+            const comment = await commentService.create({ blogId, authorId: userId, content: question });
+            const blog = await BlogModel.findById(blogId).select('title author');
+            if (blog && !comment.awaitingApproval) {
+                await notificationService.notifyOfNewComment(blog.author.toString(), userId, blog.title, blogId);
+            }
 
-            blog.questions.push(newQuestion);
-            // incriment by 1 nombre of total comments and totalParentComment
-            blog.activity.total_comments++;
-            blog.activity.total_parent_comments++;
-            await blog.save();
-            // create notification 
-            await NotificationModel.create({
-                user: userId,
-                title: `New Question Received in ${blog.title} `,
-                message: `You have a new question in ${blog.title} blog by ${user.username} please check it out`,
-            });
             res.status(201).json({
                 success: true,
                 message: "Question added",
-                blog,
+                comment,
             });
-
-
         } catch (error: any) {
+            if (error instanceof ErrorHandler) {
+                return next(error);
+            }
             next(new ErrorHandler(error.message, 500));
         }
     }
 )
 
-// add answer to blog question 
+// add answer to blog question, stored as a reply to the question comment
 interface IAddAnswerData {
     answer: string;
     blogId: string;
+    // id of the question comment, or of the embedded question it was migrated from
     questionId: string;
 }
 export const addAnswer = catchAsyncErrors(
@@ -399,84 +886,41 @@ export const addAnswer = catchAsyncErrors(
             if (!user) {
                 return next(new ErrorHandler("user not logging", 404));
             }
-            const blog = await BlogModel.findById(blogId);
             if (!mongoose.Types.ObjectId.isValid(blogId)) {
                 return next(new ErrorHandler(`Blog not found`, 404));
             }
-            if (!blog) {
-                return next(new ErrorHandler(`Blog not found`, 404));
-            }
             if (!answer || answer.length > 200) {
                 return next(new ErrorHandler(`Answer must be under 200 characters `, 400));
             }
             if (!questionId) {
                 return next(new ErrorHandler(`Question id is required to be replied`, 400));
             }
-            const question = blog.questions?.find((item: any) => item._id.equals(questionId));
+            const question = await commentService.findForBlog(blogId, questionId);
             if (!question) {
                 return next(new ErrorHandler(`Question not found`, 404));
             }
-            console.log(question)
-            const userId = user._id;
-            const newAnswer: any = {
-                userId,
-                answer,
-            };
-
-
-            if (userId === question.user) {
-                question.questionReplies.push(newAnswer);
-                // incriment by 1 nombre of total comments
-                blog.activity.total_comments++;
-                await blog.save();
-                // create notification
-                await NotificationModel.create({
-                    user: question.user,
-                    title: `New Answer Received in ${blog.title} `,
-                    message: `You have a new answer in ${blog.title} blog by ${user.username} please check it out`,
-
-                })
-
-
-                res.status(201).json({
-                    success: true,
-                    message: "Answer added and notification sent",
-                    blog,
-                })
-
-            } else {
-                // send email to user for new answer 
-                question.questionReplies.push(newAnswer);
-                // incriment by 1 nombre of total comments
-                blog.activity.total_comments++;
-                await blog.save();
-
-                const data = {
-                    name: user.name,
-                    title: blog.title,
-                    email: user.email,
-
-                }
-                const html = await ejs.renderFile(path.join(__dirname, "../mails/question-reply.ejs"), data)
-                try {
-                    await sendMail({
-                        email: user.email,
-                        subject: "New Answer",
-                        template: "question-reply.ejs",
-                        data,
-                    })
-                    res.status(201).json({
-                        success: true,
-                        message: "Answer added and email sent",
-                        blog,
-                    })
-                } catch (error: any) {
-                    return next(new ErrorHandler(error.message, 500));
-                }
+            const userId = String(user._id);
 
+            const comment = await commentService.create({
+                blogId,
+                authorId: userId,
+                content: answer,
+                parentId: String(question._id)
+            });
+            const blog = await BlogModel.findById(blogId).select('title');
+            if (blog && !comment.awaitingApproval) {
+                await notificationService.notifyOfCommentReply(question.author.toString(), userId, blog.title, blogId, String(question._id));
             }
 
+            res.status(201).json({
+                success: true,
+                message: "Answer added",
+                comment,
+            })
         } catch (error: any) {
+            if (error instanceof ErrorHandler) {
+                return next(error);
+            }
             next(new ErrorHandler(error.message, 500));
         }
     })
@@ -555,7 +999,7 @@ export const addReview = catchAsyncErrors(
         }
     })
 
-// add replies to review 
+// add replies to review, stored as replies to the comment mirroring the review
 interface IAddReviewReplyData {
     comment: string;
     blogId: string;
@@ -576,14 +1020,16 @@ export const addReviewReply = catchAsyncErrors(
             if (user.role === "user") {
                 return next(new ErrorHandler(`You are not the author of this blog only author of the blog can give reply to review`, 404));
             }
+            if (!mongoose.Types.ObjectId.isValid(blogId)) {
+                return next(new ErrorHandler(`Blog not found`, 404));
+            }
 
-
-            const blog = await BlogModel.findById(blogId)
+            const blog = await BlogModel.findOne({ _id: blogId, deletedAt: null }).select('title author reviews')
             if (!blog) {
                 return next(new ErrorHandler(`Blog not found`, 404));
             }
-
-            if (user._id !== blog.author.toString()) {
+            const userId = String(user._id);
+            if (userId !== blog.author.toString()) {
                 return next(new ErrorHandler(`You are  not the author of this blog only author of the blog can give reply to review`, 404));
             }
 
@@ -592,34 +1038,26 @@ export const addReviewReply = catchAsyncErrors(
                 return next(new ErrorHandler(`Review not found`, 404));
             }
 
-            if (user._id === blog.author.toString() && (user.role === "author" || user.role === "admin")) {
-
-
-                const replyData: any = {
-                    user: user._id,
-                    comment,
-                }
-                if (!review.commentReplies) {
-                    review.commentReplies = []
-                }
-                review.commentReplies?.push(replyData)
-                await blog.save();
-                // notification 
-                await NotificationModel.create({
-                    user: review.user,
-                    title: `Review Reply Received  from ${user.username} the ${user.role} of ${blog.title} `,
-                    message: `You have a reply in your review about: ${blog.title} blog by ${user.username} . The ${user.role} of ${blog.title} reply in your review: ${review.comment} . Please check it out`,
-                })
-                res.status(201).json({
-                    success: true,
-                    message: "Reply added",
-                    blog,
-                })
-            } else {
-                return next(new ErrorHandler(`You are not the author of this blog only author of the blog can give reply to review`, 404));
+            const reviewComment = await commentService.ensureReviewComment(blogId, review);
+            const reply = await commentService.create({
+                blogId,
+                authorId: userId,
+                content: comment,
+                parentId: String(reviewComment._id)
+            });
+            if (!reply.awaitingApproval) {
+                await notificationService.notifyOfCommentReply(reviewComment.author.toString(), userId, blog.title, blogId, String(reviewComment._id));
             }
 
+            res.status(201).json({
+                success: true,
+                message: "Reply added",
+                comment: reply,
+            })
         } catch (error: any) {
+            if (error instanceof ErrorHandler) {
+                return next(error);
+            }
             next(new ErrorHandler(error.message, 500));
         }
     })
@@ -659,72 +1097,580 @@ interface IReadBlog {
     readAt: Date;
 }
 
+// anonymous readers are told apart by their address and browser, never by what they send
+const readerFingerprint = (req: Request) =>
+    createHash("sha256").update(`${req.ip}|${req.get("user-agent") || ""}`).digest("hex");
+
+// report the end of a blog view for clients without the realtime socket
+// the read counts once per reader and day, past the read time or scroll depth thresholds
 export const addReadBlog = catchAsyncErrors(
     async (req: Request, res: Response, next: NextFunction) => {
         try {
             const blogId = req.params.id
             const user = req?.user;
-            const blog = await BlogModel.findById(blogId);
+            const { sessionId, readTime, scrollDepth } = req.body as { sessionId: string; readTime: number; scrollDepth: number };
 
             if (!mongoose.Types.ObjectId.isValid(blogId)) {
                 return next(new ErrorHandler(`Blog not found`, 404));
             }
-            if (!blog) {
+            if (!sessionId || typeof sessionId !== "string" || sessionId.length > 100) {
+                return next(new ErrorHandler(`A session id is required`, 400));
+            }
+            if (!Number.isFinite(Number(readTime)) || !Number.isFinite(Number(scrollDepth))) {
+                return next(new ErrorHandler(`readTime and scrollDepth must be numbers`, 400));
+            }
+            if (!await readTrackingService.isReadable(blogId)) {
                 return next(new ErrorHandler(`Blog not found`, 404));
             }
-            const readBlog: any = {
+
+            const { read } = await readTrackingService.recordViewEnd({
                 blogId,
-                readAt: new Date()
-            };
-            // increment by 1 nombre of reads in blog.activity.total_reads
-            blog.activity.total_reads++;
-            await blog.save();
-            if (user) {
-                user.account_info.total_reads++;
-                await user?.save();
-            }
+                sessionId,
+                userId: user?._id as string | undefined,
+                readerFingerprint: user ? undefined : readerFingerprint(req),
+                readTime: Number(readTime),
+                scrollDepth: Number(scrollDepth)
+            });
 
-            res.status(201).json({
+            res.status(read ? 201 : 200).json({
                 success: true,
-                message: "Blog read",
-                blog,
-
-
+                message: read ? "Blog read" : "View recorded",
+                counted: read,
             });
         } catch (error: any) {
             next(new ErrorHandler(error.message, 500));
         }
     })
 
-// add likes to blog 
-interface IAddLike {
-    blogId: string;
-}
+// like a blog, liking twice has no effect
 export const addLike = catchAsyncErrors(
     async (req: Request, res: Response, next: NextFunction) => {
         try {
             const blogId = req.params.id
             const user = req.user;
-            const blog = await BlogModel.findById(blogId);
-            if (!blog) {
-                return next(new ErrorHandler(`Blog not found`, 404));
-            }
             if (!user) {
                 return next(new ErrorHandler(`User not found`, 404));
             }
-            if (blog && user) {
+            if (!mongoose.Types.ObjectId.isValid(blogId)) {
+                return next(new ErrorHandler(`Blog not found`, 404));
+            }
+            const blog = await BlogModel.findOne({ _id: blogId, isPublished: true }).select("author title activity");
+            if (!blog) {
+                return next(new ErrorHandler(`Blog not found`, 404));
+            }
+
+            const liked = await blogLikeService.like(user._id as string, blog);
+
+            res.status(liked ? 201 : 200).json({
+                success: true,
+                message: liked ? "Blog liked" : "Blog already liked",
+                likedByMe: true,
+                total_likes: blog.activity.total_likes + (liked ? 1 : 0),
+            });
+        } catch (error: any) {
+            next(new ErrorHandler(error.message, 500));
+        }
+    })
 
-                blog.activity.total_likes++;
+// remove the like of the logged in user
+export const removeLike = catchAsyncErrors(
+    async (req: Request, res: Response, next: NextFunction) => {
+        try {
+            const blogId = req.params.id
+            const user = req.user;
+            if (!user) {
+                return next(new ErrorHandler(`User not found`, 404));
+            }
+            if (!mongoose.Types.ObjectId.isValid(blogId)) {
+                return next(new ErrorHandler(`Blog not found`, 404));
             }
-            await blog.save();
 
-            res.status(201).json({
+            const removed = await blogLikeService.unlike(user._id as string, blogId);
+            if (!removed) {
+                return next(new ErrorHandler(`Blog is not liked`, 404));
+            }
+            const blog = await BlogModel.findById(blogId).select("activity.total_likes").lean();
+
+            res.status(200).json({
                 success: true,
-                message: "Blog liked",
+                message: "Like removed",
+                likedByMe: false,
+                total_likes: blog?.activity?.total_likes || 0,
+            });
+        } catch (error: any) {
+            next(new ErrorHandler(error.message, 500));
+        }
+    })
+
+// recompute the like counters of every blog from the legacy and stored likes -- only for admin
+export const reconcileLikeCounters = catchAsyncErrors(
+    async (req: Request, res: Response, next: NextFunction) => {
+        try {
+            const updated = await blogLikeService.reconcileCounters();
+
+            res.status(200).json({
+                success: true,
+                message: "Like counters reconciled",
+                updated,
+            });
+        } catch (error: any) {
+            next(new ErrorHandler(error.message, 500));
+        }
+    })
+
+
+
+// the users who may edit the blog, moderators and admins can manage its revisions
+const canManageBlog = (user: IUser, blog: IBlog) =>
+    blogContributorService.canEdit(blog, String(user._id)) || ["moderator", "admin"].includes(user.role);
+
+// list revisions of a blog
+export const getBlogRevisions = catchAsyncErrors(
+    async (req: Request, res: Response, next: NextFunction) => {
+        try {
+            const blogId = req.params.id;
+            const user = req.user;
+            if (!user) {
+                return next(new ErrorHandler("user not logging", 404));
+            }
+            if (!mongoose.Types.ObjectId.isValid(blogId)) {
+                return next(new ErrorHandler(`Blog not found`, 404));
+            }
+            const blog = await BlogModel.findById(blogId).select("author contributors");
+            if (!blog) {
+                return next(new ErrorHandler(`Blog not found`, 404));
+            }
+            if (!canManageBlog(user, blog)) {
+                return next(new ErrorHandler(`Not authorized to view the revisions of this blog`, 403));
+            }
+
+            const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+            const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+            const { revisions, pagination } = await blogRevisionService.listRevisions(blogId, page, limit);
+
+            res.status(200).json({
+                success: true,
+                message: "Revisions found",
+                revisions,
+                pagination,
+            });
+        } catch (error: any) {
+            next(new ErrorHandler(error.message, 500));
+        }
+    })
+
+// block-by-block diff between two revisions
+export const getBlogRevisionDiff = catchAsyncErrors(
+    async (req: Request, res: Response, next: NextFunction) => {
+        try {
+            const blogId = req.params.id;
+            const user = req.user;
+            const from = parseInt(req.query.from as string);
+            const to = parseInt(req.query.to as string);
+            if (!user) {
+                return next(new ErrorHandler("user not logging", 404));
+            }
+            if (!mongoose.Types.ObjectId.isValid(blogId)) {
+                return next(new ErrorHandler(`Blog not found`, 404));
+            }
+            if (!from || !to) {
+                return next(new ErrorHandler(`Query parameters from and to must be revision numbers`, 400));
+            }
+            const blog = await BlogModel.findById(blogId).select("author contributors");
+            if (!blog) {
+                return next(new ErrorHandler(`Blog not found`, 404));
+            }
+            if (!canManageBlog(user, blog)) {
+                return next(new ErrorHandler(`Not authorized to view the revisions of this blog`, 403));
+            }
+
+            const diff = await blogRevisionService.diffRevisions(blogId, from, to);
+            if (!diff) {
+                return next(new ErrorHandler(`Revision not found`, 404));
+            }
+
+            res.status(200).json({
+                success: true,
+                message: "Revision diff",
+                diff,
+            });
+        } catch (error: any) {
+            next(new ErrorHandler(error.message, 500));
+        }
+    })
+
+// roll a blog back to an earlier revision, the restore itself is recorded as a new revision
+export const restoreBlogRevision = catchAsyncErrors(
+    async (req: Request, res: Response, next: NextFunction) => {
+        try {
+            const blogId = req.params.id;
+            const revisionNumber = parseInt(req.params.revision);
+            const user = req.user;
+            if (!user) {
+                return next(new ErrorHandler("user not logging", 404));
+            }
+            if (!mongoose.Types.ObjectId.isValid(blogId)) {
+                return next(new ErrorHandler(`Blog not found`, 404));
+            }
+            const blog = await BlogModel.findById(blogId);
+            if (!blog || blog.deletedAt) {
+                return next(new ErrorHandler(`Blog not found`, 404));
+            }
+            if (!canManageBlog(user, blog)) {
+                return next(new ErrorHandler(`Not authorized to restore this blog`, 403));
+            }
+            const revision = await blogRevisionService.getRevision(blogId, revisionNumber);
+            if (!revision) {
+                return next(new ErrorHandler(`Revision not found`, 404));
+            }
+
+            // a restore is an edit, it goes through the same checks and review
+            const { contentErrors, revision: restored, status } = await applyBlogEdit(blog, {
+                title: revision.title,
+                des: revision.des,
+                banner: revision.banner,
+                tags: revision.tags,
+                content: revision.content
+            }, user, revision.revision);
+            if (contentErrors) {
+                return sendContentErrors(req, res, contentErrors);
+            }
+
+            res.status(200).json({
+                success: true,
+                message: `Blog restored to revision ${revision.revision}`,
+                revision: restored,
+                status,
                 blog,
             });
+        } catch (error: any) {
+            if (error instanceof ErrorHandler) {
+                return next(error);
+            }
+            next(new ErrorHandler(error.message, 500));
+        }
+    })
+
+// editorial workflow: every endpoint moves the blog to one status
+const changeBlogStatus = (to: BlogStatus) => catchAsyncErrors(
+    async (req: Request, res: Response, next: NextFunction) => {
+        try {
+            const blogId = req.params.id;
+            const user = req.user;
+            if (!user) {
+                return next(new ErrorHandler("user not logging", 404));
+            }
+            if (!mongoose.Types.ObjectId.isValid(blogId)) {
+                return next(new ErrorHandler(`Blog not found`, 404));
+            }
+            const blog = await BlogModel.findById(blogId);
+            // a trashed blog has to be restored before it moves in the workflow
+            if (!blog || blog.deletedAt) {
+                return next(new ErrorHandler(`Blog not found`, 404));
+            }
+            const comment = typeof req.body?.comment === "string" ? req.body.comment : undefined;
+            if (comment && comment.length > 1000) {
+                return next(new ErrorHandler(`Comment must be under 1000 characters`, 400));
+            }
+
+            await blogWorkflowService.transition(blog, to, workflowActor(user), comment);
+
+            res.status(200).json({
+                success: true,
+                message: `Blog is now ${to.replace(/_/g, " ")}`,
+                status: blog.status,
+                statusHistory: blog.statusHistory,
+            });
+        } catch (error: any) {
+            if (error instanceof ErrorHandler) {
+                return next(error);
+            }
+            next(new ErrorHandler(error.message, 500));
+        }
+    })
+
+export const submitBlogForReview = changeBlogStatus("in_review");
+export const approveBlog = changeBlogStatus("approved");
+export const requestBlogChanges = changeBlogStatus("changes_requested");
+export const publishBlog = changeBlogStatus("published");
+export const archiveBlog = changeBlogStatus("archived");
+export const withdrawBlogToDraft = changeBlogStatus("draft");
+
+// blogs waiting for a review decision, oldest submission first
+export const getReviewQueue = catchAsyncErrors(
+    async (req: Request, res: Response, next: NextFunction) => {
+        try {
+            const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+            const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+            const filter: Record<string, any> = { status: "in_review", deletedAt: null };
+            if (req.query.isKidsContent !== undefined) {
+                filter.isKidsContent = req.query.isKidsContent === "true";
+            }
+
+            const [blogs, total] = await Promise.all([
+                BlogModel.find(filter)
+                    .select("-content -questions -reviews -viewHistory")
+                    .populate("author", "name username avatar")
+                    .sort({ updatedAt: 1 })
+                    .limit(limit)
+                    .skip((page - 1) * limit),
+                BlogModel.countDocuments(filter)
+            ]);
+
+            res.status(200).json({
+                success: true,
+                message: "Review queue",
+                blogs,
+                pagination: {
+                    page,
+                    limit,
+                    total,
+                    pages: Math.ceil(total / limit)
+                },
+            });
         } catch (error: any) {
             next(new ErrorHandler(error.message, 500));
         }
     })
 
+// audit trail of the workflow transitions of a blog
+export const getBlogStatusHistory = catchAsyncErrors(
+    async (req: Request, res: Response, next: NextFunction) => {
+        try {
+            const blogId = req.params.id;
+            const user = req.user;
+            if (!user) {
+                return next(new ErrorHandler("user not logging", 404));
+            }
+            if (!mongoose.Types.ObjectId.isValid(blogId)) {
+                return next(new ErrorHandler(`Blog not found`, 404));
+            }
+            const blog = await BlogModel.findById(blogId)
+                .select("author contributors status isPublished statusHistory")
+                .populate("statusHistory.by", "name username role");
+            if (!blog) {
+                return next(new ErrorHandler(`Blog not found`, 404));
+            }
+            if (!canManageBlog(user, blog)) {
+                return next(new ErrorHandler(`Not authorized to view the history of this blog`, 403));
+            }
+
+            res.status(200).json({
+                success: true,
+                message: "Blog status history",
+                status: getBlogStatus(blog),
+                statusHistory: blog.statusHistory,
+            });
+        } catch (error: any) {
+            next(new ErrorHandler(error.message, 500));
+        }
+    })
+
+// move a blog to the trash, it can be restored until its retention period is over -- author or admin
+export const deleteBlog = catchAsyncErrors(
+    async (req: Request, res: Response, next: NextFunction) => {
+        try {
+            const blogId = req.params.id;
+            const user = req.user;
+            if (!user) {
+                return next(new ErrorHandler("user not logging", 404));
+            }
+            if (!mongoose.Types.ObjectId.isValid(blogId)) {
+                return next(new ErrorHandler(`Blog not found`, 404));
+            }
+            const blog = await BlogModel.findById(blogId).select("author deletedAt");
+            if (!blog || blog.deletedAt) {
+                return next(new ErrorHandler(`Blog not found`, 404));
+            }
+            if (blog.author.toString() !== String(user._id) && user.role !== "admin") {
+                return next(new ErrorHandler(`You can only delete your own blog posts`, 403));
+            }
+
+            const trashed = await blogTrashService.moveToTrash(blogId, user._id as string);
+            if (!trashed) {
+                return next(new ErrorHandler(`Blog not found`, 404));
+            }
+
+            res.status(200).json({
+                success: true,
+                message: "Blog moved to the trash",
+                purgeAt: trashed.purgeAt,
+            });
+        } catch (error: any) {
+            next(new ErrorHandler(error.message, 500));
+        }
+    })
+
+// trashed blogs of the author, admins see every trashed blog with ?all=true
+export const getTrash = catchAsyncErrors(
+    async (req: Request, res: Response, next: NextFunction) => {
+        try {
+            const user = req.user;
+            if (!user) {
+                return next(new ErrorHandler("user not logging", 404));
+            }
+            const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+            const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 20, 1), 100);
+            const everyone = user.role === "admin" && req.query.all === "true";
+
+            const { blogs, total } = await blogTrashService.list(everyone ? null : user._id as string, page, limit);
+
+            res.status(200).json({
+                success: true,
+                message: "Trashed blogs",
+                blogs,
+                pagination: {
+                    page,
+                    limit,
+                    total,
+                    totalPages: Math.ceil(total / limit),
+                    hasNext: page * limit < total,
+                    hasPrev: page > 1,
+                },
+            });
+        } catch (error: any) {
+            next(new ErrorHandler(error.message, 500));
+        }
+    })
+
+// take a blog out of the trash -- author or admin
+export const restoreBlog = catchAsyncErrors(
+    async (req: Request, res: Response, next: NextFunction) => {
+        try {
+            const blogId = req.params.id;
+            const user = req.user;
+            if (!user) {
+                return next(new ErrorHandler("user not logging", 404));
+            }
+            if (!mongoose.Types.ObjectId.isValid(blogId)) {
+                return next(new ErrorHandler(`Blog not found`, 404));
+            }
+            const blog = await BlogModel.findById(blogId).select("author deletedAt");
+            if (!blog || !blog.deletedAt) {
+                return next(new ErrorHandler(`Blog not found in the trash`, 404));
+            }
+            if (blog.author.toString() !== String(user._id) && user.role !== "admin") {
+                return next(new ErrorHandler(`You can only restore your own blog posts`, 403));
+            }
+
+            const restored = await blogTrashService.restore(blogId);
+            if (!restored) {
+                return next(new ErrorHandler(`Blog not found in the trash`, 404));
+            }
+
+            res.status(200).json({
+                success: true,
+                message: "Blog restored",
+                id: restored.blog_id,
+                slug: restored.slug,
+                status: getBlogStatus(restored),
+            });
+        } catch (error: any) {
+            next(new ErrorHandler(error.message, 500));
+        }
+    })
+
+// delete a trashed blog for good before its retention period is over -- only for admin
+export const purgeBlog = catchAsyncErrors(
+    async (req: Request, res: Response, next: NextFunction) => {
+        try {
+            const blogId = req.params.id;
+            if (!mongoose.Types.ObjectId.isValid(blogId)) {
+                return next(new ErrorHandler(`Blog not found in the trash`, 404));
+            }
+            const purged = await blogTrashService.purge(blogId);
+            if (!purged) {
+                return next(new ErrorHandler(`Blog not found in the trash`, 404));
+            }
+
+            res.status(200).json({
+                success: true,
+                message: "Blog deleted permanently",
+            });
+        } catch (error: any) {
+            next(new ErrorHandler(error.message, 500));
+        }
+    })
+
+// purge every trashed blog past its retention period now -- only for admin
+export const purgeExpiredTrash = catchAsyncErrors(
+    async (req: Request, res: Response, next: NextFunction) => {
+        try {
+            const purged = await blogTrashService.purgeExpired();
+
+            res.status(200).json({
+                success: true,
+                message: "Expired blogs purged",
+                purged,
+            });
+        } catch (error: any) {
+            next(new ErrorHandler(error.message, 500));
+        }
+    })
+
+// cron to publish and unpublish scheduled blogs every minute
+cron.schedule("* * * * *", async () => {
+    try {
+        const published = await publishScheduledBlogs();
+        const unpublished = await unpublishExpiredBlogs();
+        if (published || unpublished) {
+            console.log(`Scheduled blogs: ${published} published, ${unpublished} unpublished.`);
+        }
+    } catch (error: any) {
+        console.error("Error running blog publishing schedule:", error.message);
+    }
+});
+
+// cron to refresh the trending scores every hour
+cron.schedule("0 * * * *", async () => {
+    try {
+        await refreshTrendingScores();
+    } catch (error: any) {
+        console.error("Error refreshing trending scores:", error.message);
+    }
+});
+
+// cron to keep the like counters in line with the stored likes, every night at 3am
+cron.schedule("0 3 * * *", async () => {
+    try {
+        const updated = await blogLikeService.reconcileCounters();
+        if (updated) {
+            console.log(`Like counters reconciled on ${updated} blogs.`);
+        }
+    } catch (error: any) {
+        console.error("Error reconciling like counters:", error.message);
+    }
+});
+
+// cron to give slugs to blogs created before slugs were generated, every night at 3:30am
+cron.schedule("30 3 * * *", async () => {
+    try {
+        const updated = await backfillBlogSlugs();
+        if (updated) {
+            console.log(`Slugs generated for ${updated} blogs.`);
+        }
+    } catch (error: any) {
+        console.error("Error generating blog slugs:", error.message);
+    }
+});
+
+// cron to rebuild the tag usage counts from the blogs, every night at 4am
+cron.schedule("0 4 * * *", async () => {
+    try {
+        await tagService.recountUsage();
+    } catch (error: any) {
+        console.error("Error recounting tag usage:", error.message);
+    }
+});
+
+// cron to purge the blogs whose trash retention is over, every night at 4:30am
+cron.schedule("30 4 * * *", async () => {
+    try {
+        const purged = await blogTrashService.purgeExpired();
+        if (purged) {
+            console.log(`${purged} trashed blogs purged.`);
+        }
+    } catch (error: any) {
+        console.error("Error purging trashed blogs:", error.message);
+    }
+});
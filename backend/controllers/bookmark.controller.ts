@@ -0,0 +1,339 @@
+import { Request, Response, NextFunction } from "express";
+import mongoose from "mongoose";
+import { catchAsyncErrors } from "../middlewares/catchAsyncErrors";
+import ErrorHandler from "../utils/ErrorHandler";
+import BlogModel from "../models/blogs.model";
+import { ReadingListModel } from "../models/bookmark.model";
+import { bookmarkService } from "../services/bookmark.service";
+
+interface IReadingListData {
+    name: string;
+    description?: string;
+    visibility?: 'private' | 'shared';
+}
+
+const READING_LIST_VISIBILITIES = ['private', 'shared'];
+
+const readPagination = (req: Request) => ({
+    page: Math.max(parseInt(req.query.page as string) || 1, 1),
+    limit: Math.min(Math.max(parseInt(req.query.limit as string) || 20, 1), 50),
+});
+
+// bookmark a published blog
+export const bookmarkBlog = catchAsyncErrors(
+    async (req: Request, res: Response, next: NextFunction) => {
+        try {
+            const user = req.user;
+            const { blogId } = req.params;
+            if (!user) {
+                return next(new ErrorHandler("Please login to continue", 401));
+            }
+            if (!mongoose.Types.ObjectId.isValid(blogId)) {
+                return next(new ErrorHandler("Blog not found", 404));
+            }
+            const blog = await BlogModel.exists({ _id: blogId, isPublished: true });
+            if (!blog) {
+                return next(new ErrorHandler("Blog not found", 404));
+            }
+
+            const created = await bookmarkService.addBookmark(user._id as string, blogId);
+
+            res.status(created ? 201 : 200).json({
+                success: true,
+                message: created ? "Blog bookmarked" : "Blog already bookmarked",
+                bookmarked: true,
+            });
+        } catch (error: any) {
+            next(new ErrorHandler(error.message, 500));
+        }
+    })
+
+// remove a bookmark, the blog also leaves the reading lists of the user
+export const unbookmarkBlog = catchAsyncErrors(
+    async (req: Request, res: Response, next: NextFunction) => {
+        try {
+            const user = req.user;
+            const { blogId } = req.params;
+            if (!user) {
+                return next(new ErrorHandler("Please login to continue", 401));
+            }
+            if (!mongoose.Types.ObjectId.isValid(blogId)) {
+                return next(new ErrorHandler("Blog not found", 404));
+            }
+
+            const removed = await bookmarkService.removeBookmark(user._id as string, blogId);
+            if (!removed) {
+                return next(new ErrorHandler("Blog is not bookmarked", 404));
+            }
+
+            res.status(200).json({
+                success: true,
+                message: "Bookmark removed",
+                bookmarked: false,
+            });
+        } catch (error: any) {
+            next(new ErrorHandler(error.message, 500));
+        }
+    })
+
+// bookmarks of the logged in user, newest first
+export const getMyBookmarks = catchAsyncErrors(
+    async (req: Request, res: Response, next: NextFunction) => {
+        try {
+            const user = req.user;
+            if (!user) {
+                return next(new ErrorHandler("Please login to continue", 401));
+            }
+            const { page, limit } = readPagination(req);
+            const { bookmarks, pagination } = await bookmarkService.listBookmarks(user._id as string, page, limit);
+
+            res.status(200).json({
+                success: true,
+                message: "Bookmarks found",
+                bookmarks,
+                pagination,
+            });
+        } catch (error: any) {
+            next(new ErrorHandler(error.message, 500));
+        }
+    })
+
+// create a reading list
+export const createReadingList = catchAsyncErrors(
+    async (req: Request, res: Response, next: NextFunction) => {
+        try {
+            const user = req.user;
+            const { name, description, visibility } = req.body as IReadingListData;
+            if (!user) {
+                return next(new ErrorHandler("Please login to continue", 401));
+            }
+            if (!name?.trim() || name.length > 100) {
+                return next(new ErrorHandler("Name is required and must be under 100 characters", 400));
+            }
+            if (description && description.length > 500) {
+                return next(new ErrorHandler("Description must be under 500 characters", 400));
+            }
+            if (visibility && !READING_LIST_VISIBILITIES.includes(visibility)) {
+                return next(new ErrorHandler("Visibility must be private or shared", 400));
+            }
+            if (await ReadingListModel.exists({ owner: user._id, name: name.trim() })) {
+                return next(new ErrorHandler("You already have a reading list with this name", 409));
+            }
+
+            const readingList = await ReadingListModel.create({
+                owner: user._id,
+                name,
+                description,
+                visibility: visibility || 'private',
+                items: []
+            });
+
+            res.status(201).json({
+                success: true,
+                message: "Reading list created successfully",
+                readingList,
+            });
+        } catch (error: any) {
+            next(new ErrorHandler(error.message, 500));
+        }
+    })
+
+// rename a reading list or change its visibility
+export const updateReadingList = catchAsyncErrors(
+    async (req: Request, res: Response, next: NextFunction) => {
+        try {
+            const user = req.user;
+            const { name, description, visibility } = req.body as IReadingListData;
+            if (!user) {
+                return next(new ErrorHandler("Please login to continue", 401));
+            }
+            if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+                return next(new ErrorHandler("Reading list not found", 404));
+            }
+            const readingList = await ReadingListModel.findOne({ _id: req.params.id, owner: user._id });
+            if (!readingList) {
+                return next(new ErrorHandler("Reading list not found", 404));
+            }
+            if (name !== undefined && (!name?.trim() || name.length > 100)) {
+                return next(new ErrorHandler("Name is required and must be under 100 characters", 400));
+            }
+            if (description && description.length > 500) {
+                return next(new ErrorHandler("Description must be under 500 characters", 400));
+            }
+            if (visibility && !READING_LIST_VISIBILITIES.includes(visibility)) {
+                return next(new ErrorHandler("Visibility must be private or shared", 400));
+            }
+            if (name && name.trim() !== readingList.name
+                && await ReadingListModel.exists({ owner: user._id, name: name.trim() })) {
+                return next(new ErrorHandler("You already have a reading list with this name", 409));
+            }
+
+            if (name) readingList.name = name;
+            if (description !== undefined) readingList.description = description;
+            if (visibility) readingList.visibility = visibility;
+            await readingList.save();
+
+            res.status(200).json({
+                success: true,
+                message: "Reading list updated successfully",
+                readingList,
+            });
+        } catch (error: any) {
+            next(new ErrorHandler(error.message, 500));
+        }
+    })
+
+// delete a reading list, its blogs stay bookmarked
+export const deleteReadingList = catchAsyncErrors(
+    async (req: Request, res: Response, next: NextFunction) => {
+        try {
+            const user = req.user;
+            if (!user) {
+                return next(new ErrorHandler("Please login to continue", 401));
+            }
+            if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+                return next(new ErrorHandler("Reading list not found", 404));
+            }
+            const readingList = await ReadingListModel.findOneAndDelete({ _id: req.params.id, owner: user._id });
+            if (!readingList) {
+                return next(new ErrorHandler("Reading list not found", 404));
+            }
+
+            res.status(200).json({
+                success: true,
+                message: "Reading list deleted successfully",
+            });
+        } catch (error: any) {
+            next(new ErrorHandler(error.message, 500));
+        }
+    })
+
+// reading lists of the logged in user
+export const getMyReadingLists = catchAsyncErrors(
+    async (req: Request, res: Response, next: NextFunction) => {
+        try {
+            const user = req.user;
+            if (!user) {
+                return next(new ErrorHandler("Please login to continue", 401));
+            }
+            const readingLists = await ReadingListModel.aggregate([
+                { $match: { owner: new mongoose.Types.ObjectId(user._id as string) } },
+                { $sort: { updatedAt: -1 } },
+                {
+                    $project: {
+                        name: 1,
+                        description: 1,
+                        visibility: 1,
+                        createdAt: 1,
+                        updatedAt: 1,
+                        count: { $size: "$items" }
+                    }
+                }
+            ]);
+
+            res.status(200).json({
+                success: true,
+                message: "Reading lists found",
+                readingLists,
+            });
+        } catch (error: any) {
+            next(new ErrorHandler(error.message, 500));
+        }
+    })
+
+// a reading list with its blogs, visible to its owner or to anyone when shared
+export const getReadingList = catchAsyncErrors(
+    async (req: Request, res: Response, next: NextFunction) => {
+        try {
+            if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+                return next(new ErrorHandler("Reading list not found", 404));
+            }
+            const readingList = await ReadingListModel.findById(req.params.id)
+                .populate("owner", "name username avatar")
+                .lean();
+            const ownerId = (readingList?.owner as any)?._id?.toString();
+            if (!readingList || (readingList.visibility !== 'shared' && ownerId !== req.user?._id?.toString())) {
+                return next(new ErrorHandler("Reading list not found", 404));
+            }
+            const { page, limit } = readPagination(req);
+            const { items, pagination } = await bookmarkService.getReadingListItems(readingList, page, limit);
+
+            res.status(200).json({
+                success: true,
+                message: "Reading list found",
+                readingList: { ...readingList, items },
+                pagination,
+            });
+        } catch (error: any) {
+            next(new ErrorHandler(error.message, 500));
+        }
+    })
+
+// add a bookmarked blog to a reading list, bookmarking it when needed
+export const addBlogToReadingList = catchAsyncErrors(
+    async (req: Request, res: Response, next: NextFunction) => {
+        try {
+            const user = req.user;
+            const { blogId } = req.body as { blogId: string };
+            if (!user) {
+                return next(new ErrorHandler("Please login to continue", 401));
+            }
+            if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+                return next(new ErrorHandler("Reading list not found", 404));
+            }
+            if (!mongoose.Types.ObjectId.isValid(blogId)) {
+                return next(new ErrorHandler("Blog not found", 404));
+            }
+            const [readingList, blog] = await Promise.all([
+                ReadingListModel.exists({ _id: req.params.id, owner: user._id }),
+                BlogModel.exists({ _id: blogId, isPublished: true })
+            ]);
+            if (!readingList) {
+                return next(new ErrorHandler("Reading list not found", 404));
+            }
+            if (!blog) {
+                return next(new ErrorHandler("Blog not found", 404));
+            }
+
+            const added = await bookmarkService.addToReadingList(user._id as string, req.params.id, blogId);
+            if (!added) {
+                return next(new ErrorHandler("Blog is already in this reading list", 409));
+            }
+
+            res.status(200).json({
+                success: true,
+                message: "Blog added to reading list",
+            });
+        } catch (error: any) {
+            next(new ErrorHandler(error.message, 500));
+        }
+    })
+
+// remove a blog from a reading list, the bookmark itself is kept
+export const removeBlogFromReadingList = catchAsyncErrors(
+    async (req: Request, res: Response, next: NextFunction) => {
+        try {
+            const user = req.user;
+            const { id, blogId } = req.params;
+            if (!user) {
+                return next(new ErrorHandler("Please login to continue", 401));
+            }
+            if (!mongoose.Types.ObjectId.isValid(id) || !mongoose.Types.ObjectId.isValid(blogId)) {
+                return next(new ErrorHandler("Reading list not found", 404));
+            }
+            const result = await ReadingListModel.updateOne(
+                { _id: id, owner: user._id, 'items.blog': blogId },
+                { $pull: { items: { blog: blogId } } }
+            );
+            if (!result.matchedCount) {
+                return next(new ErrorHandler("Blog is not part of this reading list", 404));
+            }
+
+            res.status(200).json({
+                success: true,
+                message: "Blog removed from reading list",
+            });
+        } catch (error: any) {
+            next(new ErrorHandler(error.message, 500));
+        }
+    })
@@ -0,0 +1,247 @@
+import { Request, Response, NextFunction } from "express";
+import mongoose from "mongoose";
+import { catchAsyncErrors } from "../middlewares/catchAsyncErrors";
+import ErrorHandler from "../utils/ErrorHandler";
+import CategoryModel from "../models/category.model";
+import BlogModel from "../models/blogs.model";
+import { categoryService } from "../services/category.service";
+import { AGE_GROUPS, AgeGroup } from "../utils/ageGroups";
+import { slugify } from "../utils/slug";
+
+interface ICategoryData {
+    name: string;
+    slug?: string;
+    translations?: Record<string, string>;
+    description?: string;
+    icon?: string;
+    parent?: string | null;
+    ageGroups?: AgeGroup[];
+    aliases?: string[];
+    order?: number;
+    isActive?: boolean;
+}
+
+// validate the fields shared by create and update, returns an error message when invalid
+const validateCategoryData = (data: Partial<ICategoryData>): string | null => {
+    if (data.name !== undefined && (!data.name?.trim() || data.name.length > 100)) {
+        return "Name is required and must be under 100 characters";
+    }
+    if (data.description && data.description.length > 500) {
+        return "Description must be under 500 characters";
+    }
+    if (data.translations !== undefined && (typeof data.translations !== "object" || data.translations === null
+        || Object.values(data.translations).some(name => typeof name !== "string" || name.length > 100))) {
+        return "Translations must map locales to names under 100 characters";
+    }
+    if (data.ageGroups !== undefined && (!Array.isArray(data.ageGroups) || !data.ageGroups.length
+        || data.ageGroups.some(group => !AGE_GROUPS.includes(group)))) {
+        return `Age groups must be a non empty list of ${AGE_GROUPS.join(", ")}`;
+    }
+    if (data.aliases !== undefined && !Array.isArray(data.aliases)) {
+        return "Aliases must be a list";
+    }
+    if (data.parent && !mongoose.Types.ObjectId.isValid(data.parent)) {
+        return "Parent category not found";
+    }
+    return null;
+}
+
+// category hierarchy, ?locale=fr translates the names
+export const getCategories = catchAsyncErrors(
+    async (req: Request, res: Response, next: NextFunction) => {
+        try {
+            const categories = await categoryService.getTree(req.query.locale as string | undefined);
+
+            res.status(200).json({
+                success: true,
+                message: "Categories found",
+                categories,
+            });
+        } catch (error: any) {
+            next(new ErrorHandler(error.message, 500));
+        }
+    })
+
+// a category by slug or alias, with its sub categories
+export const getCategory = catchAsyncErrors(
+    async (req: Request, res: Response, next: NextFunction) => {
+        try {
+            const locale = req.query.locale as string | undefined;
+            const category = await categoryService.resolve(req.params.slug);
+            if (!category) {
+                return next(new ErrorHandler("Category not found", 404));
+            }
+            const all = await categoryService.getAll();
+            const children = all
+                .filter(child => child.parent === category._id)
+                .map(child => ({ ...child, name: (locale && child.translations[locale]) || child.name }));
+
+            res.status(200).json({
+                success: true,
+                message: "Category found",
+                category: {
+                    ...category,
+                    name: (locale && category.translations[locale]) || category.name,
+                    children
+                },
+            });
+        } catch (error: any) {
+            next(new ErrorHandler(error.message, 500));
+        }
+    })
+
+// create a category -- only for admin
+export const createCategory = catchAsyncErrors(
+    async (req: Request, res: Response, next: NextFunction) => {
+        try {
+            const data = req.body as ICategoryData;
+            if (!data.name) {
+                return next(new ErrorHandler("Name is required", 400));
+            }
+            const validationError = validateCategoryData(data);
+            if (validationError) {
+                return next(new ErrorHandler(validationError, 400));
+            }
+            const slug = slugify(data.slug || data.name);
+            if (await CategoryModel.exists({ $or: [{ slug }, { aliases: slug }] })) {
+                return next(new ErrorHandler(`Category ${slug} already exists`, 409));
+            }
+            if (data.parent && !(await CategoryModel.exists({ _id: data.parent }))) {
+                return next(new ErrorHandler("Parent category not found", 404));
+            }
+
+            const category = await CategoryModel.create({
+                slug,
+                name: data.name,
+                translations: data.translations,
+                description: data.description,
+                icon: data.icon,
+                parent: data.parent || null,
+                ageGroups: data.ageGroups,
+                aliases: (data.aliases || []).map(alias => slugify(alias)),
+                order: data.order,
+                isActive: data.isActive
+            });
+            await categoryService.invalidate();
+
+            res.status(201).json({
+                success: true,
+                message: "Category created successfully",
+                category,
+            });
+        } catch (error: any) {
+            next(new ErrorHandler(error.message, 500));
+        }
+    })
+
+// update a category, a new slug moves its blogs and keeps the former slug as an alias -- only for admin
+export const updateCategory = catchAsyncErrors(
+    async (req: Request, res: Response, next: NextFunction) => {
+        try {
+            const data = req.body as Partial<ICategoryData>;
+            if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+                return next(new ErrorHandler("Category not found", 404));
+            }
+            const category = await CategoryModel.findById(req.params.id);
+            if (!category) {
+                return next(new ErrorHandler("Category not found", 404));
+            }
+            const validationError = validateCategoryData(data);
+            if (validationError) {
+                return next(new ErrorHandler(validationError, 400));
+            }
+            if (data.parent) {
+                if (!(await CategoryModel.exists({ _id: data.parent }))) {
+                    return next(new ErrorHandler("Parent category not found", 404));
+                }
+                if (await categoryService.createsCycle(String(category._id), data.parent)) {
+                    return next(new ErrorHandler("A category cannot be placed below itself", 400));
+                }
+            }
+
+            const previousSlug = category.slug;
+            const slug = data.slug ? slugify(data.slug) : previousSlug;
+            if (slug !== previousSlug
+                && await CategoryModel.exists({ _id: { $ne: category._id }, $or: [{ slug }, { aliases: slug }] })) {
+                return next(new ErrorHandler(`Category ${slug} already exists`, 409));
+            }
+
+            if (data.name) category.name = data.name;
+            if (data.translations !== undefined) category.translations = new Map(Object.entries(data.translations));
+            if (data.description !== undefined) category.description = data.description;
+            if (data.icon !== undefined) category.icon = data.icon;
+            if (data.parent !== undefined) category.parent = data.parent ? new mongoose.Types.ObjectId(data.parent) : null;
+            if (data.ageGroups) category.ageGroups = data.ageGroups;
+            if (data.aliases) category.aliases = data.aliases.map(alias => slugify(alias));
+            if (data.order !== undefined) category.order = Number(data.order) || 0;
+            if (data.isActive !== undefined) category.isActive = Boolean(data.isActive);
+            if (slug !== previousSlug) {
+                category.slug = slug;
+                category.aliases = [...category.aliases.filter(alias => alias !== slug), previousSlug];
+            }
+            await category.save();
+
+            if (slug !== previousSlug) {
+                await categoryService.renameSlug(previousSlug, slug);
+            }
+            await categoryService.invalidate();
+
+            res.status(200).json({
+                success: true,
+                message: "Category updated successfully",
+                category,
+            });
+        } catch (error: any) {
+            next(new ErrorHandler(error.message, 500));
+        }
+    })
+
+// delete a category without blogs nor sub categories -- only for admin
+export const deleteCategory = catchAsyncErrors(
+    async (req: Request, res: Response, next: NextFunction) => {
+        try {
+            if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+                return next(new ErrorHandler("Category not found", 404));
+            }
+            const category = await CategoryModel.findById(req.params.id);
+            if (!category) {
+                return next(new ErrorHandler("Category not found", 404));
+            }
+            const [blogs, children] = await Promise.all([
+                BlogModel.countDocuments({ category: category.slug }),
+                CategoryModel.countDocuments({ parent: category._id })
+            ]);
+            if (blogs || children) {
+                return next(new ErrorHandler(
+                    `Category is used by ${blogs} blogs and ${children} sub categories, deactivate it instead`,
+                    409
+                ));
+            }
+
+            await category.deleteOne();
+            await categoryService.invalidate();
+
+            res.status(200).json({
+                success: true,
+                message: "Category deleted successfully",
+            });
+        } catch (error: any) {
+            next(new ErrorHandler(error.message, 500));
+        }
+    })
+
+// map the free-text categories of existing blogs to managed categories -- only for admin
+export const migrateCategories = catchAsyncErrors(
+    async (req: Request, res: Response, next: NextFunction) => {
+        try {
+            const report = await categoryService.migrateBlogCategories();
+
+            res.status(200).json({
+                success: true,
+                message: "Blog categories migrated",
+                report,
+            });
+        } catch (error: any) {
+            next(new ErrorHandler(error.message, 500));
+        }
+    })
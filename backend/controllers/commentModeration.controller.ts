@@ -0,0 +1,262 @@
+import { Request, Response, NextFunction } from "express";
+import { catchAsyncErrors } from "../middlewares/catchAsyncErrors";
+import ErrorHandler from "../utils/ErrorHandler";
+import { FlagReason, ModerationStatus } from "../models/comment.model";
+import { ModerationActionType } from "../models/moderationAction.model";
+import { commentModerationService } from "../services/commentModeration.service";
+import { realtimeService } from "../server";
+
+const DEFAULT_STATS_DAYS = 30;
+
+const moderatorOf = (req: Request) => ({
+  _id: req.user?._id as string,
+  role: req.user?.role as string
+});
+
+/**
+ * @swagger
+ * /api/v1/comments/moderation/queue:
+ *   get:
+ *     summary: Flagged and pre-moderated comments waiting for a moderator, highest priority first
+ *     tags: [Comments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, escalated]
+ *       - in: query
+ *         name: reason
+ *         schema:
+ *           type: string
+ *           enum: [spam, inappropriate, harassment, other]
+ *       - in: query
+ *         name: blogId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: kids
+ *         schema:
+ *           type: boolean
+ *       - in: query
+ *         name: held
+ *         description: true for pre-moderated comments only, false for flagged ones only
+ *         schema:
+ *           type: boolean
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Moderation queue
+ *       403:
+ *         description: Moderators and admins only
+ */
+export const getModerationQueue = catchAsyncErrors(
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 20, 1), 100);
+      const { status, reason, blogId, kids, held } = req.query;
+
+      const { comments, total } = await commentModerationService.queue({
+        status: status as ModerationStatus | undefined,
+        reason: reason as FlagReason | undefined,
+        blogId: blogId as string | undefined,
+        kids: kids === undefined ? undefined : kids === 'true',
+        held: held === undefined ? undefined : held === 'true'
+      }, page, limit);
+
+      res.status(200).json({
+        success: true,
+        comments,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+          hasNext: page * limit < total,
+          hasPrev: page > 1
+        }
+      });
+
+    } catch (error: any) {
+      return next(new ErrorHandler(error.message, 500));
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/comments/{commentId}/moderate:
+ *   post:
+ *     summary: Approve, remove, edit or escalate a flagged comment
+ *     tags: [Comments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: commentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - action
+ *             properties:
+ *               action:
+ *                 type: string
+ *                 enum: [approve, remove, edit, escalate]
+ *               content:
+ *                 type: string
+ *                 description: New content, required to edit
+ *               note:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Comment moderated
+ *       403:
+ *         description: Escalated comments are handled by admins
+ *       409:
+ *         description: Comment is not waiting for moderation
+ */
+export const moderateComment = catchAsyncErrors(
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { commentId } = req.params;
+      const { action, content, note } = req.body;
+
+      const { comment, released } = await commentModerationService.moderate(
+        commentId,
+        moderatorOf(req),
+        action as ModerationActionType,
+        { content, note }
+      );
+      // pre-moderated comments reach the readers once approved
+      if (released) {
+        await comment.populate('author', 'name avatar');
+        realtimeService.emitNewComment(comment.blogId.toString(), comment);
+      }
+
+      res.status(200).json({
+        success: true,
+        message: `Comment ${comment.moderationStatus}`,
+        comment
+      });
+
+    } catch (error: any) {
+      if (error instanceof ErrorHandler) {
+        return next(error);
+      }
+      return next(new ErrorHandler(error.message, 500));
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/comments/moderation/bulk:
+ *   post:
+ *     summary: Approve, remove or escalate many flagged comments at once
+ *     tags: [Comments]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - commentIds
+ *               - action
+ *             properties:
+ *               commentIds:
+ *                 type: array
+ *                 maxItems: 100
+ *                 items:
+ *                   type: string
+ *               action:
+ *                 type: string
+ *                 enum: [approve, remove, escalate]
+ *               note:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Ids processed and ids that failed with the reason
+ */
+export const bulkModerateComments = catchAsyncErrors(
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { commentIds, action, note } = req.body;
+
+      const { released, ...result } = await commentModerationService.bulkModerate(commentIds, moderatorOf(req), action, note);
+      for (const comment of released) {
+        await comment.populate('author', 'name avatar');
+        realtimeService.emitNewComment(comment.blogId.toString(), comment);
+      }
+
+      res.status(200).json({
+        success: true,
+        message: `${result.processed.length} comments moderated`,
+        ...result
+      });
+
+    } catch (error: any) {
+      return next(new ErrorHandler(error.message, 500));
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/comments/moderation/stats:
+ *   get:
+ *     summary: Decisions per moderator and size of the queue
+ *     tags: [Comments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: days
+ *         schema:
+ *           type: integer
+ *           default: 30
+ *     responses:
+ *       200:
+ *         description: Moderator throughput
+ */
+export const getModerationStats = catchAsyncErrors(
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const days = Math.min(Math.max(parseInt(req.query.days as string) || DEFAULT_STATS_DAYS, 1), 365);
+      const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+      const { moderators, queue } = await commentModerationService.moderatorStats(since);
+
+      res.status(200).json({
+        success: true,
+        days,
+        queue,
+        moderators
+      });
+
+    } catch (error: any) {
+      return next(new ErrorHandler(error.message, 500));
+    }
+  }
+);
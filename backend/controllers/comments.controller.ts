@@ -1,9 +1,19 @@
 import { Request, Response, NextFunction } from "express";
 import CommentModel, { IComment } from "../models/comment.model";
-import BlogModel from "../models/blogs.model";
 import { catchAsyncErrors } from "../middlewares/catchAsyncErrors";
 import ErrorHandler from "../utils/ErrorHandler";
 import { realtimeService } from "../server";
+import { CommentSort, commentService } from "../services/comment.service";
+import { commentModerationService, uncountComment } from "../services/commentModeration.service";
+import { DEFAULT_REPLIES_LIMIT, MAX_REPLIES_LIMIT, MAX_THREAD_DEPTH } from "../utils/commentThreads";
+
+const threadDepth = (req: Request) => {
+  const depth = parseInt(req.query.depth as string);
+  return isNaN(depth) ? MAX_THREAD_DEPTH : Math.min(Math.max(depth, 0), MAX_THREAD_DEPTH);
+};
+
+const repliesLimit = (value: unknown) =>
+  Math.min(Math.max(parseInt(value as string) || DEFAULT_REPLIES_LIMIT, 1), MAX_REPLIES_LIMIT);
 
 /**
  * @swagger
@@ -44,62 +54,18 @@ export const createComment = catchAsyncErrors(
       const { content, blogId, parentId } = req.body;
       const userId = req.user?._id as string;
 
-      // Validate blog exists
-      const blog = await BlogModel.findById(blogId);
-      if (!blog) {
-        return next(new ErrorHandler('Blog not found', 404));
-      }
-
-      // Calculate depth for nested comments
-      let depth = 0;
-      if (parentId) {
-        const parentComment = await CommentModel.findById(parentId);
-        if (!parentComment) {
-          return next(new ErrorHandler('Parent comment not found', 404));
-        }
-        depth = parentComment.depth + 1;
-        
-        // Limit nesting depth
-        if (depth > 5) {
-          return next(new ErrorHandler('Maximum comment nesting depth exceeded', 400));
-        }
-      }
-
-      // Create comment
-      const comment = new CommentModel({
-        content,
-        author: userId,
-        blogId,
-        parentId: parentId || null,
-        depth,
-        isKidsSafe: !blog.isKidsContent || true, // Default to safe for kids content
-      });
-
-      await comment.save();
-      await comment.populate('author', 'name avatar');
-
-      // Update parent comment reply count
-      if (parentId) {
-        await CommentModel.findByIdAndUpdate(parentId, {
-          $inc: { replyCount: 1 }
-        });
-      }
-
-      // Update blog comment count
-      await BlogModel.findByIdAndUpdate(blogId, {
-        $inc: { 'activity.total_comments': 1 }
-      });
-
-      // Emit real-time event
-      realtimeService.emitNewComment(blogId, comment);
+      const comment = await commentService.create({ blogId, authorId: userId, content, parentId });
 
       res.status(201).json({
         success: true,
         comment,
-        message: 'Comment created successfully'
+        message: comment.awaitingApproval ? 'Comment awaiting approval' : 'Comment created successfully'
       });
 
     } catch (error: any) {
+      if (error instanceof ErrorHandler) {
+        return next(error);
+      }
       return next(new ErrorHandler(error.message, 500));
     }
   }
@@ -133,68 +99,49 @@ export const createComment = catchAsyncErrors(
  *           type: string
  *           enum: [newest, oldest, popular]
  *           default: newest
+ *       - in: query
+ *         name: depth
+ *         description: Levels of replies nested under each comment
+ *         schema:
+ *           type: integer
+ *           minimum: 0
+ *           maximum: 5
+ *           default: 5
+ *       - in: query
+ *         name: repliesLimit
+ *         description: Replies loaded per comment, the next ones through nextRepliesCursor
+ *         schema:
+ *           type: integer
+ *           default: 10
  *     responses:
  *       200:
- *         description: Comments retrieved successfully
+ *         description: Comments with their nested replies, reply counts and the viewer's reaction
  */
 export const getComments = catchAsyncErrors(
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const { blogId } = req.params;
-      const { page = 1, limit = 20, sortBy = 'newest' } = req.query;
-
-      // Build sort criteria
-      let sortCriteria: any = { createdAt: -1 }; // newest first
-      if (sortBy === 'oldest') {
-        sortCriteria = { createdAt: 1 };
-      } else if (sortBy === 'popular') {
-        sortCriteria = { totalReactions: -1, createdAt: -1 };
-      }
-
-      // Get top-level comments (no parent)
-      const comments = await CommentModel.find({
-        blogId,
-        parentId: null,
-        isFlagged: false
-      })
-        .populate('author', 'name avatar')
-        .sort(sortCriteria)
-        .limit(parseInt(limit as string))
-        .skip((parseInt(page as string) - 1) * parseInt(limit as string));
-
-      // Get replies for each comment (limited depth)
-      const commentsWithReplies = await Promise.all(
-        comments.map(async (comment) => {
-          const replies = await CommentModel.find({
-            blogId,
-            parentId: comment._id,
-            isFlagged: false
-          })
-            .populate('author', 'name avatar')
-            .sort({ createdAt: 1 })
-            .limit(10); // Limit replies per comment
-
-          return {
-            ...comment.toObject(),
-            replies
-          };
-        })
-      );
-
-      const total = await CommentModel.countDocuments({
-        blogId,
-        parentId: null,
-        isFlagged: false
+      const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 20, 1), 100);
+      const sortBy = (req.query.sortBy as CommentSort) || 'newest';
+
+      const { comments, total } = await commentService.thread(blogId, {
+        page,
+        limit,
+        sortBy,
+        depth: threadDepth(req),
+        repliesLimit: repliesLimit(req.query.repliesLimit),
+        viewerId: req.user?._id ? String(req.user._id) : undefined
       });
 
       res.status(200).json({
         success: true,
-        comments: commentsWithReplies,
+        comments,
         pagination: {
-          page: parseInt(page as string),
-          limit: parseInt(limit as string),
+          page,
+          limit,
           total,
-          pages: Math.ceil(total / parseInt(limit as string))
+          pages: Math.ceil(total / limit)
         }
       });
 
@@ -204,6 +151,71 @@ export const getComments = catchAsyncErrors(
   }
 );
 
+/**
+ * @swagger
+ * /api/v1/comments/{commentId}/replies:
+ *   get:
+ *     summary: Load more replies of a comment
+ *     tags: [Comments]
+ *     parameters:
+ *       - in: path
+ *         name: commentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: cursor
+ *         description: nextRepliesCursor of the comment, or nextCursor of the previous page
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *       - in: query
+ *         name: depth
+ *         schema:
+ *           type: integer
+ *           minimum: 0
+ *           maximum: 5
+ *           default: 5
+ *     responses:
+ *       200:
+ *         description: Replies oldest first with their nested replies
+ *       400:
+ *         description: Invalid cursor
+ *       404:
+ *         description: Comment not found
+ */
+export const getCommentReplies = catchAsyncErrors(
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { commentId } = req.params;
+
+      const { replies, hasMore, nextCursor } = await commentService.replies(commentId, {
+        cursor: req.query.cursor as string | undefined,
+        limit: repliesLimit(req.query.limit),
+        depth: threadDepth(req),
+        viewerId: req.user?._id ? String(req.user._id) : undefined
+      });
+
+      res.status(200).json({
+        success: true,
+        replies,
+        hasMore,
+        nextCursor
+      });
+
+    } catch (error: any) {
+      if (error instanceof ErrorHandler) {
+        return next(error);
+      }
+      return next(new ErrorHandler(error.message, 500));
+    }
+  }
+);
+
 /**
  * @swagger
  * /api/v1/comments/{commentId}/react:
@@ -307,11 +319,15 @@ export const reactToComment = catchAsyncErrors(
  *                 maxLength: 2000
  *     responses:
  *       200:
- *         description: Comment updated successfully
+ *         description: Comment updated successfully, or held for approval again
+ *       400:
+ *         description: Comment refused by the content filter
  *       403:
  *         description: Not authorized to update this comment
  *       404:
  *         description: Comment not found
+ *       409:
+ *         description: Deleted, removed or flagged comments cannot be edited
  */
 export const updateComment = catchAsyncErrors(
   async (req: Request, res: Response, next: NextFunction) => {
@@ -320,26 +336,19 @@ export const updateComment = catchAsyncErrors(
       const { content } = req.body;
       const userId = req.user?._id as string;
 
-      const comment = await CommentModel.findById(commentId);
-      if (!comment) {
-        return next(new ErrorHandler('Comment not found', 404));
-      }
-
-      // Check if user owns the comment
-      if (comment.author.toString() !== userId) {
-        return next(new ErrorHandler('Not authorized to update this comment', 403));
-      }
-
-      comment.content = content;
-      await comment.save();
+      // the new content is screened, and held again where new comments are
+      const comment = await commentService.update(commentId, String(userId), content);
 
       res.status(200).json({
         success: true,
         comment,
-        message: 'Comment updated successfully'
+        message: comment.awaitingApproval ? 'Comment awaiting approval' : 'Comment updated successfully'
       });
 
     } catch (error: any) {
+      if (error instanceof ErrorHandler) {
+        return next(error);
+      }
       return next(new ErrorHandler(error.message, 500));
     }
   }
@@ -385,14 +394,15 @@ export const deleteComment = catchAsyncErrors(
       }
 
       // Soft delete - mark as flagged instead of hard delete to preserve thread structure
+      const wasRemoved = comment.moderationStatus === 'removed' || comment.content === '[Comment deleted]';
       comment.isFlagged = true;
       comment.content = '[Comment deleted]';
       await comment.save();
 
-      // Update blog comment count
-      await BlogModel.findByIdAndUpdate(comment.blogId, {
-        $inc: { 'activity.total_comments': -1 }
-      });
+      // Update blog comment count, held and removed comments were not counted
+      if (!comment.awaitingApproval && !wasRemoved) {
+        await uncountComment(comment);
+      }
 
       res.status(200).json({
         success: true,
@@ -441,25 +451,48 @@ export const flagComment = catchAsyncErrors(
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const { commentId } = req.params;
-      const { reason, details } = req.body;
+      const { reason } = req.body;
+      const userId = req.user?._id as string;
 
-      const comment = await CommentModel.findById(commentId);
-      if (!comment) {
-        return next(new ErrorHandler('Comment not found', 404));
-      }
+      await commentModerationService.flag(commentId, String(userId), reason);
+
+      res.status(200).json({
+        success: true,
+        message: 'Comment flagged for moderation'
+      });
 
-      // Add flag reason
-      if (!comment.flagReasons) {
-        comment.flagReasons = [];
+    } catch (error: any) {
+      if (error instanceof ErrorHandler) {
+        return next(error);
       }
-      comment.flagReasons.push(reason);
-      comment.isFlagged = true;
+      return next(new ErrorHandler(error.message, 500));
+    }
+  }
+);
 
-      await comment.save();
+/**
+ * @swagger
+ * /api/v1/comments/migrate-legacy:
+ *   post:
+ *     summary: Move the questions, answers and review replies embedded in blogs to comments
+ *     tags: [Comments]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Migration report, entries without an author are skipped and left in place
+ *       403:
+ *         description: Admin only
+ */
+export const migrateLegacyComments = catchAsyncErrors(
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const report = await commentService.migrateEmbeddedComments();
 
       res.status(200).json({
         success: true,
-        message: 'Comment flagged for moderation'
+        message: 'Legacy comments migrated',
+        report
       });
 
     } catch (error: any) {
@@ -0,0 +1,130 @@
+import { Request, Response, NextFunction } from "express";
+import mongoose from "mongoose";
+import { catchAsyncErrors } from "../middlewares/catchAsyncErrors";
+import ErrorHandler from "../utils/ErrorHandler";
+import BlogModel, { ContributorRole } from "../models/blogs.model";
+import { blogContributorService } from "../services/blogContributor.service";
+import { invalidateBlogCache } from "../services/blog.service";
+
+const findBlog = async (id: string) =>
+    mongoose.Types.ObjectId.isValid(id) ? BlogModel.findById(id) : null;
+
+// contributors of a blog, visible to the author and the contributors
+export const getBlogContributors = catchAsyncErrors(
+    async (req: Request, res: Response, next: NextFunction) => {
+        try {
+            const userId = req.user?._id as string;
+            const blog = await findBlog(req.params.id);
+            if (!blog) {
+                return next(new ErrorHandler("Blog not found", 404));
+            }
+            if (!blogContributorService.canView(blog, userId)) {
+                return next(new ErrorHandler("Not authorized to view the contributors of this blog", 403));
+            }
+            await blog.populate("contributors.user", "name username avatar");
+
+            res.status(200).json({
+                success: true,
+                message: "Contributors found",
+                author: blog.author,
+                contributors: blog.contributors,
+            });
+        } catch (error: any) {
+            next(new ErrorHandler(error.message, 500));
+        }
+    })
+
+// invite a user as co-author, editor or reviewer -- only for the author
+export const inviteContributor = catchAsyncErrors(
+    async (req: Request, res: Response, next: NextFunction) => {
+        try {
+            const { userId, role } = req.body as { userId: string; role: ContributorRole };
+            const blog = await findBlog(req.params.id);
+            if (!blog) {
+                return next(new ErrorHandler("Blog not found", 404));
+            }
+
+            await blogContributorService.invite(blog, req.user?._id as string, userId, role);
+
+            res.status(201).json({
+                success: true,
+                message: "Invitation sent",
+                contributors: blog.contributors,
+            });
+        } catch (error: any) {
+            if (error instanceof ErrorHandler) {
+                return next(error);
+            }
+            next(new ErrorHandler(error.message, 500));
+        }
+    })
+
+// accept or decline an invitation on a blog
+export const respondToInvitation = catchAsyncErrors(
+    async (req: Request, res: Response, next: NextFunction) => {
+        try {
+            const { accept } = req.body as { accept: boolean };
+            if (typeof accept !== "boolean") {
+                return next(new ErrorHandler("accept must be true or false", 400));
+            }
+            const blog = await findBlog(req.params.id);
+            if (!blog) {
+                return next(new ErrorHandler("Blog not found", 404));
+            }
+
+            await blogContributorService.respond(blog, req.user?._id as string, accept);
+            // the cached blog holds the contributors
+            await invalidateBlogCache(String(blog._id));
+
+            res.status(200).json({
+                success: true,
+                message: accept ? "Invitation accepted" : "Invitation declined",
+            });
+        } catch (error: any) {
+            if (error instanceof ErrorHandler) {
+                return next(error);
+            }
+            next(new ErrorHandler(error.message, 500));
+        }
+    })
+
+// remove a contributor, contributors may remove themselves
+export const removeContributor = catchAsyncErrors(
+    async (req: Request, res: Response, next: NextFunction) => {
+        try {
+            const blog = await findBlog(req.params.id);
+            if (!blog) {
+                return next(new ErrorHandler("Blog not found", 404));
+            }
+
+            await blogContributorService.remove(blog, req.user?._id as string, req.params.userId);
+            await invalidateBlogCache(String(blog._id));
+
+            res.status(200).json({
+                success: true,
+                message: "Contributor removed",
+                contributors: blog.contributors,
+            });
+        } catch (error: any) {
+            if (error instanceof ErrorHandler) {
+                return next(error);
+            }
+            next(new ErrorHandler(error.message, 500));
+        }
+    })
+
+// pending invitations of the logged in user
+export const getMyInvitations = catchAsyncErrors(
+    async (req: Request, res: Response, next: NextFunction) => {
+        try {
+            const invitations = await blogContributorService.pendingInvitations(req.user?._id as string);
+
+            res.status(200).json({
+                success: true,
+                message: "Invitations found",
+                invitations,
+            });
+        } catch (error: any) {
+            next(new ErrorHandler(error.message, 500));
+        }
+    })
@@ -0,0 +1,60 @@
+import { Request, Response, NextFunction } from "express";
+import { catchAsyncErrors } from "../middlewares/catchAsyncErrors";
+import ErrorHandler from "../utils/ErrorHandler";
+import { AGE_GROUPS, AgeGroup } from "../utils/ageGroups";
+import { FEED_CACHE_TTL, FEED_FORMATS, FEED_SCOPES, FeedFormat, FeedScope, feedService } from "../services/feed.service";
+
+// RSS, Atom or JSON feed of the site (/feeds/:format) or of an author, category or tag (/feeds/:scope/:value/:format)
+/**
+ * Query: isKidsContent (true | false), ageGroup
+ */
+export const getFeed = catchAsyncErrors(
+    async (req: Request, res: Response, next: NextFunction) => {
+        try {
+            const format = req.params.format as FeedFormat;
+            const scope = (req.params.scope || "site") as FeedScope;
+            const { isKidsContent, ageGroup } = req.query as Record<string, string | undefined>;
+            if (!FEED_FORMATS.includes(format)) {
+                return next(new ErrorHandler(`Format must be one of ${FEED_FORMATS.join(", ")}`, 404));
+            }
+            if (!FEED_SCOPES.includes(scope) || (scope === "site" && req.params.scope)) {
+                return next(new ErrorHandler("Feed not found", 404));
+            }
+            if (isKidsContent !== undefined && !["true", "false"].includes(isKidsContent)) {
+                return next(new ErrorHandler("isKidsContent must be true or false", 400));
+            }
+            if (ageGroup && !AGE_GROUPS.includes(ageGroup as AgeGroup)) {
+                return next(new ErrorHandler(`Age group must be one of ${AGE_GROUPS.join(", ")}`, 400));
+            }
+
+            const feed = await feedService.getFeed({
+                format,
+                scope,
+                value: req.params.value,
+                isKidsContent: isKidsContent === undefined ? undefined : isKidsContent === "true",
+                ageGroup,
+                selfUrl: `${req.protocol}://${req.get("host")}${req.originalUrl}`
+            });
+            if (!feed) {
+                return next(new ErrorHandler("Feed not found", 404));
+            }
+
+            res.set({
+                "Content-Type": feed.contentType,
+                "Cache-Control": `public, max-age=${FEED_CACHE_TTL}`,
+                "ETag": feed.etag,
+                "Last-Modified": feed.lastModified,
+            });
+            const ifModifiedSince = req.get("if-modified-since");
+            const notModified = req.get("if-none-match")
+                ? req.get("if-none-match") === feed.etag
+                : Boolean(ifModifiedSince) && new Date(ifModifiedSince as string) >= new Date(feed.lastModified);
+            if (notModified) {
+                return res.status(304).end();
+            }
+
+            res.status(200).send(feed.body);
+        } catch (error: any) {
+            next(new ErrorHandler(error.message, 500));
+        }
+    })
@@ -0,0 +1,44 @@
+import { Request, Response, NextFunction } from "express";
+import { catchAsyncErrors } from "../middlewares/catchAsyncErrors";
+import ErrorHandler from "../utils/ErrorHandler";
+import { SITEMAP_CACHE_TTL, SITEMAP_KINDS, SitemapKind, seoService } from "../services/seo.service";
+
+const sendXml = (res: Response, xml: string) => {
+    res.set({
+        "Content-Type": "application/xml; charset=utf-8",
+        "Cache-Control": `public, max-age=${SITEMAP_CACHE_TTL}`,
+    });
+    res.status(200).send(xml);
+}
+
+// sitemap index of the published blogs, authors and categories
+export const getSitemapIndex = catchAsyncErrors(
+    async (req: Request, res: Response, next: NextFunction) => {
+        try {
+            const baseUrl = `${req.protocol}://${req.get("host")}${req.baseUrl}`;
+            sendXml(res, await seoService.getSitemapIndex(baseUrl));
+        } catch (error: any) {
+            next(new ErrorHandler(error.message, 500));
+        }
+    })
+
+// one page of a sitemap: /sitemaps/blogs-1.xml, /sitemaps/authors-1.xml, /sitemaps/categories-1.xml
+export const getSitemap = catchAsyncErrors(
+    async (req: Request, res: Response, next: NextFunction) => {
+        try {
+            const match = req.params.name.match(/^([a-z]+)-(\d+)\.xml$/);
+            const kind = match?.[1] as SitemapKind;
+            const page = parseInt(match?.[2] as string);
+            if (!match || !SITEMAP_KINDS.includes(kind) || page < 1) {
+                return next(new ErrorHandler("Sitemap not found", 404));
+            }
+
+            const xml = await seoService.getSitemap(kind, page);
+            if (!xml) {
+                return next(new ErrorHandler("Sitemap not found", 404));
+            }
+            sendXml(res, xml);
+        } catch (error: any) {
+            next(new ErrorHandler(error.message, 500));
+        }
+    })
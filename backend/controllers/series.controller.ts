@@ -0,0 +1,313 @@
+import { Request, Response, NextFunction } from "express";
+import mongoose from "mongoose";
+import { catchAsyncErrors } from "../middlewares/catchAsyncErrors";
+import ErrorHandler from "../utils/ErrorHandler";
+import SeriesModel from "../models/series.model";
+import BlogModel from "../models/blogs.model";
+import { seriesService } from "../services/series.service";
+import { AGE_GROUPS, AgeGroup } from "../utils/ageGroups";
+
+interface ISeriesData {
+    title: string;
+    description?: string;
+    cover?: string;
+    ageGroup?: AgeGroup;
+    isPublished?: boolean;
+}
+
+// only the author of the series and admins can change it
+const canManageSeries = (user: any, series: any) =>
+    series.author.toString() === user._id.toString() || user.role === "admin";
+
+// create series
+export const createSeries = catchAsyncErrors(
+    async (req: Request, res: Response, next: NextFunction) => {
+        try {
+            const user = req.user;
+            const { title, description, cover, ageGroup, isPublished } = req.body as ISeriesData;
+            if (!user) {
+                return next(new ErrorHandler("Please login to continue with author account", 401));
+            }
+            if (!title || title.length > 200) {
+                return next(new ErrorHandler("Title is required and must be under 200 characters", 400));
+            }
+            if (description && description.length > 1000) {
+                return next(new ErrorHandler("Description must be under 1000 characters", 400));
+            }
+            if (ageGroup && !AGE_GROUPS.includes(ageGroup)) {
+                return next(new ErrorHandler(`Age group must be one of ${AGE_GROUPS.join(", ")}`, 400));
+            }
+
+            const series = await SeriesModel.create({
+                title,
+                description,
+                cover,
+                ageGroup,
+                isPublished: isPublished === undefined ? true : Boolean(isPublished),
+                author: user._id,
+                blogs: []
+            });
+
+            res.status(201).json({
+                success: true,
+                message: "Series created successfully",
+                series,
+            });
+        } catch (error: any) {
+            next(new ErrorHandler(error.message, 500));
+        }
+    })
+
+// edit series details
+export const updateSeries = catchAsyncErrors(
+    async (req: Request, res: Response, next: NextFunction) => {
+        try {
+            const user = req.user;
+            const { title, description, cover, ageGroup, isPublished } = req.body as ISeriesData;
+            if (!user) {
+                return next(new ErrorHandler("Please login to continue with author account", 401));
+            }
+            if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+                return next(new ErrorHandler("Series not found", 404));
+            }
+            const series = await SeriesModel.findById(req.params.id);
+            if (!series) {
+                return next(new ErrorHandler("Series not found", 404));
+            }
+            if (!canManageSeries(user, series)) {
+                return next(new ErrorHandler("Not authorized to edit this series", 403));
+            }
+            if (title !== undefined && (!title || title.length > 200)) {
+                return next(new ErrorHandler("Title is required and must be under 200 characters", 400));
+            }
+            if (description && description.length > 1000) {
+                return next(new ErrorHandler("Description must be under 1000 characters", 400));
+            }
+            if (ageGroup && !AGE_GROUPS.includes(ageGroup)) {
+                return next(new ErrorHandler(`Age group must be one of ${AGE_GROUPS.join(", ")}`, 400));
+            }
+
+            if (title) series.title = title;
+            if (description !== undefined) series.description = description;
+            if (cover !== undefined) series.cover = cover;
+            if (ageGroup) series.ageGroup = ageGroup;
+            if (isPublished !== undefined) series.isPublished = Boolean(isPublished);
+            await series.save();
+
+            res.status(200).json({
+                success: true,
+                message: "Series updated successfully",
+                series,
+            });
+        } catch (error: any) {
+            next(new ErrorHandler(error.message, 500));
+        }
+    })
+
+// add a blog to a series, at the end or at the given position (1-based)
+export const addBlogToSeries = catchAsyncErrors(
+    async (req: Request, res: Response, next: NextFunction) => {
+        try {
+            const user = req.user;
+            const { blogId, position } = req.body as { blogId: string; position?: number };
+            if (!user) {
+                return next(new ErrorHandler("Please login to continue with author account", 401));
+            }
+            if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+                return next(new ErrorHandler("Series not found", 404));
+            }
+            if (!mongoose.Types.ObjectId.isValid(blogId)) {
+                return next(new ErrorHandler("Blog not found", 404));
+            }
+            const [series, blog] = await Promise.all([
+                SeriesModel.findById(req.params.id),
+                BlogModel.findById(blogId).select("author")
+            ]);
+            if (!series) {
+                return next(new ErrorHandler("Series not found", 404));
+            }
+            if (!blog) {
+                return next(new ErrorHandler("Blog not found", 404));
+            }
+            if (!canManageSeries(user, series)) {
+                return next(new ErrorHandler("Not authorized to edit this series", 403));
+            }
+            if (blog.author.toString() !== series.author.toString()) {
+                return next(new ErrorHandler("Only blogs of the series author can be added", 403));
+            }
+            // a blog belongs to one series at most so its navigation is unambiguous
+            const otherSeries = await SeriesModel.findOne({ blogs: blogId }).select("_id title");
+            if (otherSeries) {
+                return next(new ErrorHandler(`Blog already belongs to the series ${otherSeries.title}`, 409));
+            }
+
+            const index = position && position >= 1
+                ? Math.min(position - 1, series.blogs.length)
+                : series.blogs.length;
+            series.blogs.splice(index, 0, new mongoose.Types.ObjectId(blogId));
+            await series.save();
+
+            res.status(200).json({
+                success: true,
+                message: "Blog added to series",
+                series,
+            });
+        } catch (error: any) {
+            next(new ErrorHandler(error.message, 500));
+        }
+    })
+
+// remove a blog from a series
+export const removeBlogFromSeries = catchAsyncErrors(
+    async (req: Request, res: Response, next: NextFunction) => {
+        try {
+            const user = req.user;
+            const { id, blogId } = req.params;
+            if (!user) {
+                return next(new ErrorHandler("Please login to continue with author account", 401));
+            }
+            if (!mongoose.Types.ObjectId.isValid(id)) {
+                return next(new ErrorHandler("Series not found", 404));
+            }
+            const series = await SeriesModel.findById(id);
+            if (!series) {
+                return next(new ErrorHandler("Series not found", 404));
+            }
+            if (!canManageSeries(user, series)) {
+                return next(new ErrorHandler("Not authorized to edit this series", 403));
+            }
+            const index = series.blogs.findIndex(blog => blog.toString() === blogId);
+            if (index === -1) {
+                return next(new ErrorHandler("Blog is not part of this series", 404));
+            }
+
+            series.blogs.splice(index, 1);
+            await series.save();
+
+            res.status(200).json({
+                success: true,
+                message: "Blog removed from series",
+                series,
+            });
+        } catch (error: any) {
+            next(new ErrorHandler(error.message, 500));
+        }
+    })
+
+// reorder the parts of a series, blogIds must list every blog of the series exactly once
+export const reorderSeries = catchAsyncErrors(
+    async (req: Request, res: Response, next: NextFunction) => {
+        try {
+            const user = req.user;
+            const { blogIds } = req.body as { blogIds: string[] };
+            if (!user) {
+                return next(new ErrorHandler("Please login to continue with author account", 401));
+            }
+            if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+                return next(new ErrorHandler("Series not found", 404));
+            }
+            const series = await SeriesModel.findById(req.params.id);
+            if (!series) {
+                return next(new ErrorHandler("Series not found", 404));
+            }
+            if (!canManageSeries(user, series)) {
+                return next(new ErrorHandler("Not authorized to edit this series", 403));
+            }
+
+            const current = series.blogs.map(blog => blog.toString());
+            const isPermutation = Array.isArray(blogIds)
+                && blogIds.length === current.length
+                && new Set(blogIds).size === blogIds.length
+                && blogIds.every(id => current.includes(id));
+            if (!isPermutation) {
+                return next(new ErrorHandler("blogIds must contain every blog of the series exactly once", 400));
+            }
+
+            series.blogs = blogIds.map(id => new mongoose.Types.ObjectId(id));
+            await series.save();
+
+            res.status(200).json({
+                success: true,
+                message: "Series reordered",
+                series,
+            });
+        } catch (error: any) {
+            next(new ErrorHandler(error.message, 500));
+        }
+    })
+
+// get a series with its published parts in order
+export const getSeries = catchAsyncErrors(
+    async (req: Request, res: Response, next: NextFunction) => {
+        try {
+            if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+                return next(new ErrorHandler("Series not found", 404));
+            }
+            const series = await SeriesModel.findOne({ _id: req.params.id, isPublished: true })
+                .populate("author", "name username avatar")
+                .lean();
+            if (!series) {
+                return next(new ErrorHandler("Series not found", 404));
+            }
+            const parts = await seriesService.getPublishedParts(series.blogs);
+
+            res.status(200).json({
+                success: true,
+                message: "Series found",
+                series: { ...series, blogs: parts },
+            });
+        } catch (error: any) {
+            next(new ErrorHandler(error.message, 500));
+        }
+    })
+
+// series written by an author
+export const getAuthorSeries = catchAsyncErrors(
+    async (req: Request, res: Response, next: NextFunction) => {
+        try {
+            const authorId = req.params.authorId;
+            if (!mongoose.Types.ObjectId.isValid(authorId)) {
+                return next(new ErrorHandler("Author not found", 404));
+            }
+            // authors see their unpublished series too
+            const filter: Record<string, any> = { author: authorId };
+            if (req.user?._id?.toString() !== authorId) {
+                filter.isPublished = true;
+            }
+            const series = await SeriesModel.find(filter).sort({ createdAt: -1 }).lean();
+
+            res.status(200).json({
+                success: true,
+                message: "Series found",
+                series,
+            });
+        } catch (error: any) {
+            next(new ErrorHandler(error.message, 500));
+        }
+    })
+
+// progress of the logged in reader through a series
+export const getSeriesProgress = catchAsyncErrors(
+    async (req: Request, res: Response, next: NextFunction) => {
+        try {
+            const user = req.user;
+            if (!user) {
+                return next(new ErrorHandler("Please login to continue", 401));
+            }
+            if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+                return next(new ErrorHandler("Series not found", 404));
+            }
+            const progress = await seriesService.getProgress(req.params.id, user._id as string);
+            if (!progress) {
+                return next(new ErrorHandler("Series not found", 404));
+            }
+
+            res.status(200).json({
+                success: true,
+                message: "Series progress",
+                progress,
+            });
+        } catch (error: any) {
+            next(new ErrorHandler(error.message, 500));
+        }
+    })
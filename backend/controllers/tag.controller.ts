@@ -0,0 +1,212 @@
+import { Request, Response, NextFunction } from "express";
+import { catchAsyncErrors } from "../middlewares/catchAsyncErrors";
+import ErrorHandler from "../utils/ErrorHandler";
+import TagModel from "../models/tag.model";
+import { tagService } from "../services/tag.service";
+import { BLOG_SORT_MODES, BlogSortMode, InvalidCursorError, blogListingService } from "../services/blogListing.service";
+import { ageGroupFilterFor } from "../utils/ageGroups";
+import { slugify } from "../utils/slug";
+
+interface ITagData {
+    name?: string;
+    description?: string;
+    aliases?: string[];
+    blockedForKids?: boolean;
+}
+
+// tags of the registry, most used first or by name, ?q= filters on the slug prefix
+export const getTags = catchAsyncErrors(
+    async (req: Request, res: Response, next: NextFunction) => {
+        try {
+            const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+            const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 50, 1), 100);
+            const sort: Record<string, 1 | -1> = req.query.sort === "name" ? { slug: 1 } : { usageCount: -1, slug: 1 };
+            const filter: Record<string, any> = { usageCount: { $gt: 0 } };
+            if (req.query.q) {
+                const prefix = slugify(req.query.q as string).replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+                filter.$or = [{ slug: { $regex: `^${prefix}` } }, { aliases: { $regex: `^${prefix}` } }];
+            }
+
+            const [tags, total] = await Promise.all([
+                TagModel.find(filter)
+                    .select("slug name description usageCount")
+                    .sort(sort)
+                    .skip((page - 1) * limit)
+                    .limit(limit)
+                    .lean(),
+                TagModel.countDocuments(filter)
+            ]);
+
+            res.status(200).json({
+                success: true,
+                message: "Tags found",
+                tags,
+                pagination: {
+                    page,
+                    limit,
+                    total,
+                    totalPages: Math.ceil(total / limit),
+                    hasNext: page * limit < total,
+                    hasPrev: page > 1,
+                },
+            });
+        } catch (error: any) {
+            next(new ErrorHandler(error.message, 500));
+        }
+    })
+
+// tag page: the tag and its published blogs, cursor-paginated like the blog listing
+export const getTagPage = catchAsyncErrors(
+    async (req: Request, res: Response, next: NextFunction) => {
+        try {
+            const slug = slugify(req.params.slug);
+            const sort = ((req.query.sort as string) || "newest") as BlogSortMode;
+            if (!BLOG_SORT_MODES.includes(sort)) {
+                return next(new ErrorHandler(`Sort must be one of ${BLOG_SORT_MODES.join(", ")}`, 400));
+            }
+            const tag = await TagModel.findOne({ $or: [{ slug }, { aliases: slug }] })
+                .select("slug name description usageCount aliases")
+                .lean();
+            if (!tag) {
+                return next(new ErrorHandler("Tag not found", 404));
+            }
+
+            const { blogs, pagination } = await blogListingService.list({
+                limit: Math.min(Math.max(parseInt(req.query.limit as string) || 10, 1), 50),
+                cursor: req.query.cursor as string | undefined,
+                sort,
+                tags: [tag.slug],
+                audienceFilter: ageGroupFilterFor(req.user)
+            });
+
+            res.status(200).json({
+                success: true,
+                message: "Tag found",
+                tag,
+                blogs,
+                pagination,
+            });
+        } catch (error: any) {
+            if (error instanceof InvalidCursorError) {
+                return next(new ErrorHandler(error.message, 400));
+            }
+            next(new ErrorHandler(error.message, 500));
+        }
+    })
+
+// edit tag metadata, aliases and the kids content block -- only for admin
+export const updateTag = catchAsyncErrors(
+    async (req: Request, res: Response, next: NextFunction) => {
+        try {
+            const { name, description, aliases, blockedForKids } = req.body as ITagData;
+            const tag = await TagModel.findOne({ slug: req.params.slug });
+            if (!tag) {
+                return next(new ErrorHandler("Tag not found", 404));
+            }
+            if (name !== undefined && (!name?.trim() || name.length > 80)) {
+                return next(new ErrorHandler("Name is required and must be under 80 characters", 400));
+            }
+            if (description && description.length > 500) {
+                return next(new ErrorHandler("Description must be under 500 characters", 400));
+            }
+            if (aliases !== undefined) {
+                if (!Array.isArray(aliases)) {
+                    return next(new ErrorHandler("Aliases must be a list", 400));
+                }
+                const slugs = aliases.map(alias => slugify(String(alias))).filter(alias => alias !== tag.slug);
+                // an alias used as a tag of its own has to be merged instead
+                const taken = await TagModel.findOne({
+                    _id: { $ne: tag._id },
+                    $or: [{ slug: { $in: slugs } }, { aliases: { $in: slugs } }]
+                }).select("slug");
+                if (taken) {
+                    return next(new ErrorHandler(`Alias already used by the tag ${taken.slug}, merge the tags instead`, 409));
+                }
+                tag.aliases = Array.from(new Set(slugs));
+            }
+
+            if (name) tag.name = name;
+            if (description !== undefined) tag.description = description;
+            if (blockedForKids !== undefined) tag.blockedForKids = Boolean(blockedForKids);
+            await tag.save();
+
+            res.status(200).json({
+                success: true,
+                message: "Tag updated successfully",
+                tag,
+            });
+        } catch (error: any) {
+            next(new ErrorHandler(error.message, 500));
+        }
+    })
+
+// merge tags into one, rewriting the blogs that use them -- only for admin
+export const mergeTags = catchAsyncErrors(
+    async (req: Request, res: Response, next: NextFunction) => {
+        try {
+            const { sources, target } = req.body as { sources: string[]; target: string };
+            if (!Array.isArray(sources) || !sources.length || !target) {
+                return next(new ErrorHandler("sources and target are required", 400));
+            }
+
+            const result = await tagService.merge(sources.map(source => slugify(String(source))), slugify(target));
+            if (!result) {
+                return next(new ErrorHandler("Target tag not found", 404));
+            }
+
+            res.status(200).json({
+                success: true,
+                message: "Tags merged successfully",
+                ...result,
+            });
+        } catch (error: any) {
+            next(new ErrorHandler(error.message, 500));
+        }
+    })
+
+// give a tag a new slug, rewriting the blogs that use it -- only for admin
+export const renameTag = catchAsyncErrors(
+    async (req: Request, res: Response, next: NextFunction) => {
+        try {
+            const { slug } = req.body as { slug: string };
+            if (!slug) {
+                return next(new ErrorHandler("The new slug is required", 400));
+            }
+            const newSlug = slugify(slug);
+            if (newSlug === req.params.slug) {
+                return next(new ErrorHandler("The tag already has this slug", 400));
+            }
+            if (await TagModel.exists({ slug: newSlug })) {
+                return next(new ErrorHandler(`Tag ${newSlug} already exists, merge the tags instead`, 409));
+            }
+
+            const result = await tagService.rename(req.params.slug, newSlug);
+            if (!result) {
+                return next(new ErrorHandler("Tag not found", 404));
+            }
+
+            res.status(200).json({
+                success: true,
+                message: "Tag renamed successfully",
+                ...result,
+            });
+        } catch (error: any) {
+            next(new ErrorHandler(error.message, 500));
+        }
+    })
+
+// rebuild the registry and its usage counts from the blogs -- only for admin
+export const recountTags = catchAsyncErrors(
+    async (req: Request, res: Response, next: NextFunction) => {
+        try {
+            const tags = await tagService.recountUsage();
+
+            res.status(200).json({
+                success: true,
+                message: "Tag usage recounted",
+                tagsCounted: tags,
+            });
+        } catch (error: any) {
+            next(new ErrorHandler(error.message, 500));
+        }
+    })
@@ -26,6 +26,25 @@ export const isAuthenticatedUser = catchAsyncErrors(
 
     })
 
+// Attach the user when a valid access token is sent, without requiring one
+export const optionalAuthentication = catchAsyncErrors(
+    async (req: Request, res: Response, next: NextFunction) => {
+        const accessToken = req.cookies?.access_token;
+        if (!accessToken) {
+            return next();
+        }
+        try {
+            const decoded = jwt.verify(accessToken, process.env.ACCESS_TOKEN as string) as JwtPayload;
+            const user = decoded && await redis.get(decoded.id);
+            if (user) {
+                req.user = JSON.parse(user as string);
+            }
+        } catch (error) {
+            // an invalid or expired token is treated as an anonymous request
+        }
+        next();
+    })
+
 /*  validate user Role  :  role: {
         type: String,
         enum: ["admin", "user", "moderator", "author"],
@@ -20,4 +20,12 @@ const getRateLimitConfig = (): RateLimitConfig => {
     };
 }
 
-export const authLimiter = rateLimit(getRateLimitConfig());
\ No newline at end of file
+export const authLimiter = rateLimit(getRateLimitConfig());
+
+// every report of a view counts, a client sending more than a reader could is cut off
+export const readLimiter = rateLimit({
+    windowMs: 15 * 60 * 1000,
+    max: parseInt(process.env.READ_RATE_LIMIT_MAX || "60", 10),
+    standardHeaders: true,
+    legacyHeaders: false,
+});
@@ -190,6 +190,8 @@ userActivitySchema.index({ userId: 1, timestamp: -1 });
 userActivitySchema.index({ sessionId: 1 });
 userActivitySchema.index({ action: 1, resourceType: 1 });
 userActivitySchema.index({ timestamp: -1 });
+// readers of a blog, for the co-reading of related posts
+userActivitySchema.index({ resourceType: 1, resourceId: 1, timestamp: -1 });
 
 articleAnalyticsSchema.index({ blogId: 1, date: -1 });
 articleAnalyticsSchema.index({ date: -1 });
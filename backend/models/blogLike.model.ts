@@ -0,0 +1,30 @@
+import mongoose, { Document, Model, Schema } from "mongoose";
+
+// Like of a blog by a user, one per pair so liking is idempotent
+export interface IBlogLike extends Document {
+    user: mongoose.Types.ObjectId;
+    blog: mongoose.Types.ObjectId;
+    createdAt: Date;
+}
+
+const blogLikeSchema = new Schema<IBlogLike>({
+    user: {
+        type: Schema.Types.ObjectId,
+        ref: 'User',
+        required: true
+    },
+    blog: {
+        type: Schema.Types.ObjectId,
+        ref: 'Blog',
+        required: true
+    }
+}, {
+    timestamps: { createdAt: true, updatedAt: false }
+});
+
+blogLikeSchema.index({ user: 1, blog: 1 }, { unique: true });
+blogLikeSchema.index({ blog: 1 });
+
+const BlogLikeModel: Model<IBlogLike> = mongoose.model<IBlogLike>("BlogLike", blogLikeSchema);
+
+export default BlogLikeModel;
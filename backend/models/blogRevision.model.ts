@@ -0,0 +1,76 @@
+import mongoose, { Document, Model, Schema } from "mongoose";
+
+// Immutable snapshot of a blog taken on every save
+export interface IBlogRevision extends Document {
+    blogId: mongoose.Types.ObjectId;
+    revision: number;
+    title: string;
+    des: string;
+    banner: string;
+    content: any[];
+    tags: string[];
+    editedBy: mongoose.Types.ObjectId;
+    restoredFrom?: number;
+    createdAt: Date;
+}
+
+const blogRevisionSchema = new Schema<IBlogRevision>({
+    blogId: {
+        type: Schema.Types.ObjectId,
+        ref: 'Blog',
+        required: true,
+        immutable: true
+    },
+    revision: {
+        type: Number,
+        required: true,
+        immutable: true
+    },
+    title: {
+        type: String,
+        immutable: true
+    },
+    des: {
+        type: String,
+        immutable: true
+    },
+    banner: {
+        type: String,
+        immutable: true
+    },
+    content: {
+        type: [],
+        immutable: true
+    },
+    tags: {
+        type: [String],
+        immutable: true
+    },
+    editedBy: {
+        type: Schema.Types.ObjectId,
+        ref: 'User',
+        required: true,
+        immutable: true
+    },
+    restoredFrom: {
+        type: Number,
+        immutable: true
+    }
+}, {
+    timestamps: { createdAt: true, updatedAt: false }
+});
+
+blogRevisionSchema.index({ blogId: 1, revision: -1 }, { unique: true });
+
+// Revisions are append-only: refuse any query-level update
+const rejectUpdate = function (next: (err?: Error) => void) {
+    next(new Error('Blog revisions are immutable'));
+};
+blogRevisionSchema.pre('updateOne', rejectUpdate);
+blogRevisionSchema.pre('updateMany', rejectUpdate);
+blogRevisionSchema.pre('findOneAndUpdate', rejectUpdate);
+blogRevisionSchema.pre('replaceOne', rejectUpdate);
+
+const BlogRevisionModel: Model<IBlogRevision> = mongoose.model<IBlogRevision>("BlogRevision", blogRevisionSchema);
+
+export default BlogRevisionModel;
@@ -1,5 +1,9 @@
 import mongoose, { Document, Model, Schema } from "mongoose";
 import { IUser } from "./user.model";
+import { extractBlocks } from "../utils/contentBlocks";
+import { estimateReadingTime, renderBlocksToText } from "../utils/contentRenderer";
+import { slugify, uniqueSlug } from "../utils/slug";
+import { DEFAULT_LANGUAGE, LANGUAGES, Language } from "../utils/languages";
 
 interface IComment extends Document {
     user: IUser,
@@ -29,11 +33,43 @@ interface ILink extends Document {
     url: string;
 }
 
+export type BlogStatus = 'draft' | 'in_review' | 'changes_requested' | 'approved' | 'published' | 'archived';
+
+export const BLOG_STATUSES: BlogStatus[] = ['draft', 'in_review', 'changes_requested', 'approved', 'published', 'archived'];
+
+// audit trail entry of the editorial workflow, `by` is empty for scheduler transitions
+export interface IBlogStatusChange {
+    from: BlogStatus;
+    to: BlogStatus;
+    by?: mongoose.Types.ObjectId;
+    comment?: string;
+    at: Date;
+}
+
+export type ContributorRole = 'co-author' | 'editor' | 'reviewer';
+
+export const CONTRIBUTOR_ROLES: ContributorRole[] = ['co-author', 'editor', 'reviewer'];
+
+// user invited on a blog besides its author, the role applies once the invitation is accepted
+export interface IBlogContributor {
+    user: mongoose.Types.ObjectId;
+    role: ContributorRole;
+    status: 'pending' | 'accepted';
+    invitedBy: mongoose.Types.ObjectId;
+    invitedAt: Date;
+    respondedAt?: Date;
+}
+
 interface IActivityBlog extends Document {
     total_likes: number;
+    // likes counted before likes were stored per user, kept on top of the stored ones,
+    // unset until the first reconciliation so that saving a blog never fakes a baseline
+    legacy_likes?: number;
     total_comments: number;
     total_reads: number;
     total_parent_comments: number;
+    // finished views, the sample behind average_read_time and bounce_rate
+    total_views: number;
     average_read_time: number;
     bounce_rate: number;
     engagement_score: number;
@@ -47,12 +83,26 @@ export interface IBlog extends Document {
     content: [];
     tags: string[];
     author: IUser;
+    contributors: IBlogContributor[];
     comments: IComment[];
     draft: boolean;
     isPublished: boolean;
+    publishAt?: Date;
+    unpublishAt?: Date;
+    status?: BlogStatus;
+    statusHistory: IBlogStatusChange[];
 
     ageGroup?: 'kids-6-8' | 'kids-9-12' | 'kids-13-16' | 'general';
     isKidsContent: boolean;
+    // hold new comments for approval, unset follows isKidsContent
+    commentPreModeration?: boolean | null;
+    // content-safety verdict for the audience of the blog, from the last create or edit
+    safety?: {
+        category: string;
+        score: number;
+        action: 'allow' | 'review' | 'block';
+        checkedAt: Date;
+    };
     educationalLevel?: 'beginner' | 'intermediate' | 'advanced';
     parentalGuidance?: boolean;
 
@@ -72,7 +122,21 @@ export interface IBlog extends Document {
     
     metaDescription?: string;
     slug: string;
+    // slugs of earlier titles, they redirect to the current slug
+    previousSlugs: string[];
     featured: boolean;
+    searchText?: string;
+    // minutes, estimated from the plain text of the content
+    readingTime: number;
+    language: Language;
+    // original blog this one translates, translations of a blog share it
+    translationOf?: mongoose.Types.ObjectId | null;
+    // languages published in the translation group, lets listings show one variant per group
+    availableLanguages: Language[];
+    // soft delete: a trashed blog is hidden everywhere and purged after purgeAt
+    deletedAt?: Date | null;
+    deletedBy?: mongoose.Types.ObjectId;
+    purgeAt?: Date;
 }
 
 // creating Schemas 
@@ -146,6 +210,15 @@ const blogSchema = new Schema<IBlog>({
         required: true,
         ref: 'User'
     },
+    contributors: [{
+        _id: false,
+        user: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+        role: { type: String, enum: CONTRIBUTOR_ROLES, required: true },
+        status: { type: String, enum: ['pending', 'accepted'], default: 'pending' },
+        invitedBy: { type: Schema.Types.ObjectId, ref: 'User' },
+        invitedAt: { type: Date, default: Date.now },
+        respondedAt: { type: Date }
+    }],
     draft: {
         type: Boolean,
         default: false,
@@ -154,6 +227,25 @@ const blogSchema = new Schema<IBlog>({
         type: Boolean,
         default: false,
     },
+    publishAt: {
+        type: Date,
+    },
+    unpublishAt: {
+        type: Date,
+    },
+    // no default: blogs created before the workflow derive it from draft/isPublished
+    status: {
+        type: String,
+        enum: BLOG_STATUSES,
+    },
+    statusHistory: [{
+        _id: false,
+        from: { type: String, enum: BLOG_STATUSES },
+        to: { type: String, enum: BLOG_STATUSES },
+        by: { type: Schema.Types.ObjectId, ref: 'User' },
+        comment: { type: String, maxlength: 1000 },
+        at: { type: Date, default: Date.now }
+    }],
     
     ageGroup: {
         type: String,
@@ -164,6 +256,16 @@ const blogSchema = new Schema<IBlog>({
         type: Boolean,
         default: false
     },
+    commentPreModeration: {
+        type: Boolean,
+        default: null
+    },
+    safety: {
+        category: String,
+        score: Number,
+        action: { type: String, enum: ['allow', 'review', 'block'] },
+        checkedAt: Date
+    },
     educationalLevel: {
         type: String,
         enum: ['beginner', 'intermediate', 'advanced']
@@ -182,6 +284,9 @@ const blogSchema = new Schema<IBlog>({
             type: Number,
             default: 0,
         },
+        legacy_likes: {
+            type: Number,
+        },
         total_comments: {
             type: Number,
             default: 0,
@@ -194,6 +299,11 @@ const blogSchema = new Schema<IBlog>({
             type: Number,
             default: 0,
         },
+        total_views: {
+            type: Number,
+            default: 0,
+        },
+        // seconds
         average_read_time: {
             type: Number,
             default: 0
@@ -229,9 +339,47 @@ const blogSchema = new Schema<IBlog>({
         unique: true,
         required: true
     },
+    previousSlugs: {
+        type: [String],
+        default: []
+    },
     featured: {
         type: Boolean,
         default: false
+    },
+    // plain text of the content blocks, kept for the text index
+    searchText: {
+        type: String,
+        select: false
+    },
+    readingTime: {
+        type: Number,
+        default: 1
+    },
+    language: {
+        type: String,
+        enum: LANGUAGES,
+        default: DEFAULT_LANGUAGE
+    },
+    translationOf: {
+        type: Schema.Types.ObjectId,
+        ref: 'Blog',
+        default: null
+    },
+    availableLanguages: {
+        type: [{ type: String, enum: LANGUAGES }],
+        default: undefined
+    },
+    deletedAt: {
+        type: Date,
+        default: null
+    },
+    deletedBy: {
+        type: Schema.Types.ObjectId,
+        ref: 'User'
+    },
+    purgeAt: {
+        type: Date
     }
 
 }, {
@@ -240,6 +388,69 @@ const blogSchema = new Schema<IBlog>({
     }
 })
 
+// slug from the title, the former slug is kept so old links keep working
+blogSchema.pre<IBlog>("validate", async function () {
+    if (this.slug && !this.isModified("title")) return;
+
+    const base = slugify(this.title);
+    if (this.slug === base) return;
+    const Blog = this.constructor as Model<IBlog>;
+    // a blog may take back one of its own former slugs
+    const slug = this.previousSlugs?.includes(base)
+        ? base
+        : await uniqueSlug(base, async candidate => Boolean(await Blog.exists({
+            _id: { $ne: this._id },
+            $or: [{ slug: candidate }, { previousSlugs: candidate }]
+        })));
+
+    if (this.slug && this.slug !== slug) {
+        this.previousSlugs = [...(this.previousSlugs || []).filter(previous => previous !== slug), this.slug];
+    } else {
+        this.previousSlugs = (this.previousSlugs || []).filter(previous => previous !== slug);
+    }
+    this.slug = slug;
+});
+
+blogSchema.pre<IBlog>("save", function (next) {
+    if (this.isModified("content") || this.isNew) {
+        this.searchText = renderBlocksToText(extractBlocks(this.content));
+        this.readingTime = estimateReadingTime(this.searchText);
+    }
+    next();
+});
+
+// relevance-ranked full-text search
+blogSchema.index(
+    { title: "text", tags: "text", des: "text", searchText: "text" },
+    { name: "blog_text_search", weights: { title: 10, tags: 5, des: 3, searchText: 1 }, default_language: "none" }
+);
+
+// sort modes of the cursor-paginated listing
+blogSchema.index({ isPublished: 1, draft: 1, published_at: -1, _id: -1 });
+blogSchema.index({ isPublished: 1, draft: 1, "activity.engagement_score": -1, _id: -1 });
+blogSchema.index({ isPublished: 1, draft: 1, "activity.total_reads": -1, _id: -1 });
+blogSchema.index({ isPublished: 1, draft: 1, ratings: -1, _id: -1 });
+
+// moderation queue
+blogSchema.index({ status: 1, updatedAt: 1 });
+
+// redirects from former slugs
+blogSchema.index({ previousSlugs: 1 });
+
+// blogs a user contributes to, and their pending invitations
+blogSchema.index({ "contributors.user": 1, "contributors.status": 1 });
+
+// variants of a translation group
+blogSchema.index({ translationOf: 1, language: 1 });
+
+// trash of an author and the purge cron
+blogSchema.index({ deletedAt: 1, author: 1 });
+blogSchema.index({ purgeAt: 1 }, { partialFilterExpression: { deletedAt: { $type: 'date' } } });
+
+// lookups of the publishing scheduler
+blogSchema.index({ isPublished: 1, publishAt: 1 });
+blogSchema.index({ isPublished: 1, unpublishAt: 1 });
+
 const BlogModel: Model<IBlog> = mongoose.model<IBlog>("Blog", blogSchema);
 
 export default BlogModel;
\ No newline at end of file
@@ -0,0 +1,76 @@
+import mongoose, { Document, Model, Schema } from "mongoose";
+
+// A blog saved by a reader
+export interface IBookmark extends Document {
+    user: mongoose.Types.ObjectId;
+    blog: mongoose.Types.ObjectId;
+    createdAt: Date;
+}
+
+// Named collection of blogs, private to its owner or shared through its link
+export interface IReadingList extends Document {
+    owner: mongoose.Types.ObjectId;
+    name: string;
+    description: string;
+    visibility: 'private' | 'shared';
+    items: Array<{
+        blog: mongoose.Types.ObjectId;
+        addedAt: Date;
+    }>;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const bookmarkSchema = new Schema<IBookmark>({
+    user: {
+        type: Schema.Types.ObjectId,
+        ref: 'User',
+        required: true
+    },
+    blog: {
+        type: Schema.Types.ObjectId,
+        ref: 'Blog',
+        required: true
+    }
+}, {
+    timestamps: { createdAt: true, updatedAt: false }
+});
+
+const readingListSchema = new Schema<IReadingList>({
+    owner: {
+        type: Schema.Types.ObjectId,
+        ref: 'User',
+        required: true
+    },
+    name: {
+        type: String,
+        required: true,
+        trim: true,
+        maxlength: 100
+    },
+    description: {
+        type: String,
+        maxlength: 500,
+        default: ""
+    },
+    visibility: {
+        type: String,
+        enum: ['private', 'shared'],
+        default: 'private'
+    },
+    items: [{
+        _id: false,
+        blog: { type: Schema.Types.ObjectId, ref: 'Blog', required: true },
+        addedAt: { type: Date, default: Date.now }
+    }]
+}, { timestamps: true });
+
+// one bookmark per user and blog
+bookmarkSchema.index({ user: 1, blog: 1 }, { unique: true });
+bookmarkSchema.index({ user: 1, createdAt: -1 });
+
+readingListSchema.index({ owner: 1, name: 1 }, { unique: true });
+readingListSchema.index({ 'items.blog': 1 });
+
+export const BookmarkModel: Model<IBookmark> = mongoose.model<IBookmark>("Bookmark", bookmarkSchema);
+export const ReadingListModel: Model<IReadingList> = mongoose.model<IReadingList>("ReadingList", readingListSchema);
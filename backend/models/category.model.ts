@@ -0,0 +1,81 @@
+import mongoose, { Document, Model, Schema } from "mongoose";
+import { AGE_GROUPS, AgeGroup } from "../utils/ageGroups";
+
+// Managed blog category, blogs store the category slug
+export interface ICategory extends Document {
+    slug: string;
+    name: string;
+    // localized names keyed by locale: fr, ar, en...
+    translations: Map<string, string>;
+    description: string;
+    icon: string;
+    parent?: mongoose.Types.ObjectId | null;
+    // age groups a blog of this category may target
+    ageGroups: AgeGroup[];
+    // former free-text spellings mapped to this category
+    aliases: string[];
+    order: number;
+    isActive: boolean;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const categorySchema = new Schema<ICategory>({
+    slug: {
+        type: String,
+        required: true,
+        unique: true,
+        lowercase: true,
+        trim: true,
+        maxlength: 80
+    },
+    name: {
+        type: String,
+        required: true,
+        trim: true,
+        maxlength: 100
+    },
+    translations: {
+        type: Map,
+        of: { type: String, maxlength: 100 },
+        default: {}
+    },
+    description: {
+        type: String,
+        maxlength: 500,
+        default: ""
+    },
+    icon: {
+        type: String,
+        maxlength: 200,
+        default: ""
+    },
+    parent: {
+        type: Schema.Types.ObjectId,
+        ref: 'Category',
+        default: null
+    },
+    ageGroups: {
+        type: [{ type: String, enum: AGE_GROUPS }],
+        default: AGE_GROUPS
+    },
+    aliases: {
+        type: [{ type: String, lowercase: true, trim: true }],
+        default: []
+    },
+    order: {
+        type: Number,
+        default: 0
+    },
+    isActive: {
+        type: Boolean,
+        default: true
+    }
+}, { timestamps: true });
+
+categorySchema.index({ parent: 1, order: 1 });
+categorySchema.index({ aliases: 1 });
+
+const CategoryModel: Model<ICategory> = mongoose.model<ICategory>("Category", categorySchema);
+
+export default CategoryModel;
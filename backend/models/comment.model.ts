@@ -1,6 +1,15 @@
 import mongoose, { Document, Model, Schema } from "mongoose";
 import { IUser } from "./user.model";
 
+export type LegacyCommentKind = 'question' | 'answer' | 'review' | 'review_reply';
+
+export const FLAG_REASONS = ['spam', 'inappropriate', 'harassment', 'other'] as const;
+export type FlagReason = typeof FLAG_REASONS[number];
+
+// comments waiting in the moderation queue are pending or escalated
+export const MODERATION_STATUSES = ['pending', 'escalated', 'approved', 'removed'] as const;
+export type ModerationStatus = typeof MODERATION_STATUSES[number];
+
 export interface IComment extends Document {
     _id: string;
     content: string;
@@ -23,11 +32,32 @@ export interface IComment extends Document {
     flagReasons?: string[];
     moderatedBy?: string;
     moderatedAt?: Date;
+    // unset until the comment is flagged for the first time
+    moderationStatus?: ModerationStatus;
+    moderationPriority: number;
+    flaggedBy: mongoose.Types.ObjectId[];
+    // when the comment entered the moderation queue
+    flaggedAt?: Date;
+    // whether the blog of the comment is kids content, stored when flagged or held
+    onKidsContent: boolean;
+    // pre-moderated comment, only its author sees it until approved
+    awaitingApproval: boolean;
+    // content-safety verdict when the comment was posted
+    safety?: {
+        category: string;
+        score: number;
+    };
     
     // Kids safety
     isKidsSafe: boolean;
     containsInappropriateContent: boolean;
     
+    // embedded question, answer or review the comment was migrated from
+    legacySource?: {
+        kind: LegacyCommentKind;
+        id: string;
+    };
+
     // Analytics
     replyCount: number;
     totalReactions: number;
@@ -84,6 +114,28 @@ const commentSchema = new Schema<IComment>({
         ref: 'User'
     },
     moderatedAt: Date,
+    moderationStatus: {
+        type: String,
+        enum: MODERATION_STATUSES
+    },
+    moderationPriority: {
+        type: Number,
+        default: 0
+    },
+    flaggedBy: [{ type: Schema.Types.ObjectId, ref: 'User' }],
+    flaggedAt: Date,
+    onKidsContent: {
+        type: Boolean,
+        default: false
+    },
+    awaitingApproval: {
+        type: Boolean,
+        default: false
+    },
+    safety: {
+        category: String,
+        score: Number
+    },
     
     isKidsSafe: {
         type: Boolean,
@@ -94,6 +146,10 @@ const commentSchema = new Schema<IComment>({
         default: false
     },
     
+    legacySource: {
+        kind: { type: String, enum: ['question', 'answer', 'review', 'review_reply'] },
+        id: String
+    },
     replyCount: {
         type: Number,
         default: 0
@@ -107,10 +163,19 @@ const commentSchema = new Schema<IComment>({
 });
 
 // Indexes for performance
-commentSchema.index({ blogId: 1, parentId: 1 });
+// comments of a blog and replies of a comment, oldest first
+commentSchema.index({ blogId: 1, parentId: 1, createdAt: 1 });
+commentSchema.index({ parentId: 1, createdAt: 1 });
 commentSchema.index({ author: 1 });
 commentSchema.index({ createdAt: -1 });
 commentSchema.index({ isKidsSafe: 1, containsInappropriateContent: 1 });
+// moderation queue, highest priority then oldest flag first
+commentSchema.index({ moderationStatus: 1, moderationPriority: -1, flaggedAt: 1 });
+// one comment per migrated embedded entry, keeps the migration idempotent
+commentSchema.index(
+    { 'legacySource.kind': 1, 'legacySource.id': 1 },
+    { unique: true, partialFilterExpression: { 'legacySource.id': { $exists: true } } }
+);
 
 // Note: totalReactions is now a regular schema field, not a virtual property
 
@@ -0,0 +1,56 @@
+import mongoose, { Document, Model, Schema } from "mongoose";
+
+export const MODERATION_ACTIONS = ['approve', 'remove', 'edit', 'escalate'] as const;
+export type ModerationActionType = typeof MODERATION_ACTIONS[number];
+
+// One decision of a moderator on a flagged comment, kept for throughput stats
+export interface IModerationAction extends Document {
+    comment: mongoose.Types.ObjectId;
+    blogId: mongoose.Types.ObjectId;
+    moderator: mongoose.Types.ObjectId;
+    action: ModerationActionType;
+    note?: string;
+    // time the comment waited in the queue before the decision
+    waitMs: number;
+    createdAt: Date;
+}
+
+const moderationActionSchema = new Schema<IModerationAction>({
+    comment: {
+        type: Schema.Types.ObjectId,
+        ref: 'Comment',
+        required: true
+    },
+    blogId: {
+        type: Schema.Types.ObjectId,
+        ref: 'Blog',
+        required: true
+    },
+    moderator: {
+        type: Schema.Types.ObjectId,
+        ref: 'User',
+        required: true
+    },
+    action: {
+        type: String,
+        enum: MODERATION_ACTIONS,
+        required: true
+    },
+    note: {
+        type: String,
+        maxlength: 500
+    },
+    waitMs: {
+        type: Number,
+        default: 0
+    }
+}, {
+    timestamps: { createdAt: true, updatedAt: false }
+});
+
+moderationActionSchema.index({ createdAt: -1, moderator: 1 });
+moderationActionSchema.index({ comment: 1, createdAt: -1 });
+
+const ModerationActionModel: Model<IModerationAction> = mongoose.model<IModerationAction>("ModerationAction", moderationActionSchema);
+
+export default ModerationActionModel;
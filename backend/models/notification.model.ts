@@ -3,7 +3,7 @@ import mongoose, { Document, Model, Schema } from "mongoose";
 export interface INotification extends Document {
     recipient: mongoose.Types.ObjectId;
     sender?: string;
-    type: 'like' | 'comment' | 'follow' | 'mention' | 'blog_published' | 'system';
+    type: 'like' | 'comment' | 'follow' | 'mention' | 'blog_published' | 'blog_review' | 'blog_invitation' | 'system';
     title: string;
     message: string;
     isRead: boolean;
@@ -25,7 +25,7 @@ const notificationSchema = new Schema<INotification>({
     type: {
         type: String,
         required: true,
-        enum: ['like', 'comment', 'follow', 'mention', 'blog_published', 'system']
+        enum: ['like', 'comment', 'follow', 'mention', 'blog_published', 'blog_review', 'blog_invitation', 'system']
     },
     title: {
         type: String,
@@ -0,0 +1,58 @@
+import mongoose, { Document, Model, Schema } from "mongoose";
+import { IUser } from "./user.model";
+
+// Ordered collection of blogs forming a multi-part lesson or course
+export interface ISeries extends Document {
+    title: string;
+    description: string;
+    cover: string;
+    ageGroup: 'kids-6-8' | 'kids-9-12' | 'kids-13-16' | 'general';
+    author: IUser;
+    blogs: mongoose.Types.ObjectId[];
+    isPublished: boolean;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const seriesSchema = new Schema<ISeries>({
+    title: {
+        type: String,
+        required: true,
+        trim: true,
+        maxlength: 200
+    },
+    description: {
+        type: String,
+        maxlength: 1000,
+        default: ""
+    },
+    cover: {
+        type: String
+    },
+    ageGroup: {
+        type: String,
+        enum: ['kids-6-8', 'kids-9-12', 'kids-13-16', 'general'],
+        default: 'general'
+    },
+    author: {
+        type: Schema.Types.ObjectId,
+        required: true,
+        ref: 'User'
+    },
+    // position in the array is the order of the parts
+    blogs: [{
+        type: Schema.Types.ObjectId,
+        ref: 'Blog'
+    }],
+    isPublished: {
+        type: Boolean,
+        default: true
+    }
+}, { timestamps: true });
+
+seriesSchema.index({ author: 1, createdAt: -1 });
+seriesSchema.index({ blogs: 1 });
+
+const SeriesModel: Model<ISeries> = mongoose.model<ISeries>("Series", seriesSchema);
+
+export default SeriesModel;
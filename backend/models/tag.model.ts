@@ -0,0 +1,58 @@
+import mongoose, { Document, Model, Schema } from "mongoose";
+
+// Registry entry of a blog tag, blogs store the tag slug
+export interface ITag extends Document {
+    slug: string;
+    name: string;
+    description: string;
+    // other spellings rewritten to this tag
+    aliases: string[];
+    // number of blogs using the tag
+    usageCount: number;
+    // refused on kids content
+    blockedForKids: boolean;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const tagSchema = new Schema<ITag>({
+    slug: {
+        type: String,
+        required: true,
+        unique: true,
+        lowercase: true,
+        trim: true,
+        maxlength: 80
+    },
+    name: {
+        type: String,
+        required: true,
+        trim: true,
+        maxlength: 80
+    },
+    description: {
+        type: String,
+        maxlength: 500,
+        default: ""
+    },
+    aliases: {
+        type: [{ type: String, lowercase: true, trim: true }],
+        default: []
+    },
+    usageCount: {
+        type: Number,
+        default: 0,
+        min: 0
+    },
+    blockedForKids: {
+        type: Boolean,
+        default: false
+    }
+}, { timestamps: true });
+
+tagSchema.index({ aliases: 1 });
+tagSchema.index({ usageCount: -1 });
+
+const TagModel: Model<ITag> = mongoose.model<ITag>("Tag", tagSchema);
+
+export default TagModel;
@@ -0,0 +1,16 @@
+import express from 'express';
+import { isAuthenticatedUser } from '../middlewares/auth';
+import { authLimiter } from '../middlewares/rateLimite';
+import { moderateContent } from '../controllers/ai.controller';
+
+const aiRouter = express.Router();
+
+// content-safety check, runs on the local rules (and the model when one is plugged)
+aiRouter.post(
+    "/ai/moderate",
+    authLimiter,
+    isAuthenticatedUser,
+    moderateContent
+)
+
+export default aiRouter;
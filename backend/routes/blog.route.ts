@@ -1,7 +1,7 @@
 import express from 'express';
-import { authorizeRoles, isAuthenticatedUser } from '../middlewares/auth';
-import { authLimiter } from '../middlewares/rateLimite';
-import { addAnswer, addLike, addQuestion, addReadBlog, addReview, addReviewReply, createBlog, editBlog, getAllBlogs, getAllBlogsOnlyAdmin, getDraftBlogs, getSingleBlog, getSingleDraftBlog } from '../controllers/blog.controller';
+import { authorizeRoles, isAuthenticatedUser, optionalAuthentication } from '../middlewares/auth';
+import { authLimiter, readLimiter } from '../middlewares/rateLimite';
+import { addAnswer, addLike, addQuestion, addReadBlog, addReview, addReviewReply, approveBlog, archiveBlog, createBlog, deleteBlog, editBlog, getAllBlogs, getAllBlogsOnlyAdmin, getBlogBySlug, getBlogRevisionDiff, getBlogRevisions, getBlogStatusHistory, getDraftBlogs, getRelatedBlogs, getReviewQueue, getScheduledBlogs, getSingleBlog, getSingleDraftBlog, getTrash, publishBlog, purgeBlog, purgeExpiredTrash, reconcileLikeCounters, removeLike, requestBlogChanges, restoreBlog, restoreBlogRevision, searchBlogs, submitBlogForReview, withdrawBlogToDraft } from '../controllers/blog.controller';
 
 
 const blogRouter = express.Router();
@@ -13,23 +13,82 @@ blogRouter.post(
     authorizeRoles("author"),
     createBlog
 )
+// the author and contributors with edit rights, checked against the blog
 blogRouter.put(
     "/edit-blog/:id",
     authLimiter,
     isAuthenticatedUser,
-    authorizeRoles("author"),
     editBlog
 )
+// soft delete: the blog goes to the trash, restorable until it is purged
+blogRouter.delete(
+    "/delete-blog/:id",
+    authLimiter,
+    isAuthenticatedUser,
+    authorizeRoles("author", "admin"),
+    deleteBlog
+)
+blogRouter.get(
+    "/trash",
+    authLimiter,
+    isAuthenticatedUser,
+    authorizeRoles("author", "admin"),
+    getTrash
+)
+blogRouter.put(
+    "/trash/:id/restore",
+    authLimiter,
+    isAuthenticatedUser,
+    authorizeRoles("author", "admin"),
+    restoreBlog
+)
+blogRouter.delete(
+    "/trash",
+    authLimiter,
+    isAuthenticatedUser,
+    authorizeRoles("admin"),
+    purgeExpiredTrash
+)
+blogRouter.delete(
+    "/trash/:id",
+    authLimiter,
+    isAuthenticatedUser,
+    authorizeRoles("admin"),
+    purgeBlog
+)
+// public url of a blog, former slugs redirect
+blogRouter.get(
+    "/blog/:slug",
+    authLimiter,
+    optionalAuthentication,
+    getBlogBySlug
+)
+// what to read next, kids accounts only get their age groups
+blogRouter.get(
+    "/blog/:id/related",
+    authLimiter,
+    optionalAuthentication,
+    getRelatedBlogs
+)
 blogRouter.get(
     "/get-blog/:id",
     authLimiter,
+    optionalAuthentication,
     getSingleBlog
 )
 blogRouter.get(
     "/get-blogs",
     authLimiter,
+    optionalAuthentication,
     getAllBlogs
 )
+// full-text search, the optional login restricts results for kids accounts
+blogRouter.get(
+    "/blogs/search",
+    authLimiter,
+    optionalAuthentication,
+    searchBlogs
+)
 blogRouter.get(
     "/all-blogs",
     authLimiter,
@@ -46,10 +105,16 @@ blogRouter.get(
     getDraftBlogs
 )
 blogRouter.get(
-    "/get-draft-blog/:id",
+    "/get-scheduled-blogs",
     authLimiter,
     isAuthenticatedUser,
     authorizeRoles("author"),
+    getScheduledBlogs
+)
+blogRouter.get(
+    "/get-draft-blog/:id",
+    authLimiter,
+    isAuthenticatedUser,
     getSingleDraftBlog
 )
 blogRouter.put(
@@ -64,10 +129,11 @@ blogRouter.put(
     isAuthenticatedUser,
     addAnswer
 )
-// put methode to add update the numbre of blogs read 
+// report the end of a view, counted as a read past the thresholds
 blogRouter.put(
     "/add-read-blog/:id",
-    authLimiter,
+    readLimiter,
+    optionalAuthentication,
     addReadBlog
 )
 // add likes to blog
@@ -77,6 +143,21 @@ blogRouter.put(
     isAuthenticatedUser,
     addLike
 )
+// remove the like of the logged in user
+blogRouter.delete(
+    "/add-likes/:id",
+    authLimiter,
+    isAuthenticatedUser,
+    removeLike
+)
+// recompute like counters from the stored likes
+blogRouter.put(
+    "/reconcile-likes",
+    authLimiter,
+    isAuthenticatedUser,
+    authorizeRoles("admin"),
+    reconcileLikeCounters
+)
 // add Review to blog with rating 
 blogRouter.put(
     "/add-review/:id",
@@ -92,5 +173,84 @@ blogRouter.put(
     authorizeRoles("author", "admin"),
     addReviewReply
 )
+// revision history of a blog
+blogRouter.get(
+    "/blog-revisions/:id",
+    authLimiter,
+    isAuthenticatedUser,
+    authorizeRoles("author", "moderator", "admin"),
+    getBlogRevisions
+)
+blogRouter.get(
+    "/blog-revisions/:id/diff",
+    authLimiter,
+    isAuthenticatedUser,
+    authorizeRoles("author", "moderator", "admin"),
+    getBlogRevisionDiff
+)
+blogRouter.put(
+    "/blog-revisions/:id/restore/:revision",
+    authLimiter,
+    isAuthenticatedUser,
+    authorizeRoles("author", "moderator", "admin"),
+    restoreBlogRevision
+)
+// editorial review workflow
+blogRouter.get(
+    "/blog-review/queue",
+    authLimiter,
+    isAuthenticatedUser,
+    authorizeRoles("moderator", "admin"),
+    getReviewQueue
+)
+blogRouter.put(
+    "/blog-review/:id/submit",
+    authLimiter,
+    isAuthenticatedUser,
+    authorizeRoles("author"),
+    submitBlogForReview
+)
+blogRouter.put(
+    "/blog-review/:id/withdraw",
+    authLimiter,
+    isAuthenticatedUser,
+    authorizeRoles("author", "moderator", "admin"),
+    withdrawBlogToDraft
+)
+blogRouter.put(
+    "/blog-review/:id/approve",
+    authLimiter,
+    isAuthenticatedUser,
+    authorizeRoles("moderator", "admin"),
+    approveBlog
+)
+blogRouter.put(
+    "/blog-review/:id/request-changes",
+    authLimiter,
+    isAuthenticatedUser,
+    authorizeRoles("moderator", "admin"),
+    requestBlogChanges
+)
+blogRouter.put(
+    "/blog-review/:id/publish",
+    authLimiter,
+    isAuthenticatedUser,
+    authorizeRoles("author", "moderator", "admin"),
+    publishBlog
+)
+blogRouter.put(
+    "/blog-review/:id/archive",
+    authLimiter,
+    isAuthenticatedUser,
+    authorizeRoles("author", "moderator", "admin"),
+    archiveBlog
+)
+blogRouter.get(
+    "/blog-review/:id/history",
+    authLimiter,
+    isAuthenticatedUser,
+    authorizeRoles("author", "moderator", "admin"),
+    getBlogStatusHistory
+)
 
 export default blogRouter;
\ No newline at end of file
@@ -379,8 +379,9 @@ router.put('/:id', isAuthenticated, updateBlog);
  *     tags: [Blogs]
  *     summary: Delete a blog post
  *     description: |
- *       Deletes a blog post. Only the author or admin can delete a blog.
- *       This action is irreversible and will also delete all associated comments and analytics.
+ *       Moves a blog post to the trash. Only the author or admin can delete a blog.
+ *       The blog can be restored until its retention period (TRASH_RETENTION_DAYS, 30 days by default)
+ *       is over, it is then purged with its comments and analytics.
  *     security:
  *       - bearerAuth: []
  *     parameters:
@@ -400,7 +401,7 @@ router.put('/:id', isAuthenticated, updateBlog);
  *               $ref: '#/components/schemas/SuccessResponse'
  *             example:
  *               success: true
- *               message: "Blog deleted successfully"
+ *               message: "Blog moved to the trash"
  *       401:
  *         $ref: '#/components/responses/UnauthorizedError'
  *       403:
@@ -0,0 +1,70 @@
+import express from 'express';
+import { isAuthenticatedUser, optionalAuthentication } from '../middlewares/auth';
+import { authLimiter } from '../middlewares/rateLimite';
+import { addBlogToReadingList, bookmarkBlog, createReadingList, deleteReadingList, getMyBookmarks, getMyReadingLists, getReadingList, removeBlogFromReadingList, unbookmarkBlog, updateReadingList } from '../controllers/bookmark.controller';
+
+const bookmarkRouter = express.Router();
+
+bookmarkRouter.get(
+    "/bookmarks",
+    authLimiter,
+    isAuthenticatedUser,
+    getMyBookmarks
+)
+bookmarkRouter.put(
+    "/bookmarks/:blogId",
+    authLimiter,
+    isAuthenticatedUser,
+    bookmarkBlog
+)
+bookmarkRouter.delete(
+    "/bookmarks/:blogId",
+    authLimiter,
+    isAuthenticatedUser,
+    unbookmarkBlog
+)
+bookmarkRouter.post(
+    "/reading-lists",
+    authLimiter,
+    isAuthenticatedUser,
+    createReadingList
+)
+bookmarkRouter.get(
+    "/reading-lists",
+    authLimiter,
+    isAuthenticatedUser,
+    getMyReadingLists
+)
+// shared lists are readable by anyone with the link
+bookmarkRouter.get(
+    "/reading-lists/:id",
+    authLimiter,
+    optionalAuthentication,
+    getReadingList
+)
+bookmarkRouter.put(
+    "/reading-lists/:id",
+    authLimiter,
+    isAuthenticatedUser,
+    updateReadingList
+)
+bookmarkRouter.delete(
+    "/reading-lists/:id",
+    authLimiter,
+    isAuthenticatedUser,
+    deleteReadingList
+)
+bookmarkRouter.put(
+    "/reading-lists/:id/blogs",
+    authLimiter,
+    isAuthenticatedUser,
+    addBlogToReadingList
+)
+bookmarkRouter.delete(
+    "/reading-lists/:id/blogs/:blogId",
+    authLimiter,
+    isAuthenticatedUser,
+    removeBlogFromReadingList
+)
+
+export default bookmarkRouter;
@@ -0,0 +1,49 @@
+import express from 'express';
+import { authorizeRoles, isAuthenticatedUser } from '../middlewares/auth';
+import { authLimiter } from '../middlewares/rateLimite';
+import { createCategory, deleteCategory, getCategories, getCategory, migrateCategories, updateCategory } from '../controllers/category.controller';
+
+const categoryRouter = express.Router();
+
+categoryRouter.get(
+    "/categories",
+    authLimiter,
+    getCategories
+)
+categoryRouter.get(
+    "/categories/:slug",
+    authLimiter,
+    getCategory
+)
+// taxonomy management is for admins only
+categoryRouter.post(
+    "/categories",
+    authLimiter,
+    isAuthenticatedUser,
+    authorizeRoles("admin"),
+    createCategory
+)
+categoryRouter.put(
+    "/categories/:id",
+    authLimiter,
+    isAuthenticatedUser,
+    authorizeRoles("admin"),
+    updateCategory
+)
+categoryRouter.delete(
+    "/categories/:id",
+    authLimiter,
+    isAuthenticatedUser,
+    authorizeRoles("admin"),
+    deleteCategory
+)
+// one-off mapping of the free-text categories of existing blogs
+categoryRouter.post(
+    "/categories/migrate",
+    authLimiter,
+    isAuthenticatedUser,
+    authorizeRoles("admin"),
+    migrateCategories
+)
+
+export default categoryRouter;
@@ -2,14 +2,26 @@ import express from "express";
 import { 
   createComment,
   getComments,
+  getCommentReplies,
   reactToComment,
   updateComment,
   deleteComment,
-  flagComment
+  flagComment,
+  migrateLegacyComments
 } from "../controllers/comments.controller";
-import { isAuthenticatedUser, authorizeRoles } from "../middlewares/auth";
+import {
+  getModerationQueue,
+  moderateComment,
+  bulkModerateComments,
+  getModerationStats
+} from "../controllers/commentModeration.controller";
+import { FLAG_REASONS } from "../models/comment.model";
+import { MODERATION_ACTIONS } from "../models/moderationAction.model";
+import { MAX_BULK_MODERATION, QUEUE_STATUSES } from "../services/commentModeration.service";
+import { MAX_REPLIES_LIMIT, MAX_THREAD_DEPTH } from "../utils/commentThreads";
+import { isAuthenticatedUser, authorizeRoles, optionalAuthentication } from "../middlewares/auth";
 import { validateRequest } from "../middlewares/validation";
-import { body, param } from "express-validator";
+import { body, param, query } from "express-validator";
 
 const commentsRouter = express.Router();
 
@@ -35,7 +47,7 @@ const reactValidation = [
 
 const flagValidation = [
   body('reason')
-    .isIn(['spam', 'inappropriate', 'harassment', 'other'])
+    .isIn([...FLAG_REASONS])
     .withMessage('Invalid flag reason'),
   body('details')
     .optional()
@@ -43,6 +55,54 @@ const flagValidation = [
     .withMessage('Details must be less than 500 characters')
 ];
 
+const threadValidation = [
+  query('sortBy').optional().isIn(['newest', 'oldest', 'popular']).withMessage('Invalid sort'),
+  query('depth').optional().isInt({ min: 0, max: MAX_THREAD_DEPTH }).withMessage(`depth must be between 0 and ${MAX_THREAD_DEPTH}`),
+  query('repliesLimit').optional().isInt({ min: 1, max: MAX_REPLIES_LIMIT }).withMessage(`repliesLimit must be between 1 and ${MAX_REPLIES_LIMIT}`)
+];
+
+const repliesValidation = [
+  query('cursor').optional().isString().withMessage('Invalid replies cursor'),
+  query('limit').optional().isInt({ min: 1, max: MAX_REPLIES_LIMIT }).withMessage(`limit must be between 1 and ${MAX_REPLIES_LIMIT}`),
+  query('depth').optional().isInt({ min: 0, max: MAX_THREAD_DEPTH }).withMessage(`depth must be between 0 and ${MAX_THREAD_DEPTH}`)
+];
+
+const queueValidation = [
+  query('status').optional().isIn(QUEUE_STATUSES).withMessage('Invalid queue status'),
+  query('reason').optional().isIn([...FLAG_REASONS]).withMessage('Invalid flag reason'),
+  query('blogId').optional().isMongoId().withMessage('Invalid blog ID'),
+  query('kids').optional().isBoolean().withMessage('kids must be true or false'),
+  query('held').optional().isBoolean().withMessage('held must be true or false')
+];
+
+const moderateValidation = [
+  body('action')
+    .isIn([...MODERATION_ACTIONS])
+    .withMessage('Invalid moderation action'),
+  body('content')
+    .if(body('action').equals('edit'))
+    .isLength({ min: 1, max: 2000 })
+    .withMessage('Content must be between 1 and 2000 characters'),
+  body('note')
+    .optional()
+    .isLength({ max: 500 })
+    .withMessage('Note must be less than 500 characters')
+];
+
+const bulkModerateValidation = [
+  body('commentIds')
+    .isArray({ min: 1, max: MAX_BULK_MODERATION })
+    .withMessage(`commentIds must list 1 to ${MAX_BULK_MODERATION} comments`),
+  body('commentIds.*').isMongoId().withMessage('Invalid comment ID'),
+  body('action')
+    .isIn(MODERATION_ACTIONS.filter(action => action !== 'edit'))
+    .withMessage('Bulk action must be approve, remove or escalate'),
+  body('note')
+    .optional()
+    .isLength({ max: 500 })
+    .withMessage('Note must be less than 500 characters')
+];
+
 // Routes
 commentsRouter.post(
   "/",
@@ -54,11 +114,22 @@ commentsRouter.post(
 
 commentsRouter.get(
   "/:blogId",
+  optionalAuthentication,
   param('blogId').isMongoId().withMessage('Invalid blog ID'),
+  threadValidation,
   validateRequest,
   getComments
 );
 
+commentsRouter.get(
+  "/:commentId/replies",
+  optionalAuthentication,
+  param('commentId').isMongoId().withMessage('Invalid comment ID'),
+  repliesValidation,
+  validateRequest,
+  getCommentReplies
+);
+
 commentsRouter.post(
   "/:commentId/react",
   isAuthenticatedUser,
@@ -94,4 +165,47 @@ commentsRouter.post(
   flagComment
 );
 
+// Moderation console
+commentsRouter.get(
+  "/moderation/queue",
+  isAuthenticatedUser,
+  authorizeRoles("moderator", "admin"),
+  queueValidation,
+  validateRequest,
+  getModerationQueue
+);
+
+commentsRouter.get(
+  "/moderation/stats",
+  isAuthenticatedUser,
+  authorizeRoles("moderator", "admin"),
+  getModerationStats
+);
+
+commentsRouter.post(
+  "/moderation/bulk",
+  isAuthenticatedUser,
+  authorizeRoles("moderator", "admin"),
+  bulkModerateValidation,
+  validateRequest,
+  bulkModerateComments
+);
+
+commentsRouter.post(
+  "/:commentId/moderate",
+  isAuthenticatedUser,
+  authorizeRoles("moderator", "admin"),
+  param('commentId').isMongoId().withMessage('Invalid comment ID'),
+  moderateValidation,
+  validateRequest,
+  moderateComment
+);
+
+commentsRouter.post(
+  "/migrate-legacy",
+  isAuthenticatedUser,
+  authorizeRoles("admin"),
+  migrateLegacyComments
+);
+
 export default commentsRouter;
@@ -0,0 +1,40 @@
+import express from 'express';
+import { isAuthenticatedUser } from '../middlewares/auth';
+import { authLimiter } from '../middlewares/rateLimite';
+import { getBlogContributors, getMyInvitations, inviteContributor, removeContributor, respondToInvitation } from '../controllers/contributor.controller';
+
+const contributorRouter = express.Router();
+
+contributorRouter.get(
+    "/contributions/invitations",
+    authLimiter,
+    isAuthenticatedUser,
+    getMyInvitations
+)
+contributorRouter.get(
+    "/blog/:id/contributors",
+    authLimiter,
+    isAuthenticatedUser,
+    getBlogContributors
+)
+// the author invites, the invited user answers
+contributorRouter.post(
+    "/blog/:id/contributors",
+    authLimiter,
+    isAuthenticatedUser,
+    inviteContributor
+)
+contributorRouter.put(
+    "/blog/:id/contributors/invitation",
+    authLimiter,
+    isAuthenticatedUser,
+    respondToInvitation
+)
+contributorRouter.delete(
+    "/blog/:id/contributors/:userId",
+    authLimiter,
+    isAuthenticatedUser,
+    removeContributor
+)
+
+export default contributorRouter;
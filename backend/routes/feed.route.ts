@@ -0,0 +1,20 @@
+import express from 'express';
+import { authLimiter } from '../middlewares/rateLimite';
+import { getFeed } from '../controllers/feed.controller';
+
+const feedRouter = express.Router();
+
+// site wide feed: /feeds/rss, /feeds/atom, /feeds/json
+feedRouter.get(
+    "/feeds/:format",
+    authLimiter,
+    getFeed
+)
+// feeds of an author, a category or a tag: /feeds/tag/science/rss
+feedRouter.get(
+    "/feeds/:scope/:value/:format",
+    authLimiter,
+    getFeed
+)
+
+export default feedRouter;
@@ -4,7 +4,15 @@ import { Request, Response, NextFunction } from 'express';
 // Import existing routes (fixed paths)
 import userRoutes from './user.route';
 import blogRoutes from './blog.route';
+import seriesRoutes from './series.route';
+import bookmarkRoutes from './bookmark.route';
+import feedRoutes from './feed.route';
+import seoRoutes from './seo.route';
+import categoryRoutes from './category.route';
+import tagRoutes from './tag.route';
+import contributorRoutes from './contributor.route';
 import commentRoutes from './comments.route';
+import aiRoutes from './ai.route';
 import notificationRoutes from './notification.route';
 import adsRoutes from './ads.route';
 import analyticsRoutes from './analytics.route';
@@ -47,8 +55,16 @@ router.get('/api', (req: Request, res: Response) => {
 // API v1 routes (organized and professional)
 router.use('/api/v1', userRoutes);
 router.use('/api/v1', blogRoutes);
+router.use('/api/v1', seriesRoutes);
+router.use('/api/v1', bookmarkRoutes);
+router.use('/api/v1', feedRoutes);
+router.use('/api/v1', seoRoutes);
+router.use('/api/v1', categoryRoutes);
+router.use('/api/v1', tagRoutes);
+router.use('/api/v1', contributorRoutes);
 router.use('/api/v1', notificationRoutes);
 router.use('/api/v1', adsRoutes);
+router.use('/api/v1', aiRoutes);
 router.use('/api/v1/comments', commentRoutes);
 router.use('/api/v1/analytics', analyticsRoutes);
 
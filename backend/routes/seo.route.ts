@@ -0,0 +1,18 @@
+import express from 'express';
+import { authLimiter } from '../middlewares/rateLimite';
+import { getSitemap, getSitemapIndex } from '../controllers/seo.controller';
+
+const seoRouter = express.Router();
+
+seoRouter.get(
+    "/sitemap.xml",
+    authLimiter,
+    getSitemapIndex
+)
+seoRouter.get(
+    "/sitemaps/:name",
+    authLimiter,
+    getSitemap
+)
+
+export default seoRouter;
@@ -0,0 +1,63 @@
+import express from 'express';
+import { authorizeRoles, isAuthenticatedUser, optionalAuthentication } from '../middlewares/auth';
+import { authLimiter } from '../middlewares/rateLimite';
+import { addBlogToSeries, createSeries, getAuthorSeries, getSeries, getSeriesProgress, removeBlogFromSeries, reorderSeries, updateSeries } from '../controllers/series.controller';
+
+const seriesRouter = express.Router();
+
+// authors build series out of their own blogs
+seriesRouter.post(
+    "/series",
+    authLimiter,
+    isAuthenticatedUser,
+    authorizeRoles("author", "admin"),
+    createSeries
+)
+seriesRouter.put(
+    "/series/:id",
+    authLimiter,
+    isAuthenticatedUser,
+    authorizeRoles("author", "admin"),
+    updateSeries
+)
+seriesRouter.put(
+    "/series/:id/blogs",
+    authLimiter,
+    isAuthenticatedUser,
+    authorizeRoles("author", "admin"),
+    addBlogToSeries
+)
+seriesRouter.delete(
+    "/series/:id/blogs/:blogId",
+    authLimiter,
+    isAuthenticatedUser,
+    authorizeRoles("author", "admin"),
+    removeBlogFromSeries
+)
+seriesRouter.put(
+    "/series/:id/reorder",
+    authLimiter,
+    isAuthenticatedUser,
+    authorizeRoles("author", "admin"),
+    reorderSeries
+)
+seriesRouter.get(
+    "/series/:id",
+    authLimiter,
+    getSeries
+)
+seriesRouter.get(
+    "/series/author/:authorId",
+    authLimiter,
+    optionalAuthentication,
+    getAuthorSeries
+)
+// reading progress of the logged in user
+seriesRouter.get(
+    "/series/:id/progress",
+    authLimiter,
+    isAuthenticatedUser,
+    getSeriesProgress
+)
+
+export default seriesRouter;
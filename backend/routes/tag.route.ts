@@ -0,0 +1,50 @@
+import express from 'express';
+import { authorizeRoles, isAuthenticatedUser, optionalAuthentication } from '../middlewares/auth';
+import { authLimiter } from '../middlewares/rateLimite';
+import { getTagPage, getTags, mergeTags, recountTags, renameTag, updateTag } from '../controllers/tag.controller';
+
+const tagRouter = express.Router();
+
+tagRouter.get(
+    "/tags",
+    authLimiter,
+    getTags
+)
+// tag page with its blogs, restricted for kids accounts
+tagRouter.get(
+    "/tags/:slug",
+    authLimiter,
+    optionalAuthentication,
+    getTagPage
+)
+// registry management is for admins only
+tagRouter.post(
+    "/tags/merge",
+    authLimiter,
+    isAuthenticatedUser,
+    authorizeRoles("admin"),
+    mergeTags
+)
+tagRouter.post(
+    "/tags/recount",
+    authLimiter,
+    isAuthenticatedUser,
+    authorizeRoles("admin"),
+    recountTags
+)
+tagRouter.put(
+    "/tags/:slug",
+    authLimiter,
+    isAuthenticatedUser,
+    authorizeRoles("admin"),
+    updateTag
+)
+tagRouter.put(
+    "/tags/:slug/rename",
+    authLimiter,
+    isAuthenticatedUser,
+    authorizeRoles("admin"),
+    renameTag
+)
+
+export default tagRouter;
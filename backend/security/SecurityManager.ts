@@ -6,6 +6,7 @@ import winston from 'winston';
 import crypto from 'crypto';
 import jwt from 'jsonwebtoken';
 import { redis } from '../utils/redis';
+import { maskUnsafeTerms } from '../utils/contentSafety';
 
 interface SecurityAuditResult {
   passed: boolean;
@@ -498,18 +499,8 @@ export class SecurityManager {
    */
   private filterKidsContent(content: any): any {
     if (typeof content === 'string') {
-      // Remove potentially inappropriate content
-      const inappropriateWords = [
-        // Add inappropriate words list here
-      ];
-      
-      let filtered = content;
-      inappropriateWords.forEach(word => {
-        const regex = new RegExp(word, 'gi');
-        filtered = filtered.replace(regex, '***');
-      });
-      
-      return filtered;
+      // Mask the words of the content-safety word lists
+      return maskUnsafeTerms(content);
     }
     
     return content;
@@ -1,6 +1,9 @@
 import BlogModel from "../models/blogs.model";
 import UserModel from "../models/user.model";
 import CommentModel from "../models/comment.model";
+import { ArticleAnalyticsModel } from "../models/analytics.model";
+import CategoryModel from "../models/category.model";
+import { creditedAuthorFilter } from "./blogContributor.service";
 // import { AdAnalyticsModel } from '../models/adAnalytics.model'; // Commented out - not needed for core analytics
 import { redis } from "../utils/redis";
 
@@ -11,7 +14,7 @@ export interface AnalyticsData {
   totalViews: number;
   totalRevenue: number;
   dailyActiveUsers: number;
-  topCategories: Array<{ category: string; count: number }>;
+  topCategories: Array<{ category: string; name: string; count: number }>;
   topAuthors: Array<{ author: string; views: number; blogs: number }>;
   recentActivity: Array<{ type: string; count: number; date: string }>;
   userGrowth: Array<{ date: string; users: number }>;
@@ -115,8 +118,9 @@ class AnalyticsService {
         userFollowers,
         userActivity
       ] = await Promise.all([
+        // co-authors are credited as well as the author
         BlogModel.find({ 
-          author: userId,
+          ...creditedAuthorFilter(userId),
           createdAt: { $gte: start, $lte: end }
         }),
         CommentModel.find({ 
@@ -214,6 +218,28 @@ class AnalyticsService {
     }
   }
 
+  /**
+   * Add to one of the daily counters of an article (bookmarks, likes, shares, ...)
+   */
+  async incrementArticleCounter(
+    blogId: string,
+    counter: 'bookmarks' | 'likes' | 'shares' | 'comments' | 'views' | 'uniqueViews',
+    delta: number = 1
+  ) {
+    try {
+      const date = new Date();
+      date.setUTCHours(0, 0, 0, 0);
+
+      await ArticleAnalyticsModel.updateOne(
+        { blogId, date },
+        { $inc: { [counter]: delta } },
+        { upsert: true }
+      );
+    } catch (error) {
+      console.error(`Error updating article ${counter}:`, error);
+    }
+  }
+
   /**
    * Get trending content
    */
@@ -334,7 +360,7 @@ class AnalyticsService {
     return activeUsers || 0;
   }
 
-  private async getTopCategories(start: Date, end: Date): Promise<Array<{ category: string; count: number }>> {
+  private async getTopCategories(start: Date, end: Date): Promise<Array<{ category: string; name: string; count: number }>> {
     return await BlogModel.aggregate([
       {
         $match: {
@@ -354,9 +380,18 @@ class AnalyticsService {
       {
         $limit: 10
       },
+      {
+        $lookup: {
+          from: CategoryModel.collection.name,
+          localField: '_id',
+          foreignField: 'slug',
+          as: 'managed'
+        }
+      },
       {
         $project: {
           category: '$_id',
+          name: { $ifNull: [{ $arrayElemAt: ['$managed.name', 0] }, '$_id'] },
           count: 1,
           _id: 0
         }
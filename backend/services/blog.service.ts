@@ -1,5 +1,12 @@
-import BlogModel from "../models/blogs.model"
+import BlogModel, { IBlog } from "../models/blogs.model"
+import userModel from "../models/user.model"
 import { Response } from "express"
+import { redis } from "../utils/redis"
+import { notificationService } from "./notification.service"
+import { blogListingService } from "./blogListing.service"
+import { translationService } from "./translation.service"
+import { relatedCacheKey } from "./relatedPosts.service"
+
 export const getAllBlogsService = async (res: Response) => {
     const Blogs = await BlogModel.find().sort({ createdAt: -1 }).lean()
 
@@ -8,3 +15,154 @@ export const getAllBlogsService = async (res: Response) => {
         Blogs
     })
 }
+
+// drop the cached listing pages, the cached single blog and its related posts
+export const invalidateBlogCache = async (blogId: string) => {
+    await blogListingService.invalidate()
+    await redis.del(blogId, relatedCacheKey(blogId))
+}
+
+// the same for many blogs, the listing pages are dropped once
+export const invalidateBlogCaches = async (blogIds: string[]) => {
+    if (!blogIds.length) return
+    await blogListingService.invalidate()
+    for (let start = 0; start < blogIds.length; start += 500) {
+        const ids = blogIds.slice(start, start + 500)
+        await redis.del(...ids, ...ids.map(relatedCacheKey))
+    }
+}
+
+// the post count of the author only covers blogs out of draft, the cached user is refreshed
+export const updateAuthorPosts = async (blog: Pick<IBlog, "_id" | "author">, delta: number, blogsOperator: "$addToSet" | "$pull" = "$addToSet") => {
+    const authorId = blog.author.toString()
+    const update: Record<string, any> = { [blogsOperator]: { blogs: blog._id } }
+    if (delta) update.$inc = { "account_info.total_posts": delta }
+
+    // never let the count go below zero
+    const filter = delta < 0 ? { _id: authorId, "account_info.total_posts": { $gt: 0 } } : { _id: authorId }
+    let user = await userModel.findOneAndUpdate(filter, update, { new: true })
+    if (!user && delta < 0) {
+        user = await userModel.findByIdAndUpdate(authorId, { [blogsOperator]: { blogs: blog._id } }, { new: true })
+    }
+    if (user) {
+        await redis.set(authorId, JSON.stringify(user))
+    }
+}
+
+// recompute activity.engagement_score used by the trending listing, decayed by the age of the blog
+export const refreshTrendingScores = async (now: Date = new Date()) => {
+    await BlogModel.updateMany(
+        { isPublished: true, draft: false },
+        [{
+            $set: {
+                "activity.engagement_score": {
+                    $divide: [
+                        {
+                            $add: [
+                                { $ifNull: ["$activity.total_reads", 0] },
+                                { $multiply: [{ $ifNull: ["$activity.total_likes", 0] }, 3] },
+                                { $multiply: [{ $ifNull: ["$activity.total_comments", 0] }, 5] }
+                            ]
+                        },
+                        {
+                            $pow: [
+                                { $add: [{ $divide: [{ $subtract: [now, "$published_at"] }, 3600000] }, 2] },
+                                1.5
+                            ]
+                        }
+                    ]
+                }
+            }
+        }]
+    )
+    await blogListingService.invalidate()
+}
+
+// publish blogs whose publishAt has passed, returns the number of blogs published
+// kids content is only published once it has been approved
+export const publishScheduledBlogs = async (now: Date = new Date()) => {
+    const due = await BlogModel.find({
+        isPublished: false,
+        deletedAt: null,
+        publishAt: { $lte: now },
+        $or: [
+            { status: "approved" },
+            { isKidsContent: { $ne: true }, status: { $nin: ["in_review", "changes_requested", "archived"] } }
+        ]
+    }).select("_id status draft").lean()
+
+    let published = 0
+    for (const { _id, status, draft } of due) {
+        const from = status || "draft"
+        // claim the blog atomically so concurrent runs never publish it twice
+        const blog = await BlogModel.findOneAndUpdate(
+            { _id, isPublished: false, publishAt: { $lte: now }, status: status ?? null, draft: draft ?? null },
+            {
+                $set: { isPublished: true, status: "published", draft: false, published_at: now },
+                $unset: { publishAt: 1 },
+                $push: { statusHistory: { from, to: "published", comment: "Scheduled publication", at: now } }
+            },
+            // published_at is the creation timestamp until the blog goes live, mongoose keeps it unless told otherwise
+            { new: true, timestamps: { createdAt: false }, overwriteImmutable: true }
+        )
+        if (!blog) continue
+
+        published++
+        const blogId = String(_id)
+        const authorId = blog.author.toString()
+        if (draft) {
+            await updateAuthorPosts(blog, 1)
+        }
+        await invalidateBlogCache(blogId)
+        await translationService.syncGroup(blog)
+        await notificationService.notifyOfBlogStatusChange(authorId, undefined, blog.title, blogId, from, "published")
+        await notificationService.notifyFollowersOfNewBlog(authorId, blog.title, blogId)
+    }
+    return published
+}
+
+// unpublish blogs whose unpublishAt has passed, returns the number of blogs unpublished
+export const unpublishExpiredBlogs = async (now: Date = new Date()) => {
+    const due = await BlogModel.find({
+        isPublished: true,
+        unpublishAt: { $lte: now }
+    }).select("_id").lean()
+
+    let unpublished = 0
+    for (const { _id } of due) {
+        const blog = await BlogModel.findOneAndUpdate(
+            { _id, isPublished: true, unpublishAt: { $lte: now } },
+            {
+                $set: { isPublished: false, status: "archived" },
+                $unset: { unpublishAt: 1 },
+                $push: { statusHistory: { from: "published", to: "archived", comment: "Scheduled unpublication", at: now } }
+            },
+            { new: true }
+        )
+        if (!blog) continue
+
+        unpublished++
+        const blogId = String(_id)
+        await invalidateBlogCache(blogId)
+        await translationService.syncGroup(blog)
+        await notificationService.notifyOfBlogStatusChange(blog.author.toString(), undefined, blog.title, blogId, "published", "archived")
+    }
+    return unpublished
+}
+
+// give a slug to blogs created before slugs were generated, returns the number of blogs updated
+export const backfillBlogSlugs = async () => {
+    const blogs = await BlogModel.find({
+        $or: [{ slug: { $exists: false } }, { slug: null }, { slug: "" }]
+    }).select("_id title slug previousSlugs")
+
+    let updated = 0
+    for (const blog of blogs) {
+        // the validate hook of the model picks a unique slug from the title
+        await blog.validate(["slug"])
+        await BlogModel.updateOne({ _id: blog._id }, { $set: { slug: blog.slug } })
+        await redis.del(String(blog._id))
+        updated++
+    }
+    return updated
+}
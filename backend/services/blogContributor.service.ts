@@ -0,0 +1,145 @@
+import mongoose from "mongoose";
+import BlogModel, { CONTRIBUTOR_ROLES, ContributorRole, IBlog } from "../models/blogs.model";
+import UserModel from "../models/user.model";
+import ErrorHandler from "../utils/ErrorHandler";
+import { notificationService } from "./notification.service";
+
+// contributor roles allowed to change the blog content
+export const EDITING_ROLES: ContributorRole[] = ['co-author', 'editor'];
+
+// roles credited next to the author in analytics
+export const CREDITED_ROLES: ContributorRole[] = ['co-author'];
+
+const MAX_CONTRIBUTORS = 10;
+
+/**
+ * Filter matching the blogs a user is credited on: as author or accepted co-author
+ */
+export const creditedAuthorFilter = (userId: string) => ({
+  $or: [
+    { author: new mongoose.Types.ObjectId(userId) },
+    { contributors: { $elemMatch: { user: new mongoose.Types.ObjectId(userId), role: { $in: CREDITED_ROLES }, status: 'accepted' } } }
+  ]
+});
+
+const isAuthor = (blog: IBlog, userId: string) => blog.author.toString() === userId.toString();
+
+const acceptedRole = (blog: IBlog, userId: string): ContributorRole | null =>
+  blog.contributors?.find(contributor => contributor.user.toString() === userId.toString() && contributor.status === 'accepted')?.role || null;
+
+class BlogContributorService {
+  /**
+   * Author or accepted co-author / editor
+   */
+  canEdit(blog: IBlog, userId: string): boolean {
+    if (isAuthor(blog, userId)) return true;
+    const role = acceptedRole(blog, userId);
+    return Boolean(role && EDITING_ROLES.includes(role));
+  }
+
+  /**
+   * Author or any accepted contributor, reviewers included
+   */
+  canView(blog: IBlog, userId: string): boolean {
+    return isAuthor(blog, userId) || Boolean(acceptedRole(blog, userId));
+  }
+
+  /**
+   * Invite a user on a blog, only the author invites.
+   * Throws an ErrorHandler with the HTTP status to answer when the invitation is refused.
+   */
+  async invite(blog: IBlog, inviterId: string, userId: string, role: ContributorRole): Promise<IBlog> {
+    if (!isAuthor(blog, inviterId)) {
+      throw new ErrorHandler('Only the author can invite contributors', 403);
+    }
+    if (!CONTRIBUTOR_ROLES.includes(role)) {
+      throw new ErrorHandler(`Role must be one of ${CONTRIBUTOR_ROLES.join(', ')}`, 400);
+    }
+    if (!mongoose.Types.ObjectId.isValid(userId) || !(await UserModel.exists({ _id: userId }))) {
+      throw new ErrorHandler('User not found', 404);
+    }
+    if (isAuthor(blog, userId)) {
+      throw new ErrorHandler('The author cannot be a contributor', 400);
+    }
+    if (blog.contributors.some(contributor => contributor.user.toString() === userId)) {
+      throw new ErrorHandler('User already invited on this blog', 409);
+    }
+    if (blog.contributors.length >= MAX_CONTRIBUTORS) {
+      throw new ErrorHandler(`A blog cannot have more than ${MAX_CONTRIBUTORS} contributors`, 400);
+    }
+
+    blog.contributors.push({
+      user: new mongoose.Types.ObjectId(userId),
+      role,
+      status: 'pending',
+      invitedBy: new mongoose.Types.ObjectId(inviterId),
+      invitedAt: new Date()
+    });
+    await blog.save();
+
+    await notificationService.notifyOfContributorInvitation(userId, inviterId, role, blog.title, String(blog._id));
+    return blog;
+  }
+
+  /**
+   * Accept or decline a pending invitation, declining removes it
+   */
+  async respond(blog: IBlog, userId: string, accept: boolean): Promise<IBlog> {
+    const invitation = blog.contributors.find(contributor => contributor.user.toString() === userId.toString());
+    if (!invitation || invitation.status !== 'pending') {
+      throw new ErrorHandler('No pending invitation on this blog', 404);
+    }
+
+    if (accept) {
+      invitation.status = 'accepted';
+      invitation.respondedAt = new Date();
+    } else {
+      blog.contributors = blog.contributors.filter(contributor => contributor !== invitation);
+    }
+    await blog.save();
+    return blog;
+  }
+
+  /**
+   * Remove a contributor or cancel an invitation, by the author or by the contributor leaving
+   */
+  async remove(blog: IBlog, actorId: string, userId: string): Promise<IBlog> {
+    if (!isAuthor(blog, actorId) && actorId.toString() !== userId) {
+      throw new ErrorHandler('Only the author can remove contributors', 403);
+    }
+    const contributors = blog.contributors.filter(contributor => contributor.user.toString() !== userId);
+    if (contributors.length === blog.contributors.length) {
+      throw new ErrorHandler('Contributor not found', 404);
+    }
+
+    blog.contributors = contributors;
+    await blog.save();
+    return blog;
+  }
+
+  /**
+   * Pending invitations of a user, newest first
+   */
+  async pendingInvitations(userId: string) {
+    const blogs = await BlogModel.find({
+      contributors: { $elemMatch: { user: new mongoose.Types.ObjectId(userId), status: 'pending' } }
+    })
+      .select('title slug banner author contributors')
+      .populate('author', 'name username avatar')
+      .lean();
+
+    return blogs
+      .map(blog => {
+        const invitation = blog.contributors.find(contributor => contributor.user.toString() === userId.toString())!;
+        return {
+          blog: { _id: blog._id, title: blog.title, slug: blog.slug, banner: blog.banner, author: blog.author },
+          role: invitation.role,
+          invitedBy: invitation.invitedBy,
+          invitedAt: invitation.invitedAt
+        };
+      })
+      .sort((a, b) => new Date(b.invitedAt).getTime() - new Date(a.invitedAt).getTime());
+  }
+}
+
+export const blogContributorService = new BlogContributorService();
@@ -0,0 +1,101 @@
+import BlogModel, { IBlog } from "../models/blogs.model";
+import BlogLikeModel from "../models/blogLike.model";
+import { redis } from "../utils/redis";
+import { analyticsService } from "./analytics.service";
+import { notificationService } from "./notification.service";
+
+class BlogLikeService {
+  /**
+   * Like a blog, returns false when the user already liked it
+   */
+  async like(userId: string, blog: IBlog): Promise<boolean> {
+    const blogId = String(blog._id);
+    try {
+      await BlogLikeModel.create({ user: userId, blog: blogId });
+    } catch (error: any) {
+      // unique index on user + blog
+      if (error.code === 11000) return false;
+      throw error;
+    }
+
+    await BlogModel.updateOne({ _id: blogId }, { $inc: { 'activity.total_likes': 1 } });
+    await redis.del(blogId);
+    await analyticsService.incrementArticleCounter(blogId, 'likes', 1);
+    await notificationService.notifyOfBlogReaction(blog.author.toString(), userId, 'like', blog.title, blogId);
+    return true;
+  }
+
+  /**
+   * Remove a like, returns false when the user had not liked the blog
+   */
+  async unlike(userId: string, blogId: string): Promise<boolean> {
+    const removed = await BlogLikeModel.findOneAndDelete({ user: userId, blog: blogId });
+    if (!removed) return false;
+
+    await BlogModel.updateOne(
+      { _id: blogId, 'activity.total_likes': { $gt: 0 } },
+      { $inc: { 'activity.total_likes': -1 } }
+    );
+    await redis.del(blogId);
+    await analyticsService.incrementArticleCounter(blogId, 'likes', -1);
+    return true;
+  }
+
+  /**
+   * Ids of the given blogs liked by the user
+   */
+  async likedIds(userId: string | undefined, blogIds: string[]): Promise<Set<string>> {
+    if (!userId || !blogIds.length) return new Set();
+    const likes = await BlogLikeModel.find({ user: userId, blog: { $in: blogIds } }).select('blog').lean();
+    return new Set(likes.map(like => like.blog.toString()));
+  }
+
+  /**
+   * Reset activity.total_likes of every blog to its legacy likes plus the stored likes.
+   * Blogs from before likes were stored per user first get their legacy likes recorded,
+   * what their counter holds beyond the stored likes, so those likes are never lost.
+   */
+  async reconcileCounters(): Promise<number> {
+    const counts: { _id: string; count: number }[] = await BlogLikeModel.aggregate([
+      { $group: { _id: '$blog', count: { $sum: 1 } } }
+    ]);
+    const likedIds = counts.map(({ _id }) => _id);
+    const legacy = { $ifNull: ['$activity.legacy_likes', 0] };
+
+    // once per blog, a blog liked only since likes are stored gets a baseline of zero
+    const withoutBaseline = { 'activity.legacy_likes': { $exists: false } };
+    await Promise.all([
+      counts.length
+        ? BlogModel.bulkWrite(counts.map(({ _id, count }) => ({
+          updateOne: {
+            filter: { _id, ...withoutBaseline },
+            update: [{ $set: { 'activity.legacy_likes': { $max: [0, { $subtract: [{ $ifNull: ['$activity.total_likes', 0] }, count] }] } } }]
+          }
+        })))
+        : null,
+      BlogModel.updateMany(
+        { _id: { $nin: likedIds }, ...withoutBaseline },
+        [{ $set: { 'activity.legacy_likes': { $max: [0, { $ifNull: ['$activity.total_likes', 0] }] } } }]
+      )
+    ]);
+
+    const [withLikes, withoutLikes] = await Promise.all([
+      counts.length
+        ? BlogModel.bulkWrite(counts.map(({ _id, count }) => ({
+          updateOne: {
+            filter: { _id, $expr: { $ne: ['$activity.total_likes', { $add: [legacy, count] }] } },
+            update: [{ $set: { 'activity.total_likes': { $add: [legacy, count] } } }]
+          }
+        })))
+        : null,
+      BlogModel.updateMany(
+        { _id: { $nin: likedIds }, $expr: { $ne: ['$activity.total_likes', legacy] } },
+        [{ $set: { 'activity.total_likes': legacy } }]
+      )
+    ]);
+
+    return (withLikes?.modifiedCount || 0) + withoutLikes.modifiedCount;
+  }
+}
+
+export const blogLikeService = new BlogLikeService();
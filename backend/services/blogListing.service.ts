@@ -0,0 +1,189 @@
+import crypto from "crypto";
+import mongoose from "mongoose";
+import BlogModel from "../models/blogs.model";
+import { redis } from "../utils/redis";
+import { CursorPaginationMeta } from "../types/api.types";
+import { Language } from "../utils/languages";
+import { translationService } from "./translation.service";
+
+export type BlogSortMode = 'newest' | 'trending' | 'most_read' | 'top_rated';
+
+export const BLOG_SORT_MODES: BlogSortMode[] = ['newest', 'trending', 'most_read', 'top_rated'];
+
+export interface BlogListingParams {
+  limit: number;
+  cursor?: string;
+  sort: BlogSortMode;
+  // category slugs, a category and its sub categories
+  categories?: string[];
+  tags?: string[];
+  author?: string;
+  ageGroup?: string;
+  isKidsContent?: boolean;
+  featured?: boolean;
+  from?: Date;
+  to?: Date;
+  // restriction applied for kids accounts, see utils/ageGroups
+  audienceFilter?: Record<string, any>;
+  // one variant per translation group, in this language when it exists
+  language?: Language;
+}
+
+interface ListingCursor {
+  v: any;
+  id: string;
+  p: number;
+}
+
+// every mode sorts descending on one field, ties broken by _id
+const SORT_FIELDS: Record<BlogSortMode, string> = {
+  newest: 'published_at',
+  trending: 'activity.engagement_score',
+  most_read: 'activity.total_reads',
+  top_rated: 'ratings'
+};
+
+const LISTING_VERSION_KEY = 'blogs:list:version';
+const LISTING_CACHE_TTL = 300; // 5 minutes
+
+export class InvalidCursorError extends Error {}
+
+class BlogListingService {
+  /**
+   * Cursor-paginated listing of published blogs, cached per query shape
+   */
+  async list(params: BlogListingParams) {
+    const cursor = params.cursor ? this.decodeCursor(params.cursor) : null;
+    const cacheKey = await this.cacheKey(params);
+
+    const cached = await redis.get(cacheKey);
+    if (cached) {
+      return typeof cached === 'string' ? JSON.parse(cached) : cached;
+    }
+
+    const sortField = SORT_FIELDS[params.sort];
+    const filter = this.buildFilter(params);
+    const query: Record<string, any> = { ...filter };
+    if (cursor) {
+      query.$and = [...(query.$and || []), this.afterCursor(sortField, cursor)];
+    }
+
+    const [blogs, total] = await Promise.all([
+      BlogModel.find(query)
+        .select('-content -questions -reviews -viewHistory')
+        .populate('author', 'name username avatar')
+        .sort({ [sortField]: -1, _id: -1 })
+        .limit(params.limit + 1)
+        .lean(),
+      BlogModel.countDocuments(filter)
+    ]);
+
+    const hasNext = blogs.length > params.limit;
+    const page = cursor?.p || 1;
+    const items = blogs.slice(0, params.limit);
+    const last: any = items[items.length - 1];
+    const totalPages = Math.ceil(total / params.limit);
+
+    const pagination: CursorPaginationMeta = {
+      page,
+      limit: params.limit,
+      total,
+      totalPages,
+      hasNext,
+      hasPrev: page > 1,
+      nextCursor: hasNext && last
+        ? this.encodeCursor({ v: this.readPath(last, sortField), id: String(last._id), p: page + 1 })
+        : null
+    };
+
+    const result = { blogs: items, pagination };
+    await redis.setex(cacheKey, LISTING_CACHE_TTL, JSON.stringify(result));
+    return result;
+  }
+
+  /**
+   * Drop every cached listing page by moving to a new cache generation
+   */
+  async invalidate() {
+    await redis.incr(LISTING_VERSION_KEY);
+  }
+
+  private buildFilter(params: BlogListingParams): Record<string, any> {
+    const filter: Record<string, any> = {
+      isPublished: true,
+      draft: false,
+      ...(params.audienceFilter || {})
+    };
+    if (params.categories?.length) filter.category = { $in: params.categories };
+    if (params.tags?.length) filter.tags = { $all: params.tags };
+    if (params.author) filter.author = new mongoose.Types.ObjectId(params.author);
+    if (params.featured !== undefined) filter.featured = params.featured;
+    if (params.isKidsContent !== undefined && filter.isKidsContent === undefined) {
+      filter.isKidsContent = params.isKidsContent;
+    }
+    if (params.ageGroup) {
+      // never widen the audience restriction of a kids account
+      filter.ageGroup = filter.ageGroup?.$in
+        ? { $in: filter.ageGroup.$in.filter((group: string) => group === params.ageGroup) }
+        : params.ageGroup;
+    }
+    if (params.language) {
+      filter.$and = [...(filter.$and || []), translationService.listingFilter(params.language)];
+    }
+    if (params.from || params.to) {
+      filter.published_at = {
+        ...(params.from ? { $gte: params.from } : {}),
+        ...(params.to ? { $lte: params.to } : {})
+      };
+    }
+    return filter;
+  }
+
+  private async cacheKey(params: BlogListingParams) {
+    const version = (await redis.get(LISTING_VERSION_KEY)) || 0;
+    const shape = JSON.stringify({
+      ...params,
+      tags: params.tags ? [...params.tags].sort() : undefined
+    });
+    const hash = crypto.createHash('sha1').update(shape).digest('hex');
+    return `blogs:list:${version}:${hash}`;
+  }
+
+  // blogs after the cursor in the sort order, null and missing values sort last when descending
+  private afterCursor(sortField: string, cursor: ListingCursor): Record<string, any> {
+    const id = new mongoose.Types.ObjectId(cursor.id);
+    if (cursor.v === null || cursor.v === undefined) {
+      return { [sortField]: null, _id: { $lt: id } };
+    }
+    const value = sortField === 'published_at' ? new Date(cursor.v) : cursor.v;
+    return {
+      $or: [
+        { [sortField]: { $lt: value } },
+        { [sortField]: value, _id: { $lt: id } },
+        { [sortField]: null }
+      ]
+    };
+  }
+
+  private readPath(doc: any, path: string) {
+    return path.split('.').reduce((value, key) => value?.[key], doc) ?? null;
+  }
+
+  private encodeCursor(cursor: ListingCursor) {
+    return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+  }
+
+  private decodeCursor(raw: string): ListingCursor {
+    try {
+      const cursor = JSON.parse(Buffer.from(raw, 'base64url').toString('utf8'));
+      if (!mongoose.Types.ObjectId.isValid(cursor.id) || !(cursor.p >= 1)) {
+        throw new Error();
+      }
+      return cursor;
+    } catch (error) {
+      throw new InvalidCursorError('Invalid pagination cursor');
+    }
+  }
+}
+
+export const blogListingService = new BlogListingService();
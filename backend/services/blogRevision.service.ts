@@ -0,0 +1,113 @@
+import BlogRevisionModel, { IBlogRevision } from "../models/blogRevision.model";
+import { IBlog } from "../models/blogs.model";
+import { diffBlocks, extractBlocks, summarizeDiff } from "../utils/contentBlocks";
+
+// attempts at taking the next revision number when concurrent edits race for it
+const MAX_REVISION_ATTEMPTS = 5;
+
+const isDuplicateKey = (error: any) => error?.code === 11000;
+
+class BlogRevisionService {
+  /**
+   * Store an immutable snapshot of the blog as its next revision.
+   * The unique index on { blogId, revision } refuses a number taken by a concurrent edit, the next one is tried.
+   */
+  async recordRevision(blog: IBlog, editorId: string, restoredFrom?: number): Promise<IBlogRevision> {
+    for (let attempt = 1; ; attempt++) {
+      const latest = await BlogRevisionModel.findOne({ blogId: blog._id })
+        .sort({ revision: -1 })
+        .select('revision')
+        .lean();
+
+      try {
+        return await this.createRevision(blog, (latest?.revision || 0) + 1, editorId, restoredFrom);
+      } catch (error) {
+        if (!isDuplicateKey(error) || attempt >= MAX_REVISION_ATTEMPTS) throw error;
+      }
+    }
+  }
+
+  /**
+   * Store the current state of a blog created before revisions as its revision 1,
+   * call before changing the blog so that its first edit can be undone
+   */
+  async recordBaseline(blog: IBlog): Promise<void> {
+    if (await BlogRevisionModel.exists({ blogId: blog._id })) return;
+    try {
+      await this.createRevision(blog, 1, blog.author.toString());
+    } catch (error) {
+      // a concurrent edit recorded it first
+      if (!isDuplicateKey(error)) throw error;
+    }
+  }
+
+  private createRevision(blog: IBlog, revision: number, editorId: string, restoredFrom?: number) {
+    return BlogRevisionModel.create({
+      blogId: blog._id,
+      revision,
+      title: blog.title,
+      des: blog.des,
+      banner: blog.banner,
+      content: blog.content,
+      tags: blog.tags,
+      editedBy: editorId,
+      restoredFrom
+    });
+  }
+
+  /**
+   * List revisions of a blog, newest first, without their content
+   */
+  async listRevisions(blogId: string, page: number = 1, limit: number = 20) {
+    const [revisions, total] = await Promise.all([
+      BlogRevisionModel.find({ blogId })
+        .select('-content')
+        .populate('editedBy', 'name username avatar')
+        .sort({ revision: -1 })
+        .limit(limit)
+        .skip((page - 1) * limit)
+        .lean(),
+      BlogRevisionModel.countDocuments({ blogId })
+    ]);
+
+    return {
+      revisions,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit)
+      }
+    };
+  }
+
+  async getRevision(blogId: string, revision: number) {
+    return BlogRevisionModel.findOne({ blogId, revision }).lean();
+  }
+
+  /**
+   * Block-by-block diff of the content of two revisions plus metadata changes
+   */
+  async diffRevisions(blogId: string, fromRevision: number, toRevision: number) {
+    const [from, to] = await Promise.all([
+      this.getRevision(blogId, fromRevision),
+      this.getRevision(blogId, toRevision)
+    ]);
+    if (!from || !to) return null;
+
+    const blocks = diffBlocks(extractBlocks(from.content), extractBlocks(to.content));
+    const fields = (['title', 'des', 'banner', 'tags'] as const)
+      .filter(field => JSON.stringify(from[field]) !== JSON.stringify(to[field]))
+      .map(field => ({ field, before: from[field], after: to[field] }));
+
+    return {
+      from: fromRevision,
+      to: toRevision,
+      fields,
+      summary: summarizeDiff(blocks),
+      blocks
+    };
+  }
+}
+
+export const blogRevisionService = new BlogRevisionService();
@@ -0,0 +1,172 @@
+import BlogModel from "../models/blogs.model";
+
+export interface BlogSearchParams {
+  q: string;
+  page: number;
+  limit: number;
+  category?: string;
+  tags?: string[];
+  ageGroup?: string;
+  educationalLevel?: string;
+  // restriction applied for kids accounts, see utils/ageGroups
+  audienceFilter?: Record<string, any>;
+}
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+const SNIPPET_LENGTH = 160;
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+class BlogSearchService {
+  /**
+   * Relevance-ranked text search over published blogs with facet counts
+   */
+  async search(params: BlogSearchParams) {
+    const { q, page, limit } = params;
+
+    const match: Record<string, any> = {
+      $text: { $search: q },
+      isPublished: true,
+      draft: false,
+      ...(params.audienceFilter || {})
+    };
+    if (params.category) match.category = params.category;
+    if (params.tags?.length) match.tags = { $all: params.tags };
+    if (params.educationalLevel) match.educationalLevel = params.educationalLevel;
+    if (params.ageGroup) {
+      // never widen the audience restriction of a kids account
+      match.ageGroup = match.ageGroup?.$in
+        ? { $in: match.ageGroup.$in.filter((group: string) => group === params.ageGroup) }
+        : params.ageGroup;
+    }
+
+    const facetCount = (field: string, unwind = false) => [
+      ...(unwind ? [{ $unwind: `$${field}` }] : []),
+      { $match: { [field]: { $nin: [null, ''] } } },
+      { $group: { _id: `$${field}`, count: { $sum: 1 } } },
+      { $sort: { count: -1 as const, _id: 1 as const } },
+      { $limit: 20 },
+      { $project: { _id: 0, value: '$_id', count: 1 } }
+    ];
+
+    const [result] = await BlogModel.aggregate([
+      { $match: match },
+      { $addFields: { score: { $meta: 'textScore' } } },
+      {
+        $facet: {
+          results: [
+            { $sort: { score: -1, published_at: -1 } },
+            { $skip: (page - 1) * limit },
+            { $limit: limit },
+            {
+              $lookup: {
+                from: 'users',
+                localField: 'author',
+                foreignField: '_id',
+                as: 'author',
+                pipeline: [{ $project: { name: 1, username: 1, avatar: 1 } }]
+              }
+            },
+            { $unwind: { path: '$author', preserveNullAndEmptyArrays: true } },
+            {
+              $project: {
+                blog_id: 1,
+                title: 1,
+                des: 1,
+                banner: 1,
+                tags: 1,
+                category: 1,
+                ageGroup: 1,
+                educationalLevel: 1,
+                isKidsContent: 1,
+                slug: 1,
+                author: 1,
+                activity: 1,
+                published_at: 1,
+                searchText: 1,
+                score: 1
+              }
+            }
+          ],
+          total: [{ $count: 'count' }],
+          category: facetCount('category'),
+          tags: facetCount('tags', true),
+          ageGroup: facetCount('ageGroup'),
+          educationalLevel: facetCount('educationalLevel')
+        }
+      }
+    ]);
+
+    const total: number = result?.total[0]?.count || 0;
+    const terms = this.queryTerms(q);
+    const results = (result?.results || []).map(({ searchText, ...blog }: any) => ({
+      ...blog,
+      highlight: {
+        title: this.highlight(blog.title || '', terms),
+        snippet: this.snippet(`${blog.des || ''}\n${searchText || ''}`, terms)
+      }
+    }));
+
+    return {
+      results,
+      facets: {
+        category: (result?.category || []) as FacetCount[],
+        tags: (result?.tags || []) as FacetCount[],
+        ageGroup: (result?.ageGroup || []) as FacetCount[],
+        educationalLevel: (result?.educationalLevel || []) as FacetCount[]
+      },
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit)
+      }
+    };
+  }
+
+  // words of the query, quoted phrases and negations included as plain words
+  private queryTerms(q: string): string[] {
+    return q
+      .replace(/["-]/g, ' ')
+      .split(/\s+/)
+      .map(term => term.trim())
+      .filter(term => term.length > 1);
+  }
+
+  /**
+   * Escape the text and wrap every query term in <mark>
+   */
+  private highlight(text: string, terms: string[]): string {
+    const escaped = escapeHtml(text);
+    if (!terms.length) return escaped;
+    const pattern = new RegExp(`(${terms.map(term => escapeRegExp(escapeHtml(term))).join('|')})`, 'gi');
+    return escaped.replace(pattern, '<mark>$1</mark>');
+  }
+
+  /**
+   * Window of text around the first matching term, highlighted
+   */
+  private snippet(text: string, terms: string[]): string {
+    const flat = text.replace(/\s+/g, ' ').trim();
+    const lower = flat.toLowerCase();
+    const positions = terms
+      .map(term => lower.indexOf(term.toLowerCase()))
+      .filter(position => position >= 0);
+    const first = positions.length ? Math.min(...positions) : 0;
+
+    const start = Math.max(0, first - SNIPPET_LENGTH / 4);
+    const end = Math.min(flat.length, start + SNIPPET_LENGTH);
+    const window = flat.slice(start, end);
+
+    return `${start > 0 ? '…' : ''}${this.highlight(window, terms)}${end < flat.length ? '…' : ''}`;
+  }
+}
+
+export const blogSearchService = new BlogSearchService();
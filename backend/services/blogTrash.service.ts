@@ -0,0 +1,131 @@
+import mongoose from "mongoose";
+import BlogModel, { IBlog } from "../models/blogs.model";
+import CommentModel from "../models/comment.model";
+import ModerationActionModel from "../models/moderationAction.model";
+import BlogLikeModel from "../models/blogLike.model";
+import BlogRevisionModel from "../models/blogRevision.model";
+import { BookmarkModel, ReadingListModel } from "../models/bookmark.model";
+import { ArticleAnalyticsModel } from "../models/analytics.model";
+import SeriesModel from "../models/series.model";
+import { redis } from "../utils/redis";
+import { invalidateBlogCache, updateAuthorPosts } from "./blog.service";
+import { tagService } from "./tag.service";
+import { translationService } from "./translation.service";
+
+const DEFAULT_RETENTION_DAYS = 30;
+
+// days a trashed blog can be restored before the purge cron deletes it
+export const trashRetentionDays = () =>
+  parseInt(process.env.TRASH_RETENTION_DAYS || '', 10) || DEFAULT_RETENTION_DAYS;
+
+class BlogTrashService {
+  /**
+   * Move a blog to the trash, hidden everywhere until restored or purged.
+   * Returns null when the blog is already in the trash.
+   */
+  async moveToTrash(blogId: string, actorId: string, now: Date = new Date()): Promise<IBlog | null> {
+    const purgeAt = new Date(now.getTime() + trashRetentionDays() * 24 * 60 * 60 * 1000);
+    // claimed atomically so concurrent deletes never count the blog twice;
+    // the status is kept so a restore puts the blog back where it was
+    const blog = await BlogModel.findOneAndUpdate(
+      { _id: blogId, deletedAt: null },
+      [{
+        $set: {
+          status: { $ifNull: ['$status', { $cond: ['$isPublished', 'published', 'draft'] }] },
+          isPublished: false,
+          deletedAt: now,
+          deletedBy: new mongoose.Types.ObjectId(actorId),
+          purgeAt
+        }
+      }],
+      { new: true }
+    );
+    if (!blog) return null;
+
+    await updateAuthorPosts(blog, blog.draft ? 0 : -1, '$pull');
+    await tagService.syncUsage(blog.tags, []);
+    await translationService.syncGroup(blog);
+    await invalidateBlogCache(blogId);
+    return blog;
+  }
+
+  /**
+   * Take a blog out of the trash, a blog published when deleted is published again.
+   * Returns null when the blog is not in the trash anymore.
+   */
+  async restore(blogId: string): Promise<IBlog | null> {
+    const blog = await BlogModel.findOneAndUpdate(
+      { _id: blogId, deletedAt: { $ne: null } },
+      [
+        { $set: { isPublished: { $eq: ['$status', 'published'] }, deletedAt: null } },
+        { $unset: ['deletedBy', 'purgeAt'] }
+      ],
+      { new: true }
+    );
+    if (!blog) return null;
+
+    await updateAuthorPosts(blog, blog.draft ? 0 : 1);
+    await tagService.syncUsage([], blog.tags);
+    await translationService.syncGroup(blog);
+    await invalidateBlogCache(blogId);
+    return blog;
+  }
+
+  /**
+   * Trashed blogs, newest deletion first, of one author or of everyone
+   */
+  async list(authorId: string | null, page: number, limit: number) {
+    const filter: Record<string, any> = { deletedAt: { $ne: null } };
+    if (authorId) filter.author = new mongoose.Types.ObjectId(authorId);
+
+    const [blogs, total] = await Promise.all([
+      BlogModel.find(filter)
+        .select('blog_id title slug des banner author status deletedAt deletedBy purgeAt')
+        .populate('author', 'name username avatar')
+        .sort({ deletedAt: -1, _id: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .lean(),
+      BlogModel.countDocuments(filter)
+    ]);
+    return { blogs, total };
+  }
+
+  /**
+   * Delete a trashed blog for good, with the data attached to it
+   */
+  async purge(blogId: string): Promise<boolean> {
+    const blog = await BlogModel.findOneAndDelete({ _id: blogId, deletedAt: { $ne: null } });
+    if (!blog) return false;
+
+    const id = blog._id as mongoose.Types.ObjectId;
+    await Promise.all([
+      CommentModel.deleteMany({ blogId: id }),
+      ModerationActionModel.deleteMany({ blogId: id }),
+      BlogLikeModel.deleteMany({ blog: id }),
+      BlogRevisionModel.deleteMany({ blogId: id }),
+      BookmarkModel.deleteMany({ blog: id }),
+      ReadingListModel.updateMany({ 'items.blog': id }, { $pull: { items: { blog: id } } }),
+      ArticleAnalyticsModel.deleteMany({ blogId: id }),
+      SeriesModel.updateMany({ blogs: id }, { $pull: { blogs: id } })
+    ]);
+    await translationService.detach(blog);
+    await redis.del(blogId);
+    return true;
+  }
+
+  /**
+   * Purge every blog whose retention period is over, returns the number purged
+   */
+  async purgeExpired(now: Date = new Date()): Promise<number> {
+    const expired = await BlogModel.find({ deletedAt: { $ne: null }, purgeAt: { $lte: now } }).select('_id').lean();
+
+    let purged = 0;
+    for (const { _id } of expired) {
+      if (await this.purge(String(_id))) purged++;
+    }
+    return purged;
+  }
+}
+
+export const blogTrashService = new BlogTrashService();
@@ -0,0 +1,136 @@
+import mongoose from "mongoose";
+import { BlogStatus, IBlog } from "../models/blogs.model";
+import ErrorHandler from "../utils/ErrorHandler";
+import { invalidateBlogCache, updateAuthorPosts } from "./blog.service";
+import { notificationService } from "./notification.service";
+import { translationService } from "./translation.service";
+
+export interface WorkflowActor {
+  _id: string;
+  role: string;
+}
+
+// allowed moves of the editorial state machine
+export const BLOG_TRANSITIONS: Record<BlogStatus, BlogStatus[]> = {
+  draft: ['in_review', 'published', 'archived'],
+  in_review: ['approved', 'changes_requested', 'draft'],
+  changes_requested: ['in_review', 'draft'],
+  approved: ['published', 'draft', 'in_review'],
+  published: ['archived', 'draft', 'in_review'],
+  archived: ['draft']
+};
+
+const REVIEWER_ROLES = ['moderator', 'admin'];
+
+/**
+ * Current workflow status, blogs created before the workflow have none stored
+ */
+export const getBlogStatus = (blog: IBlog): BlogStatus =>
+  blog.status || (blog.isPublished ? 'published' : 'draft');
+
+/**
+ * Status of a newly created blog: kids content, and content the safety filter
+ * wants a moderator to see, always goes through review
+ */
+export const initialBlogStatus = (
+  blog: { draft: boolean; isPublished: boolean; isKidsContent?: boolean; needsReview?: boolean }
+): BlogStatus => {
+  if (blog.draft) return 'draft';
+  if (blog.isKidsContent || blog.needsReview) return 'in_review';
+  return blog.isPublished ? 'published' : 'draft';
+};
+
+class BlogWorkflowService {
+  /**
+   * Move a blog to another status, checking the state machine and the role of the actor.
+   * Throws an ErrorHandler with the HTTP status to answer when the move is refused.
+   */
+  async transition(blog: IBlog, to: BlogStatus, actor: WorkflowActor, comment?: string): Promise<IBlog> {
+    const from = getBlogStatus(blog);
+    const isAuthor = blog.author.toString() === actor._id.toString();
+    const isReviewer = REVIEWER_ROLES.includes(actor.role);
+
+    if (!BLOG_TRANSITIONS[from].includes(to)) {
+      throw new ErrorHandler(`A blog cannot move from ${from} to ${to}`, 409);
+    }
+    if (!isAuthor && !isReviewer) {
+      throw new ErrorHandler('Not authorized to change the status of this blog', 403);
+    }
+
+    // review decisions belong to moderators, and never on their own blog
+    if (from === 'in_review' && (to === 'approved' || to === 'changes_requested')) {
+      if (!isReviewer) {
+        throw new ErrorHandler('Only moderators and admins can review a blog', 403);
+      }
+      if (isAuthor) {
+        throw new ErrorHandler('You cannot review your own blog', 403);
+      }
+      if (to === 'changes_requested' && !comment?.trim()) {
+        throw new ErrorHandler('A comment is required to request changes', 400);
+      }
+    }
+    if (to === 'in_review' && !isAuthor) {
+      throw new ErrorHandler('Only the author can submit a blog for review', 403);
+    }
+    if (to === 'published' && blog.isKidsContent && from !== 'approved') {
+      throw new ErrorHandler('Kids content must be approved before it is published', 403);
+    }
+
+    return this.apply(blog, from, to, actor, comment);
+  }
+
+  /**
+   * Send a blog to review on behalf of an edit: approved or published content that changed,
+   * or content the safety filter flagged, whichever of its editors made the change
+   */
+  async resubmit(blog: IBlog, actor: WorkflowActor, comment: string): Promise<IBlog> {
+    const from = getBlogStatus(blog);
+    if (!BLOG_TRANSITIONS[from].includes('in_review')) {
+      throw new ErrorHandler(`A blog cannot move from ${from} to in_review`, 409);
+    }
+    return this.apply(blog, from, 'in_review', actor, comment);
+  }
+
+  private async apply(blog: IBlog, from: BlogStatus, to: BlogStatus, actor: WorkflowActor, comment?: string): Promise<IBlog> {
+    // a draft published through the workflow counts as a post of its author
+    const leavesDraft = to === 'published' && Boolean(blog.draft);
+    blog.status = to;
+    blog.isPublished = to === 'published';
+    if (to === 'published') {
+      blog.draft = false;
+    }
+    blog.statusHistory.push({
+      from,
+      to,
+      by: new mongoose.Types.ObjectId(actor._id),
+      comment: comment?.trim() || undefined,
+      at: new Date()
+    });
+    await blog.save();
+    if (leavesDraft) {
+      await updateAuthorPosts(blog, 1);
+    }
+
+    await this.afterTransition(blog, from, to, actor._id.toString(), comment);
+    return blog;
+  }
+
+  /**
+   * Cache invalidation and notifications shared by manual and scheduled transitions
+   */
+  async afterTransition(blog: IBlog, from: BlogStatus, to: BlogStatus, actorId?: string, comment?: string) {
+    const blogId = String(blog._id);
+    const authorId = blog.author.toString();
+
+    if (from === 'published' || to === 'published') {
+      await invalidateBlogCache(blogId);
+      await translationService.syncGroup(blog);
+    }
+    await notificationService.notifyOfBlogStatusChange(authorId, actorId, blog.title, blogId, from, to, comment);
+    if (to === 'published') {
+      await notificationService.notifyFollowersOfNewBlog(authorId, blog.title, blogId);
+    }
+  }
+}
+
+export const blogWorkflowService = new BlogWorkflowService();
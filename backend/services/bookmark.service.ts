@@ -0,0 +1,108 @@
+import BlogModel from "../models/blogs.model";
+import { BookmarkModel, ReadingListModel } from "../models/bookmark.model";
+import { PaginationMeta } from "../types/api.types";
+import { analyticsService } from "./analytics.service";
+
+const BOOKMARKED_BLOG_FIELDS = '_id title slug banner des tags category ageGroup isKidsContent published_at author';
+
+const paginationMeta = (page: number, limit: number, total: number): PaginationMeta => {
+  const totalPages = Math.ceil(total / limit);
+  return { page, limit, total, totalPages, hasNext: page < totalPages, hasPrev: page > 1 };
+};
+
+class BookmarkService {
+  /**
+   * Bookmark a blog, returns false when it was already bookmarked
+   */
+  async addBookmark(userId: string, blogId: string): Promise<boolean> {
+    try {
+      await BookmarkModel.create({ user: userId, blog: blogId });
+    } catch (error: any) {
+      // unique index on user + blog
+      if (error.code === 11000) return false;
+      throw error;
+    }
+    await analyticsService.incrementArticleCounter(blogId, 'bookmarks', 1);
+    return true;
+  }
+
+  /**
+   * Remove a bookmark and the blog from the reading lists of the user,
+   * returns false when the blog was not bookmarked
+   */
+  async removeBookmark(userId: string, blogId: string): Promise<boolean> {
+    const removed = await BookmarkModel.findOneAndDelete({ user: userId, blog: blogId });
+    if (!removed) return false;
+
+    await ReadingListModel.updateMany(
+      { owner: userId, 'items.blog': blogId },
+      { $pull: { items: { blog: blogId } } }
+    );
+    await analyticsService.incrementArticleCounter(blogId, 'bookmarks', -1);
+    return true;
+  }
+
+  /**
+   * Bookmarks of a user, newest first, skipping blogs no longer published
+   */
+  async listBookmarks(userId: string, page: number, limit: number) {
+    const [bookmarks, total] = await Promise.all([
+      BookmarkModel.find({ user: userId })
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .populate({
+          path: 'blog',
+          match: { isPublished: true },
+          select: BOOKMARKED_BLOG_FIELDS,
+          populate: { path: 'author', select: 'name username avatar' }
+        })
+        .lean(),
+      BookmarkModel.countDocuments({ user: userId })
+    ]);
+
+    return {
+      bookmarks: bookmarks
+        .filter(bookmark => bookmark.blog)
+        .map(bookmark => ({ blog: bookmark.blog, bookmarkedAt: bookmark.createdAt })),
+      pagination: paginationMeta(page, limit, total)
+    };
+  }
+
+  /**
+   * Add a blog to a reading list, bookmarking it first when needed.
+   * Returns false when the blog is already in the list.
+   */
+  async addToReadingList(userId: string, listId: string, blogId: string): Promise<boolean> {
+    await this.addBookmark(userId, blogId);
+    const result = await ReadingListModel.updateOne(
+      { _id: listId, owner: userId, 'items.blog': { $ne: blogId } },
+      { $push: { items: { blog: blogId, addedAt: new Date() } } }
+    );
+    return result.modifiedCount > 0;
+  }
+
+  /**
+   * Blogs of a reading list in the order they were added, paginated
+   */
+  async getReadingListItems(list: { items: Array<{ blog: any; addedAt: Date }> }, page: number, limit: number) {
+    const items = list.items.slice((page - 1) * limit, page * limit);
+    const blogs = await BlogModel.find({
+      _id: { $in: items.map(item => item.blog) },
+      isPublished: true
+    })
+      .select(BOOKMARKED_BLOG_FIELDS)
+      .populate('author', 'name username avatar')
+      .lean();
+    const byId = new Map(blogs.map(blog => [String(blog._id), blog]));
+
+    return {
+      items: items
+        .filter(item => byId.has(item.blog.toString()))
+        .map(item => ({ blog: byId.get(item.blog.toString()), addedAt: item.addedAt })),
+      pagination: paginationMeta(page, limit, list.items.length)
+    };
+  }
+}
+
+export const bookmarkService = new BookmarkService();
@@ -0,0 +1,201 @@
+import CategoryModel, { ICategory } from "../models/category.model";
+import BlogModel from "../models/blogs.model";
+import { redis } from "../utils/redis";
+import { slugify } from "../utils/slug";
+import { blogListingService } from "./blogListing.service";
+
+const CATEGORIES_CACHE_KEY = 'categories:all';
+const CATEGORIES_CACHE_TTL = 3600; // 1 hour
+
+export interface CategoryNode {
+  _id: string;
+  slug: string;
+  name: string;
+  translations: Record<string, string>;
+  description: string;
+  icon: string;
+  parent: string | null;
+  ageGroups: string[];
+  aliases: string[];
+  order: number;
+  children: CategoryNode[];
+}
+
+export interface CategoryMigrationReport {
+  mapped: Record<string, string>;
+  created: string[];
+  blogsUpdated: number;
+}
+
+// free-text spellings compared without case, accents or a trailing plural s
+const normalize = (value: string) => slugify(value).replace(/s$/, '');
+
+class CategoryService {
+  /**
+   * Active categories, cached, as plain objects
+   */
+  async getAll(): Promise<CategoryNode[]> {
+    const cached = await redis.get(CATEGORIES_CACHE_KEY);
+    if (cached) {
+      return typeof cached === 'string' ? JSON.parse(cached) : cached as CategoryNode[];
+    }
+
+    const categories = await CategoryModel.find({ isActive: true }).sort({ order: 1, name: 1 }).lean();
+    const nodes: CategoryNode[] = categories.map(category => ({
+      _id: String(category._id),
+      slug: category.slug,
+      name: category.name,
+      translations: Object.fromEntries(Object.entries(category.translations || {})),
+      description: category.description,
+      icon: category.icon,
+      parent: category.parent ? String(category.parent) : null,
+      ageGroups: category.ageGroups,
+      aliases: category.aliases || [],
+      order: category.order,
+      children: []
+    }));
+    await redis.setex(CATEGORIES_CACHE_KEY, CATEGORIES_CACHE_TTL, JSON.stringify(nodes));
+    return nodes;
+  }
+
+  /**
+   * Category hierarchy, names translated to the locale when a translation exists
+   */
+  async getTree(locale?: string): Promise<CategoryNode[]> {
+    const nodes = (await this.getAll()).map(node => ({
+      ...node,
+      name: (locale && node.translations[locale]) || node.name,
+      children: [] as CategoryNode[]
+    }));
+    const byId = new Map(nodes.map(node => [node._id, node]));
+
+    return nodes.filter(node => {
+      const parent = node.parent ? byId.get(node.parent) : undefined;
+      if (parent) parent.children.push(node);
+      // children of an inactive parent show at the top level
+      return !parent;
+    });
+  }
+
+  /**
+   * Active category matching a slug or one of its aliases
+   */
+  async resolve(value?: string | null): Promise<CategoryNode | null> {
+    if (!value) return null;
+    const slug = slugify(value);
+    const categories = await this.getAll();
+    return categories.find(category => category.slug === slug)
+      || categories.find(category => category.aliases?.includes(slug))
+      || null;
+  }
+
+  /**
+   * Slug of a category and of every category below it
+   */
+  async withDescendants(slug: string): Promise<string[]> {
+    const categories = await this.getAll();
+    const root = categories.find(category => category.slug === slug);
+    if (!root) return [slug];
+
+    const slugs = [root.slug];
+    const queue = [root._id];
+    while (queue.length) {
+      const parentId = queue.shift();
+      categories
+        .filter(category => category.parent === parentId)
+        .forEach(category => {
+          slugs.push(category.slug);
+          queue.push(category._id);
+        });
+    }
+    return slugs;
+  }
+
+  /**
+   * Check the category of a blog, returns an error message when it is unknown
+   * or does not allow the age group of the blog
+   */
+  async validateBlogCategory(value: string, ageGroup?: string): Promise<{ slug?: string; error?: string }> {
+    const category = await this.resolve(value);
+    if (!category) {
+      return { error: `Unknown category ${value}` };
+    }
+    if (ageGroup && !category.ageGroups.includes(ageGroup)) {
+      return { error: `Category ${category.name} is only for ${category.ageGroups.join(", ")}` };
+    }
+    return { slug: category.slug };
+  }
+
+  /**
+   * True when parentId is the category itself or one of its descendants
+   */
+  async createsCycle(categoryId: string, parentId: string): Promise<boolean> {
+    let current: string | null = parentId;
+    const seen = new Set<string>();
+    while (current && !seen.has(current)) {
+      if (current === categoryId) return true;
+      seen.add(current);
+      const parent: Pick<ICategory, 'parent'> | null = await CategoryModel.findById(current).select('parent').lean();
+      current = parent?.parent ? String(parent.parent) : null;
+    }
+    return false;
+  }
+
+  /**
+   * Move the blogs of a renamed category to its new slug
+   */
+  async renameSlug(from: string, to: string) {
+    const result = await BlogModel.updateMany({ category: from }, { $set: { category: to } });
+    if (result.modifiedCount) {
+      await blogListingService.invalidate();
+    }
+  }
+
+  /**
+   * Drop the cached categories after a change
+   */
+  async invalidate() {
+    await redis.del(CATEGORIES_CACHE_KEY);
+  }
+
+  /**
+   * Map the free-text categories of existing blogs to managed categories.
+   * Spellings are matched on slug, aliases, then without accents and plural,
+   * unmatched ones become new categories so no blog loses its category.
+   */
+  async migrateBlogCategories(): Promise<CategoryMigrationReport> {
+    const values: string[] = (await BlogModel.distinct('category', { category: { $nin: [null, ''] } })).map(String);
+    const categories = await CategoryModel.find().select('slug name aliases');
+    const report: CategoryMigrationReport = { mapped: {}, created: [], blogsUpdated: 0 };
+
+    for (const value of values) {
+      const slug = slugify(value);
+      let category = categories.find(existing => existing.slug === slug || existing.aliases.includes(slug))
+        || categories.find(existing => normalize(existing.slug) === normalize(value)
+          || existing.aliases.some(alias => normalize(alias) === normalize(value)));
+
+      if (!category) {
+        category = await CategoryModel.create({ slug, name: value.trim() });
+        categories.push(category);
+        report.created.push(slug);
+      } else if (category.slug !== slug && !category.aliases.includes(slug)) {
+        category.aliases.push(slug);
+        await category.save();
+      }
+
+      if (value !== category.slug) {
+        const result = await BlogModel.updateMany({ category: value }, { $set: { category: category.slug } });
+        report.blogsUpdated += result.modifiedCount;
+      }
+      report.mapped[value] = category.slug;
+    }
+
+    await this.invalidate();
+    if (report.blogsUpdated) {
+      await blogListingService.invalidate();
+    }
+    return report;
+  }
+}
+
+export const categoryService = new CategoryService();
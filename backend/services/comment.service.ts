@@ -0,0 +1,474 @@
+import mongoose from "mongoose";
+import CommentModel, { IComment, LegacyCommentKind } from "../models/comment.model";
+import BlogModel from "../models/blogs.model";
+import UserModel from "../models/user.model";
+import ErrorHandler from "../utils/ErrorHandler";
+import { requiresPreModeration } from "../utils/commentModeration";
+import { AGE_GROUPS, AgeGroup, getUserAgeGroup } from "../utils/ageGroups";
+import { realtimeService } from "../server";
+import { REMOVED_CONTENT, countComment, moderationPriority, uncountComment } from "./commentModeration.service";
+import { contentSafetyService, stricterAgeGroup } from "./contentSafety.service";
+import { MAX_THREAD_DEPTH, ThreadComment, decodeReplyCursor, encodeReplyCursor, nestReplies } from "../utils/commentThreads";
+
+const MAX_DEPTH = 5;
+const KIDS_AGE_GROUPS = AGE_GROUPS.filter(ageGroup => ageGroup !== 'general');
+// content left in place of a deleted comment, see deleteComment
+const DELETED_CONTENT = '[Comment deleted]';
+
+export interface NewComment {
+  blogId: string;
+  authorId: string;
+  content: string;
+  parentId?: string | null;
+}
+
+export type CommentSort = 'newest' | 'oldest' | 'popular';
+
+export interface ThreadQuery {
+  page: number;
+  limit: number;
+  sortBy: CommentSort;
+  // levels of replies nested under the top-level comments
+  depth: number;
+  // replies loaded per comment, the next ones through its cursor
+  repliesLimit: number;
+  viewerId?: string;
+}
+
+export interface RepliesQuery {
+  cursor?: string;
+  limit: number;
+  // levels of replies nested under the replies returned
+  depth: number;
+  viewerId?: string;
+}
+
+export interface RepliesPage {
+  replies: ThreadComment[];
+  hasMore: boolean;
+  nextCursor: string | null;
+}
+
+export interface CommentMigrationReport {
+  blogs: number;
+  questions: number;
+  answers: number;
+  reviewReplies: number;
+  // entries without a resolvable author, left in the blog
+  skipped: number;
+}
+
+const COMMENT_SORTS: Record<CommentSort, Record<string, 1 | -1>> = {
+  newest: { createdAt: -1, _id: -1 },
+  oldest: { createdAt: 1, _id: 1 },
+  popular: { totalReactions: -1, createdAt: -1, _id: -1 }
+};
+
+// flagged comments are hidden, held ones only shown to their author (ids cast for the aggregations)
+const visibleTo = (viewerId?: string) => ({
+  isFlagged: false,
+  ...(viewerId
+    ? { $or: [{ awaitingApproval: { $ne: true } }, { author: new mongoose.Types.ObjectId(viewerId) }] }
+    : { awaitingApproval: { $ne: true } })
+});
+
+// embedded entries stored the user either as a document, an id or under userId
+const legacyAuthor = (entry: any) => {
+  const author = entry?.user?._id || entry?.user || entry?.userId;
+  return author && mongoose.Types.ObjectId.isValid(String(author)) ? new mongoose.Types.ObjectId(String(author)) : null;
+};
+
+class CommentService {
+  /**
+   * Add a comment or a reply to a blog and update the counters.
+   * Pre-moderated comments are held in the moderation queue, counted and broadcast once approved.
+   * Throws an ErrorHandler with the HTTP status to answer when refused.
+   */
+  async create({ blogId, authorId, content, parentId }: NewComment): Promise<IComment> {
+    if (!mongoose.Types.ObjectId.isValid(blogId)) {
+      throw new ErrorHandler('Blog not found', 404);
+    }
+    const blog = await BlogModel.findOne({ _id: blogId, deletedAt: null }).select('isKidsContent ageGroup commentPreModeration');
+    if (!blog) {
+      throw new ErrorHandler('Blog not found', 404);
+    }
+
+    // Calculate depth for nested comments
+    let depth = 0;
+    if (parentId) {
+      const parentComment = mongoose.Types.ObjectId.isValid(parentId)
+        ? await CommentModel.findOne({ _id: parentId, blogId })
+        : null;
+      if (!parentComment) {
+        throw new ErrorHandler('Parent comment not found', 404);
+      }
+      depth = parentComment.depth + 1;
+      if (depth > MAX_DEPTH) {
+        throw new ErrorHandler('Maximum comment nesting depth exceeded', 400);
+      }
+    }
+
+    const { held, screening } = await this.screen(blog, authorId, content);
+    const comment = new CommentModel({
+      content,
+      author: authorId,
+      blogId,
+      parentId: parentId || null,
+      depth,
+      ...screening,
+      awaitingApproval: held,
+      ...(held && { moderationStatus: 'pending', flaggedAt: new Date() })
+    });
+    if (held) {
+      comment.moderationPriority = moderationPriority(comment);
+    }
+    await comment.save();
+    await comment.populate('author', 'name avatar');
+    if (held) return comment;
+
+    await countComment(comment);
+    realtimeService.emitNewComment(blogId, comment);
+    return comment;
+  }
+
+  /**
+   * Change the content of a comment by its author, screened like a new comment:
+   * content that would be held goes back to the moderation queue and stops being counted.
+   * Throws an ErrorHandler with the HTTP status to answer when refused.
+   */
+  async update(commentId: string, authorId: string, content: string): Promise<IComment> {
+    const comment = mongoose.Types.ObjectId.isValid(commentId) ? await CommentModel.findById(commentId) : null;
+    if (!comment) {
+      throw new ErrorHandler('Comment not found', 404);
+    }
+    if (comment.author.toString() !== authorId) {
+      throw new ErrorHandler('Not authorized to update this comment', 403);
+    }
+    // deleted, removed and flagged comments are left as the moderators find them
+    if (comment.moderationStatus === 'removed' || (comment.isFlagged && !comment.awaitingApproval)) {
+      throw new ErrorHandler('This comment can no longer be edited', 409);
+    }
+    const blog = await BlogModel.findOne({ _id: comment.blogId, deletedAt: null }).select('isKidsContent ageGroup commentPreModeration');
+    if (!blog) {
+      throw new ErrorHandler('Blog not found', 404);
+    }
+
+    const { held, screening } = await this.screen(blog, authorId, content);
+    const requeued = held && !comment.awaitingApproval;
+    comment.content = content;
+    comment.set(screening);
+    if (requeued) {
+      comment.awaitingApproval = true;
+      comment.moderationStatus = 'pending';
+      comment.flaggedAt = new Date();
+    }
+    if (comment.awaitingApproval) {
+      comment.moderationPriority = moderationPriority(comment);
+    }
+    await comment.save();
+    if (requeued) {
+      await uncountComment(comment);
+    }
+    await comment.populate('author', 'name avatar');
+    return comment;
+  }
+
+  /**
+   * Comment of a blog by id, or by the id of the embedded question it was migrated from
+   */
+  async findForBlog(blogId: string, id: string): Promise<IComment | null> {
+    if (mongoose.Types.ObjectId.isValid(id)) {
+      const comment = await CommentModel.findOne({ _id: id, blogId });
+      if (comment) return comment;
+    }
+    return CommentModel.findOne({ blogId, 'legacySource.kind': 'question', 'legacySource.id': String(id) });
+  }
+
+  /**
+   * Top-level comments of a blog with their replies nested down to the depth asked for,
+   * in one query per level of replies whatever the number of comments
+   */
+  async thread(blogId: string, { page, limit, sortBy, depth, repliesLimit, viewerId }: ThreadQuery) {
+    const filter = { blogId: new mongoose.Types.ObjectId(blogId), parentId: null, ...visibleTo(viewerId) };
+    const [comments, total] = await Promise.all([
+      CommentModel.find(filter)
+        .sort(COMMENT_SORTS[sortBy])
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .lean(),
+      CommentModel.countDocuments(filter)
+    ]);
+
+    const repliesByParent = await this.loadReplies(comments, depth, repliesLimit, viewerId);
+    await this.populateAuthors(comments, repliesByParent);
+    return { comments: nestReplies(comments, repliesByParent, repliesLimit, viewerId), total };
+  }
+
+  /**
+   * Replies of a comment after a cursor, oldest first, with their own replies nested
+   */
+  async replies(commentId: string, { cursor, limit, depth, viewerId }: RepliesQuery): Promise<RepliesPage> {
+    const after = cursor ? decodeReplyCursor(cursor) : null;
+    if (cursor && !after) {
+      throw new ErrorHandler('Invalid replies cursor', 400);
+    }
+    const parent = mongoose.Types.ObjectId.isValid(commentId)
+      ? await CommentModel.findOne({ _id: commentId, ...visibleTo(viewerId) }).select('_id')
+      : null;
+    if (!parent) {
+      throw new ErrorHandler('Comment not found', 404);
+    }
+
+    const replies = await CommentModel.find({
+      parentId: parent._id,
+      ...visibleTo(viewerId),
+      ...(after && {
+        $and: [{
+          $or: [
+            { createdAt: { $gt: after.createdAt } },
+            { createdAt: after.createdAt, _id: { $gt: new mongoose.Types.ObjectId(after.id) } }
+          ]
+        }]
+      })
+    })
+      .sort({ createdAt: 1, _id: 1 })
+      .limit(limit + 1)
+      .lean();
+
+    const page = replies.slice(0, limit);
+    const hasMore = replies.length > limit;
+    const repliesByParent = await this.loadReplies(page, depth, limit, viewerId);
+    await this.populateAuthors(page, repliesByParent);
+    return {
+      replies: nestReplies(page, repliesByParent, limit, viewerId),
+      hasMore,
+      nextCursor: hasMore ? encodeReplyCursor(page[page.length - 1]) : null
+    };
+  }
+
+  /**
+   * Comment standing for an embedded review, review replies are its children
+   */
+  async ensureReviewComment(blogId: string, review: any): Promise<IComment> {
+    const author = legacyAuthor(review);
+    if (!author || !review.comment) {
+      throw new ErrorHandler('Review cannot be replied to', 400);
+    }
+    const { comment, created } = await this.upsertLegacy('review', String(review._id), {
+      content: review.comment,
+      author,
+      blogId: new mongoose.Types.ObjectId(blogId),
+      parentId: null,
+      depth: 0,
+      createdAt: review.createdAt || new Date()
+    });
+    if (created) {
+      await BlogModel.findByIdAndUpdate(blogId, {
+        $inc: { 'activity.total_comments': 1, 'activity.total_parent_comments': 1 }
+      });
+    }
+    return comment;
+  }
+
+  /**
+   * Move the embedded questions, their answers and the review replies of every blog
+   * into the comment collection. Safe to run again: migrated entries are skipped.
+   */
+  async migrateEmbeddedComments(): Promise<CommentMigrationReport> {
+    const report: CommentMigrationReport = { blogs: 0, questions: 0, answers: 0, reviewReplies: 0, skipped: 0 };
+    const blogs = BlogModel.find({
+      $or: [{ 'questions.0': { $exists: true } }, { 'reviews.commentReplies.0': { $exists: true } }]
+    }).select('questions reviews').lean().cursor();
+
+    for await (const blog of blogs) {
+      const blogId = blog._id as mongoose.Types.ObjectId;
+      const migratedQuestions: mongoose.Types.ObjectId[] = [];
+      const migratedReviews: mongoose.Types.ObjectId[] = [];
+
+      for (const question of (blog.questions || []) as any[]) {
+        const author = legacyAuthor(question);
+        if (!author || !question.question) {
+          report.skipped += 1 + (question.questionReplies?.length || 0);
+          continue;
+        }
+        const { comment: parent, created } = await this.upsertLegacy('question', String(question._id), {
+          content: question.question,
+          author,
+          blogId,
+          parentId: null,
+          depth: 0,
+          isModerated: Boolean(question.isModerated),
+          isFlagged: Boolean(question.isFlagged),
+          createdAt: question.createdAt || new Date()
+        });
+        if (created) report.questions++;
+
+        const answers = await this.migrateReplies(parent, question.questionReplies || [], 'answer', String(question._id));
+        report.answers += answers.migrated;
+        report.skipped += answers.skipped;
+        if (!answers.skipped) migratedQuestions.push(question._id);
+      }
+
+      for (const review of (blog.reviews || []) as any[]) {
+        if (!review.commentReplies?.length) continue;
+        const author = legacyAuthor(review);
+        if (!author || !review.comment) {
+          report.skipped += review.commentReplies.length;
+          continue;
+        }
+        const { comment: parent } = await this.upsertLegacy('review', String(review._id), {
+          content: review.comment,
+          author,
+          blogId,
+          parentId: null,
+          depth: 0,
+          createdAt: review.createdAt || new Date()
+        });
+
+        const replies = await this.migrateReplies(parent, review.commentReplies, 'review_reply', String(review._id));
+        report.reviewReplies += replies.migrated;
+        report.skipped += replies.skipped;
+        if (!replies.skipped) migratedReviews.push(review._id);
+      }
+
+      await this.removeMigrated(blogId, migratedQuestions, migratedReviews);
+      await this.recount(blogId);
+      report.blogs++;
+    }
+    return report;
+  }
+
+  private async migrateReplies(parent: IComment, replies: any[], kind: LegacyCommentKind, parentLegacyId: string) {
+    let migrated = 0;
+    let skipped = 0;
+    for (const [index, reply] of replies.entries()) {
+      const author = legacyAuthor(reply);
+      const content = reply?.answer || reply?.comment || reply?.question;
+      if (!author || !content) {
+        skipped++;
+        continue;
+      }
+      // replies were stored without an _id, their position identifies them
+      const { created } = await this.upsertLegacy(kind, `${parentLegacyId}:${index}`, {
+        content,
+        author,
+        blogId: parent.blogId,
+        parentId: parent._id,
+        depth: parent.depth + 1,
+        createdAt: reply.createdAt || parent.createdAt
+      });
+      if (created) migrated++;
+    }
+    return { migrated, skipped };
+  }
+
+  // content-safety verdict for the youngest of the blog audience and the commenter, refused when blocked
+  private async screen(
+    blog: { isKidsContent?: boolean; ageGroup?: AgeGroup; commentPreModeration?: boolean | null },
+    authorId: string,
+    content: string
+  ) {
+    const author = await UserModel.findById(authorId).select('dateOfBirth');
+    const audience = stricterAgeGroup(blog.isKidsContent ? blog.ageGroup || 'kids-6-8' : 'general', getUserAgeGroup(author));
+    const verdict = await contentSafetyService.classify(content);
+    const { action } = verdict.ageGroups[audience];
+    if (action === 'block') {
+      throw new ErrorHandler(`Comment refused by the content filter: ${verdict.category}`, 400);
+    }
+    return {
+      held: action === 'review' || requiresPreModeration(blog, author),
+      screening: {
+        isKidsSafe: KIDS_AGE_GROUPS.every(ageGroup => verdict.ageGroups[ageGroup].action === 'allow'),
+        containsInappropriateContent: verdict.ageGroups.general.action !== 'allow',
+        safety: { category: verdict.category, score: verdict.score },
+        onKidsContent: Boolean(blog.isKidsContent)
+      }
+    };
+  }
+
+  // replies of the comments level by level, one aggregation per level reading at most limit + 1 replies per parent
+  private async loadReplies(comments: any[], depth: number, limit: number, viewerId?: string) {
+    const repliesByParent = new Map<string, any[]>();
+    let parents = comments;
+    for (let level = 0; level < Math.min(depth, MAX_THREAD_DEPTH) && parents.length; level++) {
+      const ids = parents.map(parent => parent._id);
+      const groups = await CommentModel.aggregate([
+        { $match: { _id: { $in: ids } } },
+        {
+          $lookup: {
+            from: CommentModel.collection.name,
+            localField: '_id',
+            foreignField: 'parentId',
+            pipeline: [
+              { $match: visibleTo(viewerId) },
+              { $sort: { createdAt: 1, _id: 1 } },
+              { $limit: limit + 1 }
+            ],
+            as: 'replies'
+          }
+        },
+        { $project: { replies: 1 } }
+      ]);
+      parents = [];
+      groups.forEach(group => {
+        repliesByParent.set(String(group._id), group.replies);
+        parents = parents.concat(group.replies.slice(0, limit));
+      });
+    }
+    return repliesByParent;
+  }
+
+  // authors of a whole thread in one query
+  private async populateAuthors(comments: any[], repliesByParent: Map<string, any[]>) {
+    const all = Array.from(repliesByParent.values()).reduce((list, replies) => list.concat(replies), comments);
+    await CommentModel.populate(all, { path: 'author', select: 'name avatar' });
+  }
+
+  private async upsertLegacy(kind: LegacyCommentKind, id: string, fields: Record<string, any>) {
+    const result = await CommentModel.findOneAndUpdate(
+      { 'legacySource.kind': kind, 'legacySource.id': id },
+      { $setOnInsert: { ...fields, updatedAt: fields.createdAt, legacySource: { kind, id } } },
+      { upsert: true, new: true, timestamps: false, includeResultMetadata: true }
+    );
+    return { comment: result.value as IComment, created: !result.lastErrorObject?.updatedExisting };
+  }
+
+  // embedded entries are dropped once they and all their replies live in the collection
+  private async removeMigrated(blogId: mongoose.Types.ObjectId, questions: mongoose.Types.ObjectId[], reviews: mongoose.Types.ObjectId[]) {
+    if (questions.length) {
+      await BlogModel.updateOne({ _id: blogId }, { $pull: { questions: { _id: { $in: questions } } } });
+    }
+    if (reviews.length) {
+      await BlogModel.updateOne(
+        { _id: blogId },
+        { $set: { 'reviews.$[migrated].commentReplies': [] } },
+        { arrayFilters: [{ 'migrated._id': { $in: reviews } }] }
+      );
+    }
+  }
+
+  // reply and comment counters recomputed from the collection, deleted comments are not counted
+  private async recount(blogId: mongoose.Types.ObjectId) {
+    // what countComment and uncountComment keep track of: no deleted, removed or held comment
+    const live = { blogId, content: { $nin: [DELETED_CONTENT, REMOVED_CONTENT] }, awaitingApproval: { $ne: true } };
+    const replies = await CommentModel.aggregate([
+      { $match: { ...live, parentId: { $ne: null } } },
+      { $group: { _id: '$parentId', count: { $sum: 1 } } }
+    ]);
+    if (replies.length) {
+      await CommentModel.bulkWrite(replies.map(({ _id, count }) => ({
+        updateOne: { filter: { _id }, update: { $set: { replyCount: count } } }
+      })));
+    }
+
+    const [total, parents] = await Promise.all([
+      CommentModel.countDocuments(live),
+      CommentModel.countDocuments({ ...live, parentId: null })
+    ]);
+    await BlogModel.updateOne({ _id: blogId }, {
+      $set: { 'activity.total_comments': total, 'activity.total_parent_comments': parents }
+    });
+  }
+}
+
+export const commentService = new CommentService();
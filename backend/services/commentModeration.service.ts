@@ -0,0 +1,289 @@
+import mongoose from "mongoose";
+import CommentModel, { FlagReason, IComment, ModerationStatus } from "../models/comment.model";
+import ModerationActionModel, { ModerationActionType } from "../models/moderationAction.model";
+import BlogModel from "../models/blogs.model";
+import ErrorHandler from "../utils/ErrorHandler";
+
+export interface ModerationActor {
+  _id: string;
+  role: string;
+}
+
+export interface ModerationQueueFilter {
+  status?: ModerationStatus;
+  reason?: FlagReason;
+  blogId?: string;
+  kids?: boolean;
+  // pre-moderated comments only, or flagged ones only
+  held?: boolean;
+}
+
+export interface ModerationResult {
+  comment: IComment;
+  // a held comment just approved, to broadcast to the readers of the blog
+  released: boolean;
+}
+
+export interface BulkModerationResult {
+  processed: string[];
+  failed: { commentId: string; message: string }[];
+  released: IComment[];
+}
+
+export const QUEUE_STATUSES: ModerationStatus[] = ['pending', 'escalated'];
+export const MAX_BULK_MODERATION = 100;
+export const REMOVED_CONTENT = '[Comment removed by moderator]';
+
+// weight of the most serious reason a comment was flagged for
+const REASON_WEIGHTS: Record<FlagReason, number> = {
+  harassment: 5,
+  inappropriate: 4,
+  spam: 2,
+  other: 1
+};
+// past this many flags, more reports do not raise the priority
+const MAX_COUNTED_FLAGS = 10;
+
+/**
+ * Queue priority of a flagged comment: the most serious reason, the number of flags,
+ * the content-safety score, then a bump for kids content and for comments escalated to admins
+ */
+export const moderationPriority = (
+  comment: Pick<IComment, 'flagReasons' | 'onKidsContent' | 'moderationStatus'> & Partial<Pick<IComment, 'safety'>>
+): number => {
+  const reasons = comment.flagReasons || [];
+  const severity = Math.max(0, ...reasons.map(reason => REASON_WEIGHTS[reason as FlagReason] || REASON_WEIGHTS.other));
+  return severity
+    + 2 * Math.min(reasons.length, MAX_COUNTED_FLAGS)
+    + Math.round(5 * (comment.safety?.score || 0))
+    + (comment.onKidsContent ? 10 : 0)
+    + (comment.moderationStatus === 'escalated' ? 20 : 0);
+};
+
+/**
+ * Count a comment once visible: reply count of its parent and comment counts of its blog
+ */
+export const countComment = async (comment: Pick<IComment, 'blogId' | 'parentId'>) => {
+  if (comment.parentId) {
+    await CommentModel.findByIdAndUpdate(comment.parentId, { $inc: { replyCount: 1 } });
+  }
+  await BlogModel.findByIdAndUpdate(comment.blogId, {
+    $inc: { 'activity.total_comments': 1, 'activity.total_parent_comments': comment.parentId ? 0 : 1 }
+  });
+};
+
+/**
+ * Undo countComment once a counted comment is taken away from the readers
+ */
+export const uncountComment = async (comment: Pick<IComment, 'blogId' | 'parentId'>) => {
+  if (comment.parentId) {
+    await CommentModel.findByIdAndUpdate(comment.parentId, { $inc: { replyCount: -1 } });
+  }
+  await BlogModel.findByIdAndUpdate(comment.blogId, {
+    $inc: { 'activity.total_comments': -1, 'activity.total_parent_comments': comment.parentId ? 0 : -1 }
+  });
+};
+
+class CommentModerationService {
+  /**
+   * Flag a comment, which hides it and puts it in the moderation queue.
+   * A user flags a comment once, a comment approved before goes back to the queue.
+   */
+  async flag(commentId: string, userId: string, reason: FlagReason): Promise<IComment> {
+    const comment = await CommentModel.findById(commentId);
+    if (!comment) {
+      throw new ErrorHandler('Comment not found', 404);
+    }
+    if (comment.moderationStatus === 'removed') {
+      throw new ErrorHandler('Comment already removed', 409);
+    }
+    if ((comment.flaggedBy || []).some(id => id.toString() === userId)) {
+      throw new ErrorHandler('You already flagged this comment', 409);
+    }
+
+    const blog = await BlogModel.findById(comment.blogId).select('isKidsContent');
+    comment.flaggedBy = [...(comment.flaggedBy || []), new mongoose.Types.ObjectId(userId)];
+    comment.flagReasons = [...(comment.flagReasons || []), reason];
+    comment.isFlagged = true;
+    comment.onKidsContent = Boolean(blog?.isKidsContent);
+    if (!comment.moderationStatus || !QUEUE_STATUSES.includes(comment.moderationStatus)) {
+      comment.moderationStatus = 'pending';
+      comment.flaggedAt = new Date();
+    }
+    comment.moderationPriority = moderationPriority(comment);
+    await comment.save();
+    return comment;
+  }
+
+  /**
+   * Flagged and held comments waiting for a decision, highest priority then oldest first
+   */
+  async queue(filter: ModerationQueueFilter, page: number, limit: number) {
+    const query: Record<string, any> = {
+      moderationStatus: filter.status ? filter.status : { $in: QUEUE_STATUSES }
+    };
+    if (filter.reason) query.flagReasons = filter.reason;
+    if (filter.blogId) query.blogId = new mongoose.Types.ObjectId(filter.blogId);
+    if (filter.kids !== undefined) query.onKidsContent = filter.kids;
+    if (filter.held !== undefined) query.awaitingApproval = filter.held;
+
+    const [comments, total] = await Promise.all([
+      CommentModel.find(query)
+        .populate('author', 'name username avatar')
+        .populate('blogId', 'title slug isKidsContent')
+        .sort({ moderationPriority: -1, flaggedAt: 1, _id: 1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .lean(),
+      CommentModel.countDocuments(query)
+    ]);
+    return { comments, total };
+  }
+
+  /**
+   * Decide on a flagged comment. Escalated comments are left to admins.
+   * Throws an ErrorHandler with the HTTP status to answer when refused.
+   */
+  async moderate(
+    commentId: string,
+    actor: ModerationActor,
+    action: ModerationActionType,
+    options: { content?: string; note?: string } = {}
+  ): Promise<ModerationResult> {
+    const comment = mongoose.Types.ObjectId.isValid(commentId) ? await CommentModel.findById(commentId) : null;
+    if (!comment) {
+      throw new ErrorHandler('Comment not found', 404);
+    }
+    if (!comment.moderationStatus || !QUEUE_STATUSES.includes(comment.moderationStatus)) {
+      throw new ErrorHandler('Comment is not waiting for moderation', 409);
+    }
+    if (comment.moderationStatus === 'escalated' && actor.role !== 'admin') {
+      throw new ErrorHandler('Escalated comments are handled by admins', 403);
+    }
+
+    const held = comment.awaitingApproval;
+    switch (action) {
+      case 'approve':
+        comment.isFlagged = false;
+        comment.awaitingApproval = false;
+        comment.moderationStatus = 'approved';
+        break;
+      case 'edit':
+        if (!options.content || options.content.length > 2000) {
+          throw new ErrorHandler('Content must be between 1 and 2000 characters', 400);
+        }
+        comment.content = options.content;
+        comment.isFlagged = false;
+        comment.awaitingApproval = false;
+        comment.moderationStatus = 'approved';
+        break;
+      case 'remove':
+        // kept in place so the replies keep their thread
+        comment.content = REMOVED_CONTENT;
+        comment.moderationStatus = 'removed';
+        break;
+      case 'escalate':
+        if (comment.moderationStatus === 'escalated') {
+          throw new ErrorHandler('Comment already escalated', 409);
+        }
+        comment.moderationStatus = 'escalated';
+        break;
+    }
+
+    const flaggedAt = comment.flaggedAt || comment.createdAt;
+    const now = new Date();
+    if (action !== 'escalate') comment.isModerated = true;
+    comment.moderatedBy = actor._id;
+    comment.moderatedAt = now;
+    comment.moderationPriority = moderationPriority(comment);
+    await comment.save();
+
+    // held comments were never counted
+    const released = held && !comment.awaitingApproval;
+    if (released) {
+      await countComment(comment);
+    } else if (action === 'remove' && !held) {
+      await uncountComment(comment);
+    }
+    await ModerationActionModel.create({
+      comment: comment._id,
+      blogId: comment.blogId,
+      moderator: actor._id,
+      action,
+      note: options.note,
+      waitMs: flaggedAt ? now.getTime() - new Date(flaggedAt).getTime() : 0
+    });
+    return { comment, released };
+  }
+
+  /**
+   * Same decision on many comments, each one checked on its own
+   */
+  async bulkModerate(
+    commentIds: string[],
+    actor: ModerationActor,
+    action: Exclude<ModerationActionType, 'edit'>,
+    note?: string
+  ): Promise<BulkModerationResult> {
+    const result: BulkModerationResult = { processed: [], failed: [], released: [] };
+    for (const commentId of Array.from(new Set(commentIds))) {
+      try {
+        const { comment, released } = await this.moderate(commentId, actor, action, { note });
+        result.processed.push(commentId);
+        if (released) result.released.push(comment);
+      } catch (error: any) {
+        result.failed.push({ commentId, message: error.message });
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Decisions per moderator since a date, with the average time comments waited
+   */
+  async moderatorStats(since: Date) {
+    const [moderators, queue] = await Promise.all([
+      ModerationActionModel.aggregate([
+        { $match: { createdAt: { $gte: since } } },
+        {
+          $group: {
+            _id: '$moderator',
+            total: { $sum: 1 },
+            approve: { $sum: { $cond: [{ $eq: ['$action', 'approve'] }, 1, 0] } },
+            remove: { $sum: { $cond: [{ $eq: ['$action', 'remove'] }, 1, 0] } },
+            edit: { $sum: { $cond: [{ $eq: ['$action', 'edit'] }, 1, 0] } },
+            escalate: { $sum: { $cond: [{ $eq: ['$action', 'escalate'] }, 1, 0] } },
+            averageWaitMs: { $avg: '$waitMs' },
+            lastActionAt: { $max: '$createdAt' }
+          }
+        },
+        { $sort: { total: -1 } },
+        { $lookup: { from: 'users', localField: '_id', foreignField: '_id', as: 'moderator' } },
+        {
+          $project: {
+            _id: 0,
+            moderator: {
+              $let: {
+                vars: { user: { $arrayElemAt: ['$moderator', 0] } },
+                in: { _id: '$_id', name: '$$user.name', username: '$$user.username', avatar: '$$user.avatar' }
+              }
+            },
+            total: 1, approve: 1, remove: 1, edit: 1, escalate: 1,
+            averageWaitMinutes: { $round: [{ $divide: ['$averageWaitMs', 60000] }, 1] },
+            lastActionAt: 1
+          }
+        }
+      ]),
+      CommentModel.aggregate([
+        { $match: { moderationStatus: { $in: QUEUE_STATUSES } } },
+        { $group: { _id: '$moderationStatus', count: { $sum: 1 } } }
+      ])
+    ]);
+
+    const waiting: Record<string, number> = { pending: 0, escalated: 0 };
+    queue.forEach(entry => { waiting[entry._id] = entry.count; });
+    return { moderators, queue: waiting };
+  }
+}
+
+export const commentModerationService = new CommentModerationService();
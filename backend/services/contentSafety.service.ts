@@ -0,0 +1,108 @@
+import { AGE_GROUPS, AgeGroup } from "../utils/ageGroups";
+import { SafetyCategory, SafetySignal, redactPersonalData, runRules } from "../utils/contentSafety";
+
+export type SafetyAction = 'allow' | 'review' | 'block';
+
+export interface AgeGroupVerdict {
+  score: number;
+  action: SafetyAction;
+}
+
+export interface SafetyVerdict {
+  // strongest category found, safe when nothing was
+  category: SafetyCategory | 'safe';
+  score: number;
+  ageGroups: Record<AgeGroup, AgeGroupVerdict>;
+  // youngest age group the content is allowed for, null when none
+  recommendedAgeGroup: AgeGroup | null;
+  flagged: string[];
+  signals: SafetySignal[];
+}
+
+/**
+ * Optional classifier plugged next to the local rules, e.g. a hosted moderation model.
+ * It only receives text with the personal data redacted.
+ */
+export interface ContentSafetyModel {
+  name: string;
+  classify(text: string): Promise<SafetySignal[]>;
+}
+
+// how much each category weighs for each age group, younger readers are protected more
+const SENSITIVITY: Record<SafetyCategory, Record<AgeGroup, number>> = {
+  profanity: { 'kids-6-8': 1, 'kids-9-12': 1, 'kids-13-16': 0.8, general: 0.5 },
+  sexual: { 'kids-6-8': 1, 'kids-9-12': 1, 'kids-13-16': 1, general: 0.8 },
+  violence: { 'kids-6-8': 1, 'kids-9-12': 0.9, 'kids-13-16': 0.7, general: 0.4 },
+  hate: { 'kids-6-8': 1, 'kids-9-12': 1, 'kids-13-16': 1, general: 1 },
+  self_harm: { 'kids-6-8': 1, 'kids-9-12': 1, 'kids-13-16': 1, general: 0.9 },
+  pii: { 'kids-6-8': 1, 'kids-9-12': 1, 'kids-13-16': 0.8, general: 0.3 },
+  link: { 'kids-6-8': 1, 'kids-9-12': 0.8, 'kids-13-16': 0.5, general: 0.2 },
+  spam: { 'kids-6-8': 0.8, 'kids-9-12': 0.8, 'kids-13-16': 0.8, general: 0.8 }
+};
+
+const REVIEW_AT = 0.4;
+const BLOCK_AT = 0.7;
+
+const round = (score: number) => Math.round(score * 100) / 100;
+
+/**
+ * Verdict of a set of signals: the category, and a score and action per age group
+ */
+export const buildVerdict = (signals: SafetySignal[]): SafetyVerdict => {
+  const strongest = signals.reduce<SafetySignal | null>(
+    (best, signal) => !best || signal.score > best.score ? signal : best,
+    null
+  );
+
+  const ageGroups = {} as Record<AgeGroup, AgeGroupVerdict>;
+  AGE_GROUPS.forEach(ageGroup => {
+    const score = round(Math.max(0, ...signals.map(signal => signal.score * SENSITIVITY[signal.category][ageGroup])));
+    ageGroups[ageGroup] = { score, action: score >= BLOCK_AT ? 'block' : score >= REVIEW_AT ? 'review' : 'allow' };
+  });
+
+  return {
+    category: strongest ? strongest.category : 'safe',
+    score: strongest ? strongest.score : 0,
+    ageGroups,
+    recommendedAgeGroup: AGE_GROUPS.find(ageGroup => ageGroups[ageGroup].action === 'allow') || null,
+    flagged: Array.from(new Set(signals.reduce((all: string[], signal) => all.concat(signal.matches), []))),
+    signals
+  };
+};
+
+/**
+ * The stricter of two age groups, the younger one
+ */
+export const stricterAgeGroup = (a: AgeGroup, b: AgeGroup): AgeGroup =>
+  AGE_GROUPS.indexOf(a) <= AGE_GROUPS.indexOf(b) ? a : b;
+
+class ContentSafetyService {
+  private model: ContentSafetyModel | null = null;
+
+  /**
+   * Plug a model next to the local rules, null goes back to the rules only
+   */
+  useModel(model: ContentSafetyModel | null) {
+    this.model = model;
+  }
+
+  /**
+   * Classify a text with the local rules, and the model when one is plugged.
+   * A failing model never blocks a request, the rules verdict is used alone.
+   */
+  async classify(text: string): Promise<SafetyVerdict> {
+    const signals = runRules(text);
+    const model = this.model;
+    if (model && text.trim()) {
+      try {
+        const modelSignals = await model.classify(redactPersonalData(text));
+        signals.push(...modelSignals.map(signal => ({ ...signal, source: model.name })));
+      } catch (error) {
+        console.error('Content safety model failed, using the rules only:', error);
+      }
+    }
+    return buildVerdict(signals);
+  }
+}
+
+export const contentSafetyService = new ContentSafetyService();
@@ -0,0 +1,230 @@
+import crypto from "crypto";
+import mongoose from "mongoose";
+import BlogModel from "../models/blogs.model";
+import userModel from "../models/user.model";
+import { redis } from "../utils/redis";
+import { renderContent } from "../utils/contentRenderer";
+import { SITE_NAME, authorUrl, blogUrl, categoryUrl, escapeXml, siteUrl, tagUrl } from "../utils/siteUrls";
+
+export type FeedFormat = 'rss' | 'atom' | 'json';
+export type FeedScope = 'site' | 'author' | 'category' | 'tag';
+
+export const FEED_FORMATS: FeedFormat[] = ['rss', 'atom', 'json'];
+export const FEED_SCOPES: FeedScope[] = ['site', 'author', 'category', 'tag'];
+
+export const FEED_CACHE_TTL = 900; // 15 minutes
+const FEED_SIZE = 20;
+
+const CONTENT_TYPES: Record<FeedFormat, string> = {
+  rss: 'application/rss+xml; charset=utf-8',
+  atom: 'application/atom+xml; charset=utf-8',
+  json: 'application/feed+json; charset=utf-8'
+};
+
+export interface FeedParams {
+  format: FeedFormat;
+  scope: FeedScope;
+  value?: string;
+  isKidsContent?: boolean;
+  ageGroup?: string;
+  // absolute url the feed was requested from
+  selfUrl: string;
+}
+
+export interface Feed {
+  body: string;
+  contentType: string;
+  etag: string;
+  lastModified: string;
+}
+
+interface FeedItem {
+  id: string;
+  url: string;
+  title: string;
+  summary: string;
+  html: string;
+  image?: string;
+  author: { name: string; url: string };
+  tags: string[];
+  published: Date;
+  updated: Date;
+}
+
+interface FeedMeta {
+  title: string;
+  description: string;
+  homeUrl: string;
+  selfUrl: string;
+  updated: Date;
+}
+
+class FeedService {
+  /**
+   * Feed of the latest published blogs of the site, an author, a category or a tag.
+   * Returns null when the author does not exist.
+   */
+  async getFeed(params: FeedParams): Promise<Feed | null> {
+    const cacheKey = `feeds:${crypto.createHash('sha1').update(JSON.stringify(params)).digest('hex')}`;
+    const cached = await redis.get(cacheKey);
+    if (cached) {
+      return (typeof cached === 'string' ? JSON.parse(cached) : cached) as Feed;
+    }
+
+    const filter: Record<string, any> = { isPublished: true, draft: false };
+    let title = `${SITE_NAME} blogs`;
+    let homeUrl = siteUrl();
+
+    if (params.scope === 'author') {
+      if (!mongoose.Types.ObjectId.isValid(params.value || '')) return null;
+      const author = await userModel.findById(params.value).select('name username').lean();
+      if (!author) return null;
+      filter.author = author._id;
+      title = `${author.name} on ${SITE_NAME}`;
+      homeUrl = authorUrl(author);
+    } else if (params.scope === 'category') {
+      filter.category = params.value;
+      title = `${SITE_NAME} - ${params.value}`;
+      homeUrl = categoryUrl(params.value || '');
+    } else if (params.scope === 'tag') {
+      filter.tags = params.value?.toLowerCase();
+      title = `${SITE_NAME} - #${params.value}`;
+      homeUrl = tagUrl(params.value || '');
+    }
+    if (params.isKidsContent !== undefined) filter.isKidsContent = params.isKidsContent;
+    if (params.ageGroup) filter.ageGroup = params.ageGroup;
+
+    const blogs = await BlogModel.find(filter)
+      .select('title slug des banner tags content author published_at updatedAt')
+      .populate('author', 'name username')
+      .sort({ published_at: -1, _id: -1 })
+      .limit(FEED_SIZE)
+      .lean();
+
+    const items: FeedItem[] = blogs.map((blog: any) => {
+      const url = blogUrl(blog);
+      return {
+        id: url,
+        url,
+        title: blog.title,
+        summary: blog.des || '',
+        html: renderContent(blog.content, 'html'),
+        image: blog.banner,
+        author: {
+          name: blog.author?.name || SITE_NAME,
+          url: authorUrl(blog.author || {})
+        },
+        tags: blog.tags || [],
+        published: new Date(blog.published_at),
+        updated: new Date(blog.updatedAt || blog.published_at)
+      };
+    });
+
+    const updated = items.reduce((latest, item) => item.updated > latest ? item.updated : latest, new Date(0));
+    const meta: FeedMeta = {
+      title,
+      description: `Latest blogs from ${title}`,
+      homeUrl,
+      selfUrl: params.selfUrl,
+      updated: items.length ? updated : new Date()
+    };
+
+    const body = params.format === 'rss'
+      ? this.toRss(meta, items)
+      : params.format === 'atom'
+        ? this.toAtom(meta, items)
+        : this.toJsonFeed(meta, items);
+
+    const feed: Feed = {
+      body,
+      contentType: CONTENT_TYPES[params.format],
+      etag: `"${crypto.createHash('sha1').update(body).digest('hex')}"`,
+      lastModified: meta.updated.toUTCString()
+    };
+    await redis.setex(cacheKey, FEED_CACHE_TTL, JSON.stringify(feed));
+    return feed;
+  }
+
+  private toRss(meta: FeedMeta, items: FeedItem[]): string {
+    const entries = items.map(item => [
+      '<item>',
+      `<title>${escapeXml(item.title)}</title>`,
+      `<link>${escapeXml(item.url)}</link>`,
+      `<guid isPermaLink="true">${escapeXml(item.id)}</guid>`,
+      `<pubDate>${item.published.toUTCString()}</pubDate>`,
+      `<dc:creator>${escapeXml(item.author.name)}</dc:creator>`,
+      ...item.tags.map(tag => `<category>${escapeXml(tag)}</category>`),
+      `<description>${escapeXml(item.summary)}</description>`,
+      `<content:encoded>${escapeXml(item.html)}</content:encoded>`,
+      item.image ? `<enclosure url="${escapeXml(item.image)}" type="image/jpeg" length="0"/>` : '',
+      '</item>'
+    ].filter(Boolean).join(''));
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:dc="http://purl.org/dc/elements/1.1/">',
+      '<channel>',
+      `<title>${escapeXml(meta.title)}</title>`,
+      `<link>${escapeXml(meta.homeUrl)}</link>`,
+      `<description>${escapeXml(meta.description)}</description>`,
+      `<atom:link href="${escapeXml(meta.selfUrl)}" rel="self" type="application/rss+xml"/>`,
+      `<lastBuildDate>${meta.updated.toUTCString()}</lastBuildDate>`,
+      ...entries,
+      '</channel>',
+      '</rss>'
+    ].join('\n');
+  }
+
+  private toAtom(meta: FeedMeta, items: FeedItem[]): string {
+    const entries = items.map(item => [
+      '<entry>',
+      `<id>${escapeXml(item.id)}</id>`,
+      `<title>${escapeXml(item.title)}</title>`,
+      `<link rel="alternate" type="text/html" href="${escapeXml(item.url)}"/>`,
+      `<published>${item.published.toISOString()}</published>`,
+      `<updated>${item.updated.toISOString()}</updated>`,
+      `<author><name>${escapeXml(item.author.name)}</name><uri>${escapeXml(item.author.url)}</uri></author>`,
+      ...item.tags.map(tag => `<category term="${escapeXml(tag)}"/>`),
+      `<summary>${escapeXml(item.summary)}</summary>`,
+      `<content type="html">${escapeXml(item.html)}</content>`,
+      '</entry>'
+    ].join(''));
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<feed xmlns="http://www.w3.org/2005/Atom">',
+      `<id>${escapeXml(meta.selfUrl)}</id>`,
+      `<title>${escapeXml(meta.title)}</title>`,
+      `<subtitle>${escapeXml(meta.description)}</subtitle>`,
+      `<link rel="self" type="application/atom+xml" href="${escapeXml(meta.selfUrl)}"/>`,
+      `<link rel="alternate" type="text/html" href="${escapeXml(meta.homeUrl)}"/>`,
+      `<updated>${meta.updated.toISOString()}</updated>`,
+      ...entries,
+      '</feed>'
+    ].join('\n');
+  }
+
+  private toJsonFeed(meta: FeedMeta, items: FeedItem[]): string {
+    return JSON.stringify({
+      version: 'https://jsonfeed.org/version/1.1',
+      title: meta.title,
+      description: meta.description,
+      home_page_url: meta.homeUrl,
+      feed_url: meta.selfUrl,
+      items: items.map(item => ({
+        id: item.id,
+        url: item.url,
+        title: item.title,
+        summary: item.summary,
+        content_html: item.html,
+        image: item.image,
+        date_published: item.published.toISOString(),
+        date_modified: item.updated.toISOString(),
+        authors: [item.author],
+        tags: item.tags
+      }))
+    });
+  }
+}
+
+export const feedService = new FeedService();
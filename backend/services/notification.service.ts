@@ -6,7 +6,7 @@ import { redis } from "../utils/redis";
 export interface NotificationData {
   recipient: string;
   sender?: string;
-  type: 'like' | 'comment' | 'follow' | 'mention' | 'blog_published' | 'system';
+  type: 'like' | 'comment' | 'follow' | 'mention' | 'blog_published' | 'blog_review' | 'blog_invitation' | 'system';
   title: string;
   message: string;
   data?: any;
@@ -277,6 +277,95 @@ class NotificationService {
     }
   }
 
+  /**
+   * Send notification to the author when their blog moves in the review workflow
+   */
+  async notifyOfBlogStatusChange(
+    blogAuthorId: string,
+    actorId: string | undefined,
+    blogTitle: string,
+    blogId: string,
+    from: string,
+    to: string,
+    comment?: string
+  ) {
+    try {
+      // Don't notify authors of their own transitions
+      if (blogAuthorId === actorId) return;
+
+      const label = to.replace(/_/g, ' ');
+      await this.createNotification({
+        recipient: blogAuthorId,
+        sender: actorId,
+        type: 'blog_review',
+        title: 'Blog Review Update',
+        message: comment
+          ? `Your blog "${blogTitle}" is now ${label}: ${comment}`
+          : `Your blog "${blogTitle}" is now ${label}`,
+        data: { blogId, blogTitle, from, to, comment }
+      });
+    } catch (error) {
+      console.error('Error notifying of blog status change:', error);
+    }
+  }
+
+  /**
+   * Send notification to a user invited to contribute to a blog
+   */
+  async notifyOfContributorInvitation(
+    inviteeId: string,
+    inviterId: string,
+    role: string,
+    blogTitle: string,
+    blogId: string
+  ) {
+    try {
+      const inviter = await UserModel.findById(inviterId).select('name');
+      if (!inviter) return;
+
+      await this.createNotification({
+        recipient: inviteeId,
+        sender: inviterId,
+        type: 'blog_invitation',
+        title: 'Blog Invitation',
+        message: `${inviter.name} invited you as ${role} on the blog "${blogTitle}"`,
+        data: { blogId, blogTitle, role }
+      });
+    } catch (error) {
+      console.error('Error notifying of contributor invitation:', error);
+    }
+  }
+
+  /**
+   * Send notification for a reply to a comment
+   */
+  async notifyOfCommentReply(
+    commentAuthorId: string,
+    replyAuthorId: string,
+    blogTitle: string,
+    blogId: string,
+    commentId: string
+  ) {
+    try {
+      // Don't notify when replying to oneself
+      if (commentAuthorId === replyAuthorId) return;
+
+      const replyAuthor = await UserModel.findById(replyAuthorId).select('name');
+      if (!replyAuthor) return;
+
+      await this.createNotification({
+        recipient: commentAuthorId,
+        sender: replyAuthorId,
+        type: 'comment',
+        title: 'New Reply',
+        message: `${replyAuthor.name} replied to your comment on "${blogTitle}"`,
+        data: { blogId, blogTitle, commentId }
+      });
+    } catch (error) {
+      console.error('Error notifying of comment reply:', error);
+    }
+  }
+
   /**
    * Send system notification
    */
@@ -0,0 +1,100 @@
+import mongoose from "mongoose";
+import BlogModel from "../models/blogs.model";
+import userModel from "../models/user.model";
+import { redis } from "../utils/redis";
+
+// a view turns into a read after this many seconds or this scroll depth (percent)
+export const MIN_READ_TIME = 30;
+export const MIN_SCROLL_DEPTH = 50;
+
+// one read per user (or anonymous reader) and blog in this window
+const READ_WINDOW = 60 * 60 * 24; // 1 day
+// longer views are capped, the tab was most likely left open
+const MAX_READ_TIME = 60 * 60;
+
+export interface ViewEnd {
+  blogId: string;
+  sessionId: string;
+  userId?: string;
+  // tells anonymous readers apart, set by the server: the session id is chosen by the client
+  readerFingerprint?: string;
+  readTime: number; // seconds
+  scrollDepth: number; // percent
+}
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(Math.max(Number(value) || 0, min), max);
+
+class ReadTrackingService {
+  /**
+   * Only views of a live blog are recorded: published, out of draft and not in the trash
+   */
+  async isReadable(blogId: string): Promise<boolean> {
+    if (!mongoose.Types.ObjectId.isValid(blogId)) return false;
+    return Boolean(await BlogModel.exists({ _id: blogId, isPublished: true, draft: false, deletedAt: null }));
+  }
+
+  /**
+   * Record the end of a blog view.
+   * Every view feeds average_read_time and bounce_rate once per session,
+   * it counts as a read only past the thresholds and once per reader in the window.
+   */
+  async recordViewEnd(view: ViewEnd): Promise<{ counted: boolean; read: boolean }> {
+    const readTime = clamp(view.readTime, 0, MAX_READ_TIME);
+    const scrollDepth = clamp(view.scrollDepth, 0, 100);
+    const isRead = readTime >= MIN_READ_TIME || scrollDepth >= MIN_SCROLL_DEPTH;
+
+    // the same view can be reported more than once (socket and REST fallback)
+    const firstReport = await this.claim(`reads:view:${view.blogId}:${view.sessionId}`);
+    if (!firstReport) {
+      return { counted: false, read: false };
+    }
+    await this.recordViewSample(view.blogId, readTime, !isRead);
+
+    if (!isRead) {
+      return { counted: true, read: false };
+    }
+    const reader = view.userId ? `user:${view.userId}` : view.readerFingerprint ? `anonymous:${view.readerFingerprint}` : null;
+    if (!reader) {
+      return { counted: true, read: false };
+    }
+    const firstRead = await this.claim(`reads:read:${view.blogId}:${reader}`);
+    if (!firstRead) {
+      return { counted: true, read: false };
+    }
+
+    await BlogModel.updateOne({ _id: view.blogId }, { $inc: { 'activity.total_reads': 1 } });
+    if (view.userId) {
+      await userModel.updateOne({ _id: view.userId }, { $inc: { 'account_info.total_reads': 1 } });
+    }
+    return { counted: true, read: true };
+  }
+
+  /**
+   * Fold one finished view into the running average read time and bounce rate
+   */
+  private async recordViewSample(blogId: string, readTime: number, bounced: boolean) {
+    const views = { $ifNull: ['$activity.total_views', 0] };
+    const runningAverage = (field: string, sample: number) => ({
+      $divide: [
+        { $add: [{ $multiply: [{ $ifNull: [field, 0] }, views] }, sample] },
+        { $add: [views, 1] }
+      ]
+    });
+
+    await BlogModel.updateOne({ _id: blogId }, [{
+      $set: {
+        'activity.average_read_time': runningAverage('$activity.average_read_time', readTime),
+        'activity.bounce_rate': runningAverage('$activity.bounce_rate', bounced ? 1 : 0),
+        'activity.total_views': { $add: [views, 1] }
+      }
+    }]);
+  }
+
+  // true when the key did not exist yet
+  private async claim(key: string) {
+    return (await redis.set(key, 1, { nx: true, ex: READ_WINDOW })) === 'OK';
+  }
+}
+
+export const readTrackingService = new ReadTrackingService();
@@ -4,6 +4,7 @@ import { Server as SocketIOServer, Socket } from 'socket.io';
 import { IUser } from '../models/user.model';
 import { INotification } from '../models/notification.model';
 import { UserActivityModel } from '../models/analytics.model';
+import { readTrackingService } from './readTracking.service';
 
 interface AuthenticatedSocket extends Socket {
     userId?: string;
@@ -150,6 +151,22 @@ class RealtimeService {
                     }
                 }
             );
+
+            // Count the read once the thresholds are reached, on live blogs only as over HTTP
+            try {
+                if (!await readTrackingService.isReadable(data.blogId)) {
+                    return;
+                }
+                await readTrackingService.recordViewEnd({
+                    blogId: data.blogId,
+                    sessionId: data.sessionId,
+                    userId: socket.userId,
+                    readTime: data.readTime,
+                    scrollDepth: data.scrollDepth
+                });
+            } catch (error) {
+                console.error('Error recording article read:', error);
+            }
         });
     }
 
@@ -0,0 +1,168 @@
+import mongoose from "mongoose";
+import BlogModel, { IBlog } from "../models/blogs.model";
+import { UserActivityModel } from "../models/analytics.model";
+import { redis } from "../utils/redis";
+import { AgeGroup } from "../utils/ageGroups";
+
+const RELATED_CACHE_TTL = 6 * 3600; // 6 hours
+// more than any page asks for, kids accounts filter some out per request
+const RELATED_CACHED = 20;
+const MAX_CANDIDATES = 200;
+const CO_READING_WINDOW_DAYS = 90;
+const MAX_CO_READERS = 1000;
+
+// weight of each signal in the score
+const WEIGHTS = {
+  tag: 3,
+  category: 2,
+  ageGroup: 1,
+  // for the most co-read candidate, the others get a share of it
+  coReading: 4
+};
+
+export interface RelatedPost {
+  _id: string;
+  title: string;
+  slug: string;
+  des: string;
+  banner: string;
+  tags: string[];
+  category?: string;
+  ageGroup?: AgeGroup;
+  language?: string;
+  readingTime: number;
+  author: any;
+  published_at: Date;
+  score: number;
+}
+
+export const relatedCacheKey = (blogId: string) => `related:${blogId}`;
+
+export type SourceBlog = Pick<IBlog, '_id' | 'tags' | 'category' | 'ageGroup' | 'isKidsContent' | 'translationOf'>;
+
+class RelatedPostsService {
+  /**
+   * Published blogs to read after a blog, best score first, cached per blog
+   * until the blog changes (see invalidateBlogCache).
+   * Candidates always share the kids / general audience of the blog.
+   */
+  async getRelated(blog: SourceBlog, limit: number, allowedAgeGroups: AgeGroup[] | null): Promise<RelatedPost[]> {
+    const blogId = String(blog._id);
+    const cached = await redis.get(relatedCacheKey(blogId));
+    let related: RelatedPost[];
+    if (cached) {
+      related = typeof cached === 'string' ? JSON.parse(cached) : cached as RelatedPost[];
+      // the cached blogs may have been unpublished or trashed since
+      const stillPublished = await BlogModel.find({
+        _id: { $in: related.map(post => post._id) },
+        isPublished: true,
+        draft: false,
+        deletedAt: null
+      }).select('_id').lean();
+      const published = new Set(stillPublished.map(post => String(post._id)));
+      related = related.filter(post => published.has(post._id));
+    } else {
+      related = await this.compute(blog);
+      await redis.setex(relatedCacheKey(blogId), RELATED_CACHE_TTL, JSON.stringify(related));
+    }
+
+    return related
+      .filter(post => !allowedAgeGroups || allowedAgeGroups.includes(post.ageGroup as AgeGroup))
+      .slice(0, limit);
+  }
+
+  private async compute(blog: SourceBlog): Promise<RelatedPost[]> {
+    const blogId = String(blog._id);
+    const groupId = blog.translationOf || blog._id;
+    const coReads = await this.coReadCounts(blogId);
+    const coReadIds = Array.from(coReads.keys())
+      .filter(id => mongoose.Types.ObjectId.isValid(id))
+      .map(id => new mongoose.Types.ObjectId(id));
+
+    const signals: Record<string, any>[] = [];
+    if (blog.tags?.length) signals.push({ tags: { $in: blog.tags } });
+    if (blog.category) signals.push({ category: blog.category });
+    if (coReadIds.length) signals.push({ _id: { $in: coReadIds } });
+    if (!signals.length) return [];
+
+    const candidates = await BlogModel.find({
+      isPublished: true,
+      draft: false,
+      deletedAt: null,
+      // never cross the kids / general boundary, blogs stored without the flag are general
+      isKidsContent: blog.isKidsContent ? true : { $ne: true },
+      // translations of the blog are not related posts
+      _id: { $ne: blog._id },
+      translationOf: { $ne: groupId },
+      $or: signals
+    })
+      .select('title slug des banner tags category ageGroup language readingTime author published_at activity.engagement_score translationOf')
+      .populate('author', 'name username avatar')
+      .sort({ published_at: -1 })
+      .limit(MAX_CANDIDATES)
+      .lean();
+
+    const maxCoReaders = Math.max(0, ...Array.from(coReads.values()));
+    const scored = candidates
+      .filter(candidate => String(candidate._id) !== String(groupId))
+      .map(candidate => {
+        const id = String(candidate._id);
+        const sharedTags = (candidate.tags || []).filter(tag => blog.tags?.includes(tag)).length;
+        const score = sharedTags * WEIGHTS.tag
+          + (blog.category && candidate.category === blog.category ? WEIGHTS.category : 0)
+          + (candidate.ageGroup === blog.ageGroup ? WEIGHTS.ageGroup : 0)
+          + (maxCoReaders ? WEIGHTS.coReading * (coReads.get(id) || 0) / maxCoReaders : 0);
+        return { candidate, score: Math.round(score * 100) / 100 };
+      })
+      .sort((a, b) => b.score - a.score
+        || (b.candidate.activity?.engagement_score || 0) - (a.candidate.activity?.engagement_score || 0)
+        || new Date((b.candidate as any).published_at).getTime() - new Date((a.candidate as any).published_at).getTime());
+
+    return scored.slice(0, RELATED_CACHED).map(({ candidate, score }) => ({
+      _id: String(candidate._id),
+      title: candidate.title,
+      slug: candidate.slug,
+      des: candidate.des,
+      banner: candidate.banner,
+      tags: candidate.tags,
+      category: candidate.category,
+      ageGroup: candidate.ageGroup,
+      language: candidate.language,
+      readingTime: candidate.readingTime,
+      author: candidate.author,
+      published_at: (candidate as any).published_at,
+      score
+    }));
+  }
+
+  // blogs viewed by the recent readers of a blog, with the number of those readers
+  private async coReadCounts(blogId: string): Promise<Map<string, number>> {
+    const since = new Date(Date.now() - CO_READING_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+    const readers = await UserActivityModel.aggregate([
+      { $match: { resourceType: 'blog', resourceId: blogId, action: 'view', timestamp: { $gte: since } } },
+      { $group: { _id: '$userId', last: { $max: '$timestamp' } } },
+      { $sort: { last: -1 } },
+      { $limit: MAX_CO_READERS }
+    ]);
+    if (!readers.length) return new Map();
+
+    const coReads = await UserActivityModel.aggregate([
+      {
+        $match: {
+          userId: { $in: readers.map(reader => reader._id) },
+          resourceType: 'blog',
+          resourceId: { $ne: blogId },
+          action: 'view',
+          timestamp: { $gte: since }
+        }
+      },
+      { $group: { _id: '$resourceId', readers: { $addToSet: '$userId' } } },
+      { $project: { count: { $size: '$readers' } } },
+      { $sort: { count: -1 } },
+      { $limit: 50 }
+    ]);
+    return new Map(coReads.map(entry => [String(entry._id), entry.count as number]));
+  }
+}
+
+export const relatedPostsService = new RelatedPostsService();
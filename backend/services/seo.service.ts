@@ -0,0 +1,164 @@
+import BlogModel from "../models/blogs.model";
+import userModel from "../models/user.model";
+import { DEFAULT_LANGUAGE } from "../utils/languages";
+import { SITE_NAME, authorUrl, blogUrl, categoryUrl, escapeXml, siteUrl } from "../utils/siteUrls";
+
+export type SitemapKind = 'blogs' | 'authors' | 'categories';
+
+export const SITEMAP_KINDS: SitemapKind[] = ['blogs', 'authors', 'categories'];
+
+// well under the 50,000 urls allowed per sitemap
+export const SITEMAP_PAGE_SIZE = 5000;
+export const SITEMAP_CACHE_TTL = 3600; // 1 hour
+
+const PUBLISHED = { isPublished: true, draft: false };
+
+// kids age groups as schema.org typicalAgeRange
+const TYPICAL_AGE_RANGES: Record<string, string> = {
+  'kids-6-8': '6-8',
+  'kids-9-12': '9-12',
+  'kids-13-16': '13-16'
+};
+
+interface SitemapEntry {
+  loc: string;
+  lastmod?: Date;
+}
+
+const urlset = (entries: SitemapEntry[]) => [
+  '<?xml version="1.0" encoding="UTF-8"?>',
+  '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+  ...entries.map(entry => `<url><loc>${escapeXml(entry.loc)}</loc>${entry.lastmod ? `<lastmod>${entry.lastmod.toISOString()}</lastmod>` : ''}</url>`),
+  '</urlset>'
+].join('\n');
+
+class SeoService {
+  /**
+   * Sitemap index listing every page of every sitemap, urls relative to baseUrl
+   */
+  async getSitemapIndex(baseUrl: string): Promise<string> {
+    const [blogs, authors, categories] = await Promise.all([
+      this.lastModified(PUBLISHED),
+      this.authorStats(),
+      BlogModel.distinct('category', { ...PUBLISHED, category: { $nin: [null, ''] } })
+    ]);
+
+    const sitemaps: SitemapEntry[] = [];
+    for (let page = 1; page <= Math.ceil(blogs.count / SITEMAP_PAGE_SIZE); page++) {
+      sitemaps.push({ loc: `${baseUrl}/sitemaps/blogs-${page}.xml`, lastmod: blogs.lastmod });
+    }
+    for (let page = 1; page <= Math.ceil(authors.count / SITEMAP_PAGE_SIZE); page++) {
+      sitemaps.push({ loc: `${baseUrl}/sitemaps/authors-${page}.xml`, lastmod: authors.lastmod });
+    }
+    for (let page = 1; page <= Math.ceil(categories.length / SITEMAP_PAGE_SIZE); page++) {
+      sitemaps.push({ loc: `${baseUrl}/sitemaps/categories-${page}.xml`, lastmod: blogs.lastmod });
+    }
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+      ...sitemaps.map(sitemap => `<sitemap><loc>${escapeXml(sitemap.loc)}</loc>${sitemap.lastmod ? `<lastmod>${sitemap.lastmod.toISOString()}</lastmod>` : ''}</sitemap>`),
+      '</sitemapindex>'
+    ].join('\n');
+  }
+
+  /**
+   * One page of a sitemap, null when the page does not exist
+   */
+  async getSitemap(kind: SitemapKind, page: number): Promise<string | null> {
+    const skip = (page - 1) * SITEMAP_PAGE_SIZE;
+    let entries: SitemapEntry[];
+
+    if (kind === 'blogs') {
+      const blogs = await BlogModel.find(PUBLISHED)
+        .select('slug updatedAt published_at')
+        .sort({ published_at: -1, _id: -1 })
+        .skip(skip)
+        .limit(SITEMAP_PAGE_SIZE)
+        .lean();
+      entries = blogs.map((blog: any) => ({ loc: blogUrl(blog), lastmod: blog.updatedAt || blog.published_at }));
+    } else if (kind === 'authors') {
+      const authors = await BlogModel.aggregate([
+        { $match: PUBLISHED },
+        { $group: { _id: '$author', lastmod: { $max: '$updatedAt' } } },
+        { $sort: { _id: 1 } },
+        { $skip: skip },
+        { $limit: SITEMAP_PAGE_SIZE },
+        { $lookup: { from: userModel.collection.name, localField: '_id', foreignField: '_id', as: 'user' } },
+        { $unwind: '$user' },
+        { $project: { lastmod: 1, username: '$user.username' } }
+      ]);
+      entries = authors.map(author => ({ loc: authorUrl(author), lastmod: author.lastmod }));
+    } else {
+      const categories = await BlogModel.aggregate([
+        { $match: { ...PUBLISHED, category: { $nin: [null, ''] } } },
+        { $group: { _id: '$category', lastmod: { $max: '$updatedAt' } } },
+        { $sort: { _id: 1 } },
+        { $skip: skip },
+        { $limit: SITEMAP_PAGE_SIZE }
+      ]);
+      entries = categories.map(category => ({ loc: categoryUrl(category._id), lastmod: category.lastmod }));
+    }
+
+    // the first page always exists, even empty
+    if (!entries.length && page > 1) return null;
+    return urlset(entries);
+  }
+
+  /**
+   * schema.org JSON-LD of a blog, a LearningResource as well for kids and educational content
+   */
+  async getBlogJsonLd(blog: any): Promise<Record<string, any>> {
+    const author = await userModel.findById(blog.author?._id || blog.author).select('name username').lean();
+    const isLearningResource = Boolean(blog.isKidsContent || blog.educationalLevel);
+    const typicalAgeRange = TYPICAL_AGE_RANGES[blog.ageGroup];
+    const url = blogUrl(blog);
+
+    return {
+      '@context': 'https://schema.org',
+      '@type': isLearningResource ? ['Article', 'LearningResource'] : 'Article',
+      '@id': url,
+      url,
+      mainEntityOfPage: url,
+      headline: String(blog.title || '').slice(0, 110),
+      inLanguage: blog.language || DEFAULT_LANGUAGE,
+      description: blog.metaDescription || blog.des,
+      image: blog.banner ? [blog.banner] : undefined,
+      datePublished: blog.published_at ? new Date(blog.published_at).toISOString() : undefined,
+      dateModified: blog.updatedAt ? new Date(blog.updatedAt).toISOString() : undefined,
+      author: author ? { '@type': 'Person', name: author.name, url: authorUrl(author) } : undefined,
+      publisher: { '@type': 'Organization', name: SITE_NAME, url: siteUrl() },
+      keywords: blog.tags?.length ? blog.tags.join(', ') : undefined,
+      articleSection: blog.category || undefined,
+      timeRequired: blog.readingTime ? `PT${blog.readingTime}M` : undefined,
+      isAccessibleForFree: true,
+      ...(isLearningResource ? {
+        learningResourceType: 'article',
+        educationalLevel: blog.educationalLevel,
+        typicalAgeRange,
+        audience: typicalAgeRange
+          ? { '@type': 'EducationalAudience', educationalRole: 'student', audienceType: `children aged ${typicalAgeRange}` }
+          : undefined
+      } : {})
+    };
+  }
+
+  private async lastModified(filter: Record<string, any>) {
+    const [stats] = await BlogModel.aggregate([
+      { $match: filter },
+      { $group: { _id: null, count: { $sum: 1 }, lastmod: { $max: '$updatedAt' } } }
+    ]);
+    return { count: stats?.count || 0, lastmod: stats?.lastmod as Date | undefined };
+  }
+
+  private async authorStats() {
+    const [stats] = await BlogModel.aggregate([
+      { $match: PUBLISHED },
+      { $group: { _id: '$author', lastmod: { $max: '$updatedAt' } } },
+      { $group: { _id: null, count: { $sum: 1 }, lastmod: { $max: '$lastmod' } } }
+    ]);
+    return { count: stats?.count || 0, lastmod: stats?.lastmod as Date | undefined };
+  }
+}
+
+export const seoService = new SeoService();
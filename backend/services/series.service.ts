@@ -0,0 +1,97 @@
+import mongoose from "mongoose";
+import SeriesModel from "../models/series.model";
+import BlogModel from "../models/blogs.model";
+import { UserActivityModel } from "../models/analytics.model";
+
+// a part counts as completed once the reader scrolled through most of it
+const COMPLETED_SCROLL_DEPTH = 80;
+
+const PART_FIELDS = '_id title slug banner des';
+
+class SeriesService {
+  /**
+   * Published parts of a series, in series order
+   */
+  async getPublishedParts(blogIds: any[]) {
+    const blogs = await BlogModel.find({ _id: { $in: blogIds }, isPublished: true, draft: false })
+      .select(PART_FIELDS)
+      .lean();
+    const byId = new Map(blogs.map(blog => [String(blog._id), blog]));
+    return blogIds.map(id => byId.get(String(id))).filter(Boolean) as typeof blogs;
+  }
+
+  /**
+   * Previous/next navigation of a blog inside its series, null when the blog is in no series
+   */
+  async getNavigation(blogId: string) {
+    const series = await SeriesModel.findOne({ blogs: blogId, isPublished: true })
+      .select('title cover ageGroup blogs')
+      .lean();
+    if (!series) return null;
+
+    const parts = await this.getPublishedParts(series.blogs);
+    const index = parts.findIndex(part => String(part._id) === blogId);
+    if (index === -1) return null;
+
+    return {
+      series: { _id: series._id, title: series.title, cover: series.cover, ageGroup: series.ageGroup },
+      position: index + 1,
+      total: parts.length,
+      previous: index > 0 ? parts[index - 1] : null,
+      next: index < parts.length - 1 ? parts[index + 1] : null
+    };
+  }
+
+  /**
+   * Progress of a reader through a series, from their view events
+   */
+  async getProgress(seriesId: string, userId: string) {
+    const series = await SeriesModel.findById(seriesId).select('title blogs').lean();
+    if (!series) return null;
+
+    const parts = await this.getPublishedParts(series.blogs);
+    const partIds = parts.map(part => String(part._id));
+
+    const views = await UserActivityModel.aggregate([
+      {
+        $match: {
+          userId: new mongoose.Types.ObjectId(userId),
+          action: 'view',
+          resourceType: 'blog',
+          resourceId: { $in: partIds }
+        }
+      },
+      {
+        $group: {
+          _id: '$resourceId',
+          maxScrollDepth: { $max: { $ifNull: ['$metadata.scrollDepth', 0] } },
+          lastViewedAt: { $max: '$timestamp' }
+        }
+      }
+    ]);
+    const viewsByBlog = new Map(views.map(view => [view._id as string, view]));
+
+    const progress = parts.map((part, index) => {
+      const view = viewsByBlog.get(String(part._id));
+      return {
+        position: index + 1,
+        blog: part,
+        viewed: Boolean(view),
+        completed: Boolean(view && view.maxScrollDepth >= COMPLETED_SCROLL_DEPTH),
+        lastViewedAt: view?.lastViewedAt || null
+      };
+    });
+    const completed = progress.filter(part => part.completed).length;
+
+    return {
+      series: { _id: series._id, title: series.title },
+      total: parts.length,
+      completed,
+      percent: parts.length ? Math.round((completed / parts.length) * 100) : 0,
+      nextPart: progress.find(part => !part.completed)?.blog || null,
+      parts: progress
+    };
+  }
+}
+
+export const seriesService = new SeriesService();
@@ -0,0 +1,157 @@
+import TagModel from "../models/tag.model";
+import BlogModel from "../models/blogs.model";
+import { slugify } from "../utils/slug";
+import { invalidateBlogCaches } from "./blog.service";
+
+export interface NormalizedTags {
+  tags: string[];
+  // tags refused because the blog is kids content
+  blocked: string[];
+}
+
+// rewrite the tags of every blog using one of the sources to the target, keeping order and dropping duplicates
+const rewriteTagsPipeline = (sources: string[], target: string) => [{
+  $set: {
+    tags: {
+      $reduce: {
+        input: { $map: { input: '$tags', in: { $cond: [{ $in: ['$$this', sources] }, target, '$$this'] } } },
+        initialValue: [],
+        in: { $cond: [{ $in: ['$$this', '$$value'] }, '$$value', { $concatArrays: ['$$value', ['$$this']] }] }
+      }
+    }
+  }
+}];
+
+class TagService {
+  /**
+   * Canonical slugs of the tags of a blog: near-duplicate spellings and aliases
+   * are mapped to the registered tag, duplicates dropped
+   */
+  async normalizeTags(rawTags: string[], isKidsContent: boolean): Promise<NormalizedTags> {
+    const slugs = rawTags.filter(tag => String(tag).trim()).map(tag => slugify(String(tag)));
+    const registered = await TagModel.find({ $or: [{ slug: { $in: slugs } }, { aliases: { $in: slugs } }] })
+      .select('slug aliases blockedForKids')
+      .lean();
+
+    const tags: string[] = [];
+    const blocked: string[] = [];
+    for (const slug of slugs) {
+      const tag = registered.find(entry => entry.slug === slug) || registered.find(entry => entry.aliases.includes(slug));
+      const canonical = tag?.slug || slug;
+      if (isKidsContent && tag?.blockedForKids) {
+        if (!blocked.includes(canonical)) blocked.push(canonical);
+        continue;
+      }
+      if (!tags.includes(canonical)) tags.push(canonical);
+    }
+    return { tags, blocked };
+  }
+
+  /**
+   * Tags of the list that are blocked on kids content
+   */
+  async blockedForKids(tags: string[]): Promise<string[]> {
+    if (!tags.length) return [];
+    const blocked = await TagModel.find({ slug: { $in: tags }, blockedForKids: true }).select('slug').lean();
+    return blocked.map(tag => tag.slug);
+  }
+
+  /**
+   * Update usage counts after the tags of a blog changed, registering new tags
+   */
+  async syncUsage(previous: string[], next: string[]) {
+    const added = next.filter(tag => !previous.includes(tag));
+    const removed = previous.filter(tag => !next.includes(tag));
+    if (!added.length && !removed.length) return;
+
+    await TagModel.bulkWrite([
+      ...added.map(slug => ({
+        updateOne: {
+          filter: { slug },
+          update: { $inc: { usageCount: 1 }, $setOnInsert: { name: slug } },
+          upsert: true
+        }
+      })),
+      ...removed.map(slug => ({
+        updateOne: {
+          filter: { slug, usageCount: { $gt: 0 } },
+          update: { $inc: { usageCount: -1 } }
+        }
+      }))
+    ]);
+  }
+
+  /**
+   * Recompute every usage count from the blogs, registering tags missing from the registry
+   */
+  async recountUsage(): Promise<number> {
+    const counts: Array<{ _id: string; count: number }> = await BlogModel.aggregate([
+      { $match: { deletedAt: null } },
+      { $unwind: '$tags' },
+      { $group: { _id: '$tags', count: { $sum: 1 } } }
+    ]);
+
+    if (counts.length) {
+      await TagModel.bulkWrite(counts.map(({ _id, count }) => ({
+        updateOne: {
+          filter: { slug: _id },
+          update: { $set: { usageCount: count }, $setOnInsert: { name: _id } },
+          upsert: true
+        }
+      })));
+    }
+    await TagModel.updateMany({ slug: { $nin: counts.map(({ _id }) => _id) } }, { $set: { usageCount: 0 } });
+    return counts.length;
+  }
+
+  /**
+   * Merge tags into a target tag: blogs are rewritten and the merged tags become aliases of the target
+   */
+  async merge(sources: string[], target: string) {
+    const targetTag = await TagModel.findOne({ slug: target });
+    if (!targetTag) return null;
+    const merged = sources.filter(source => source !== target);
+    const sourceTags = await TagModel.find({ slug: { $in: merged } }).select('slug aliases').lean();
+
+    const blogIds = await this.blogsTagged(merged);
+    const result = await BlogModel.updateMany({ _id: { $in: blogIds } }, rewriteTagsPipeline(merged, target));
+
+    targetTag.aliases = Array.from(new Set([
+      ...targetTag.aliases,
+      ...merged,
+      ...sourceTags.reduce<string[]>((aliases, tag) => [...aliases, ...tag.aliases], [])
+    ])).filter(alias => alias !== target);
+    targetTag.usageCount = await BlogModel.countDocuments({ tags: target });
+    await targetTag.save();
+    await TagModel.deleteMany({ slug: { $in: merged } });
+
+    // cached blogs, related posts and listings hold the former tags
+    await invalidateBlogCaches(blogIds.map(String));
+    return { tag: targetTag, blogsUpdated: result.modifiedCount };
+  }
+
+  /**
+   * Give a tag a new slug, the former slug stays as an alias
+   */
+  async rename(slug: string, newSlug: string) {
+    const tag = await TagModel.findOne({ slug });
+    if (!tag) return null;
+
+    const blogIds = await this.blogsTagged([slug]);
+    const result = await BlogModel.updateMany({ _id: { $in: blogIds } }, rewriteTagsPipeline([slug], newSlug));
+    tag.aliases = [...tag.aliases.filter(alias => alias !== newSlug), slug];
+    tag.slug = newSlug;
+    await tag.save();
+
+    await invalidateBlogCaches(blogIds.map(String));
+    return { tag, blogsUpdated: result.modifiedCount };
+  }
+
+  // ids of the blogs using any of the tags
+  private async blogsTagged(slugs: string[]) {
+    const blogs = await BlogModel.find({ tags: { $in: slugs } }).select('_id').lean();
+    return blogs.map(blog => blog._id);
+  }
+}
+
+export const tagService = new TagService();
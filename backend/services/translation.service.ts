@@ -0,0 +1,139 @@
+import mongoose from "mongoose";
+import BlogModel, { IBlog } from "../models/blogs.model";
+import { DEFAULT_LANGUAGE, LANGUAGES, Language } from "../utils/languages";
+
+export interface BlogVariant {
+  _id: string;
+  language: Language;
+  slug: string;
+  title: string;
+}
+
+const PUBLISHED = { isPublished: true, draft: false, deletedAt: null };
+
+type GroupMember = Pick<IBlog, '_id' | 'translationOf'>;
+
+// the original blog of a translation group identifies the group
+const groupIdOf = (blog: GroupMember) => String(blog.translationOf || blog._id);
+
+const groupFilter = (groupId: string) => ({
+  $or: [{ _id: new mongoose.Types.ObjectId(groupId) }, { translationOf: new mongoose.Types.ObjectId(groupId) }]
+});
+
+class TranslationService {
+  /**
+   * Check that a blog can be linked as the translation of another one in the given language.
+   * Returns the id of the original blog of the group, or an error message.
+   */
+  async resolveOriginal(
+    translationOf: string,
+    language: Language,
+    blogId?: string
+  ): Promise<{ originalId?: string; error?: string }> {
+    if (!mongoose.Types.ObjectId.isValid(translationOf) || translationOf === blogId) {
+      return { error: 'Original blog not found' };
+    }
+    const source = await BlogModel.findOne({ _id: translationOf, deletedAt: null }).select('translationOf').lean();
+    if (!source) {
+      return { error: 'Original blog not found' };
+    }
+    const originalId = groupIdOf(source as GroupMember);
+    if (blogId && originalId === blogId) {
+      return { error: 'A blog cannot be a translation of its own translation' };
+    }
+    if (blogId && await BlogModel.exists({ translationOf: blogId, deletedAt: null })) {
+      return { error: 'This blog already has translations, link them to the other blog instead' };
+    }
+
+    if (await this.languageTaken(originalId, language, blogId)) {
+      return { error: `The blog already has a ${language} version` };
+    }
+    return { originalId };
+  }
+
+  /**
+   * True when another blog of the group of a blog is written in the language
+   */
+  async languageTaken(blog: GroupMember | string, language: Language, blogId?: string): Promise<boolean> {
+    const groupId = typeof blog === 'string' ? blog : groupIdOf(blog);
+    const exclude = blogId || (typeof blog === 'string' ? undefined : String(blog._id));
+    return Boolean(await BlogModel.exists({
+      $and: [groupFilter(groupId), ...(exclude ? [{ _id: { $ne: new mongoose.Types.ObjectId(exclude) } }] : [])],
+      language,
+      deletedAt: null
+    }));
+  }
+
+  /**
+   * Recompute the published languages stored on every blog of the group of a blog,
+   * to be called whenever a variant is linked, published, unpublished or deleted
+   */
+  async syncGroup(blog: GroupMember) {
+    const groupId = groupIdOf(blog);
+    const members = await BlogModel.find(groupFilter(groupId)).select('language isPublished draft deletedAt').lean();
+    const languages = LANGUAGES.filter(language => members.some(member =>
+      member.isPublished && !member.draft && !member.deletedAt && (member.language || DEFAULT_LANGUAGE) === language
+    ));
+
+    await BlogModel.updateMany(
+      { _id: { $in: members.map(member => member._id) } },
+      { $set: { availableLanguages: languages } }
+    );
+  }
+
+  /**
+   * Take a purged blog out of its translation group,
+   * the oldest translation becomes the original of the others
+   */
+  async detach(blog: GroupMember) {
+    if (blog.translationOf) {
+      await BlogModel.updateOne({ _id: blog._id }, { $set: { translationOf: null } });
+      await this.syncGroup({ _id: blog.translationOf, translationOf: null } as GroupMember);
+      return;
+    }
+
+    const translations = await BlogModel.find({ translationOf: blog._id }).select('_id').sort({ _id: 1 }).lean();
+    if (!translations.length) return;
+    const [original, ...others] = translations;
+    await BlogModel.updateOne({ _id: original._id }, { $set: { translationOf: null } });
+    if (others.length) {
+      await BlogModel.updateMany({ _id: { $in: others.map(other => other._id) } }, { $set: { translationOf: original._id } });
+    }
+    await this.syncGroup({ _id: original._id, translationOf: null } as GroupMember);
+  }
+
+  /**
+   * Published variants of the group of a blog, the blog included
+   */
+  async variants(blog: GroupMember): Promise<BlogVariant[]> {
+    const variants = await BlogModel.find({ ...groupFilter(groupIdOf(blog)), ...PUBLISHED })
+      .select('language slug title')
+      .lean();
+    return variants.map(variant => ({
+      _id: String(variant._id),
+      language: variant.language || DEFAULT_LANGUAGE,
+      slug: variant.slug,
+      title: variant.title
+    }));
+  }
+
+  /**
+   * Mongo filter keeping one blog per translation group: the variant in the language,
+   * else the default language one, else the first language published in LANGUAGES order.
+   * Blogs stored before languages existed have no language and always match.
+   */
+  listingFilter(language: Language): Record<string, any> {
+    const order = [language, DEFAULT_LANGUAGE, ...LANGUAGES]
+      .filter((entry, index, entries) => entries.indexOf(entry) === index);
+    return {
+      $or: [
+        ...order.map((entry, index) => index
+          ? { language: entry, availableLanguages: { $nin: order.slice(0, index) } }
+          : { language: entry }),
+        { language: { $exists: false } }
+      ]
+    };
+  }
+}
+
+export const translationService = new TranslationService();
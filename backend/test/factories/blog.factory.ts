@@ -70,6 +70,7 @@ export class BlogFactory {
         total_comments: faker.number.int({ min: 0, max: 100 }),
         total_reads: faker.number.int({ min: 0, max: 1000 }),
         total_parent_comments: faker.number.int({ min: 0, max: 50 }),
+        total_views: faker.number.int({ min: 0, max: 2000 }),
         average_read_time: faker.number.int({ min: 60, max: 600 }),
         bounce_rate: faker.number.float({ min: 0, max: 1, precision: 0.01 }),
         engagement_score: faker.number.float({ min: 0, max: 10, precision: 0.1 })
@@ -0,0 +1,68 @@
+import { MAX_BLOCK_SIZE, validateContentBlocks } from '../../utils/blockValidation';
+
+describe('Blog Content Validation', () => {
+  const content = (...blocks: any[]) => ({ time: Date.now(), blocks, version: '2.28.0' });
+
+  it('should accept every supported block type', () => {
+    expect(validateContentBlocks(content(
+      { id: 'a1', type: 'header', data: { text: 'Title', level: 2 } },
+      { type: 'paragraph', data: { text: 'Hello <b>world</b>' } },
+      { type: 'list', data: { style: 'unordered', items: ['one', { content: 'two', items: ['three'] }] } },
+      { type: 'image', data: { file: { url: 'https://cdn.example.com/a.png' }, caption: 'A' } },
+      { type: 'embed', data: { service: 'youtube', source: 'https://youtu.be/x', embed: 'https://www.youtube.com/embed/x' } },
+      { type: 'quote', data: { text: 'Quote', caption: 'Someone' } },
+      { type: 'code', data: { code: 'const a = 1;' } },
+      { type: 'delimiter', data: {} }
+    ))).toEqual([]);
+  });
+
+  it('should accept content wrapped in an array', () => {
+    expect(validateContentBlocks([content({ type: 'paragraph', data: { text: 'Hi' } })])).toEqual([]);
+  });
+
+  it('should require at least one block', () => {
+    expect(validateContentBlocks(content())).toEqual([
+      expect.objectContaining({ field: 'content.blocks', code: 'required' })
+    ]);
+    expect(validateContentBlocks(undefined)).toHaveLength(1);
+  });
+
+  it('should reject unknown block types', () => {
+    expect(validateContentBlocks(content({ type: 'raw', data: { html: '<script></script>' } }))).toEqual([
+      expect.objectContaining({ field: 'content.blocks.0.type', code: 'unknown_block_type', received: 'raw' })
+    ]);
+  });
+
+  it('should reject block types named after object properties', () => {
+    for (const type of ['constructor', 'toString', '__proto__']) {
+      expect(validateContentBlocks(content({ type, data: {} }))).toEqual([
+        expect.objectContaining({ field: 'content.blocks.0.type', code: 'unknown_block_type', received: type })
+      ]);
+    }
+  });
+
+  it('should report invalid block data per field', () => {
+    const errors = validateContentBlocks(content(
+      { type: 'paragraph', data: { text: 'ok' } },
+      { type: 'header', data: { text: 'Title', level: 9 } }
+    ));
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0].field).toBe('content.blocks.1.data.level');
+  });
+
+  it('should reject oversized blocks', () => {
+    const errors = validateContentBlocks(content({ type: 'paragraph', data: { text: 'x'.repeat(MAX_BLOCK_SIZE) } }));
+
+    expect(errors).toEqual([expect.objectContaining({ field: 'content.blocks.0', code: 'too_big' })]);
+  });
+
+  it('should only allow embeds from the allowlist', () => {
+    const embed = (url: string) => content({ type: 'embed', data: { service: 'x', source: url, embed: url } });
+
+    expect(validateContentBlocks(embed('https://player.vimeo.com/video/1'))).toEqual([]);
+    expect(validateContentBlocks(embed('https://evil.example.com/embed'))[0].field).toBe('content.blocks.0.data.embed');
+    expect(validateContentBlocks(embed('http://www.youtube.com/embed/x'))).toHaveLength(1);
+    expect(validateContentBlocks(embed('https://youtube.com.evil.com/embed/x'))).toHaveLength(1);
+  });
+});
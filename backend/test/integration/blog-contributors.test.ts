@@ -0,0 +1,163 @@
+import mongoose from 'mongoose';
+import BlogModel from '../../models/blogs.model';
+import UserModel from '../../models/user.model';
+import NotificationModel from '../../models/notification.model';
+import { blogContributorService, creditedAuthorFilter } from '../../services/blogContributor.service';
+import { BlogFactory } from '../factories/blog.factory';
+import { UserFactory } from '../factories/user.factory';
+
+jest.mock('../../utils/redis', () => require('../mocks/memoryRedis.mock'));
+jest.mock('../../server', () => require('../mocks/server.mock'));
+
+const newId = () => String(new mongoose.Types.ObjectId());
+
+const contributor = (user: string, role: string, status = 'accepted') =>
+  ({ user: new mongoose.Types.ObjectId(user), role, status });
+
+describe('Blog Contributors', () => {
+  let authorId: string;
+  let coAuthorId: string;
+  let editorId: string;
+  let reviewerId: string;
+  let invitedId: string;
+
+  const createUser = async () =>
+    String((await UserModel.create({ ...UserFactory.create(), account_info: { total_posts: 0, total_reads: 0 } }))._id);
+
+  const blogWith = (contributors: any[] = []) =>
+    BlogModel.create({ ...BlogFactory.create({ authorId, isPublished: true }), title: 'Shared blog', contributors });
+
+  const shared = () => blogWith([
+    contributor(coAuthorId, 'co-author'),
+    contributor(editorId, 'editor'),
+    contributor(reviewerId, 'reviewer'),
+    contributor(invitedId, 'editor', 'pending')
+  ]);
+
+  const contributorsOf = async (blogId: unknown) => (await BlogModel.findById(blogId).lean())?.contributors || [];
+
+  beforeEach(async () => {
+    [authorId, coAuthorId, editorId, reviewerId, invitedId] = [
+      await createUser(), await createUser(), await createUser(), await createUser(), await createUser()
+    ];
+  });
+
+  describe('permissions', () => {
+    it('should let the author, co-authors and editors edit', async () => {
+      const blog = await shared();
+      expect(blogContributorService.canEdit(blog, authorId)).toBe(true);
+      expect(blogContributorService.canEdit(blog, coAuthorId)).toBe(true);
+      expect(blogContributorService.canEdit(blog, editorId)).toBe(true);
+    });
+
+    it('should not let reviewers, pending invitees or strangers edit', async () => {
+      const blog = await shared();
+      expect(blogContributorService.canEdit(blog, reviewerId)).toBe(false);
+      expect(blogContributorService.canEdit(blog, invitedId)).toBe(false);
+      expect(blogContributorService.canEdit(blog, newId())).toBe(false);
+    });
+
+    it('should let every accepted contributor view', async () => {
+      const blog = await shared();
+      expect(blogContributorService.canView(blog, reviewerId)).toBe(true);
+      expect(blogContributorService.canView(blog, invitedId)).toBe(false);
+    });
+
+    it('should credit the author and accepted co-authors only', async () => {
+      const blog = await shared();
+      const own = await BlogModel.create(BlogFactory.create({ authorId: coAuthorId, isPublished: true }));
+      const credited = async (userId: string) => (await BlogModel.find(creditedAuthorFilter(userId)).lean()).map(found => String(found._id));
+
+      expect((await credited(coAuthorId)).sort()).toEqual([String(blog._id), String(own._id)].sort());
+      expect(await credited(editorId)).toEqual([]);
+      expect(await credited(invitedId)).toEqual([]);
+    });
+  });
+
+  describe('invite', () => {
+    it('should add a pending invitation and notify the user', async () => {
+      const blog = await blogWith();
+      await blogContributorService.invite(blog, authorId, invitedId, 'editor');
+
+      const [invitation] = await contributorsOf(blog._id);
+      expect(invitation).toMatchObject({ role: 'editor', status: 'pending' });
+      expect(String(invitation.user)).toBe(invitedId);
+      expect(await NotificationModel.findOne({ recipient: invitedId, type: 'blog_invitation' }).lean())
+        .toMatchObject({ data: expect.objectContaining({ blogId: String(blog._id), role: 'editor' }) });
+    });
+
+    it('should only let the author invite', async () => {
+      await expect(blogContributorService.invite(await shared(), coAuthorId, await createUser(), 'editor'))
+        .rejects.toMatchObject({ statusCode: 403 });
+    });
+
+    it('should refuse unknown roles and users, the author and users already invited', async () => {
+      const blog = await blogWith();
+      await expect(blogContributorService.invite(blog, authorId, invitedId, 'owner' as any))
+        .rejects.toMatchObject({ statusCode: 400 });
+      await expect(blogContributorService.invite(blog, authorId, 'nobody', 'editor'))
+        .rejects.toMatchObject({ statusCode: 404 });
+      await expect(blogContributorService.invite(blog, authorId, newId(), 'editor'))
+        .rejects.toMatchObject({ statusCode: 404 });
+      await expect(blogContributorService.invite(blog, authorId, authorId, 'editor'))
+        .rejects.toMatchObject({ statusCode: 400 });
+      await expect(blogContributorService.invite(await shared(), authorId, invitedId, 'editor'))
+        .rejects.toMatchObject({ statusCode: 409 });
+      expect(await contributorsOf(blog._id)).toEqual([]);
+    });
+
+    it('should cap the number of contributors', async () => {
+      const blog = await blogWith(Array.from({ length: 10 }, () => contributor(newId(), 'reviewer')));
+      await expect(blogContributorService.invite(blog, authorId, invitedId, 'editor'))
+        .rejects.toMatchObject({ statusCode: 400 });
+    });
+  });
+
+  describe('respond', () => {
+    it('should accept a pending invitation', async () => {
+      const blog = await shared();
+      await blogContributorService.respond(blog, invitedId, true);
+      expect(blogContributorService.canEdit((await BlogModel.findById(blog._id))!, invitedId)).toBe(true);
+    });
+
+    it('should drop a declined invitation', async () => {
+      const blog = await shared();
+      await blogContributorService.respond(blog, invitedId, false);
+      expect((await contributorsOf(blog._id)).map(entry => String(entry.user))).not.toContain(invitedId);
+      expect(await contributorsOf(blog._id)).toHaveLength(3);
+    });
+
+    it('should refuse users without a pending invitation', async () => {
+      await expect(blogContributorService.respond(await shared(), editorId, true)).rejects.toMatchObject({ statusCode: 404 });
+    });
+  });
+
+  describe('pendingInvitations', () => {
+    it('should list the blogs a user is invited on', async () => {
+      const blog = await shared();
+      const invitations = await blogContributorService.pendingInvitations(invitedId);
+      expect(invitations).toHaveLength(1);
+      expect(invitations[0]).toMatchObject({ role: 'editor', blog: expect.objectContaining({ title: 'Shared blog' }) });
+      expect(String(invitations[0].blog._id)).toBe(String(blog._id));
+      expect(await blogContributorService.pendingInvitations(editorId)).toEqual([]);
+    });
+  });
+
+  describe('remove', () => {
+    it('should let the author remove anyone and contributors leave', async () => {
+      const blog = await shared();
+      await blogContributorService.remove(blog, authorId, editorId);
+      expect(await contributorsOf(blog._id)).toHaveLength(3);
+
+      await blogContributorService.remove(blog, reviewerId, reviewerId);
+      expect((await contributorsOf(blog._id)).map(entry => String(entry.user))).toEqual([coAuthorId, invitedId]);
+    });
+
+    it('should not let a contributor remove another one', async () => {
+      const blog = await shared();
+      await expect(blogContributorService.remove(blog, editorId, coAuthorId)).rejects.toMatchObject({ statusCode: 403 });
+      await expect(blogContributorService.remove(blog, authorId, newId())).rejects.toMatchObject({ statusCode: 404 });
+      expect(await contributorsOf(blog._id)).toHaveLength(4);
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import mongoose from 'mongoose';
+import BlogModel from '../../models/blogs.model';
+import userModel from '../../models/user.model';
+import { feedService } from '../../services/feed.service';
+import { escapeXml } from '../../utils/siteUrls';
+import { redis } from '../../utils/redis';
+import { BlogFactory } from '../factories/blog.factory';
+import { UserFactory } from '../factories/user.factory';
+
+jest.mock('../../utils/redis', () => require('../mocks/memoryRedis.mock'));
+
+describe('Blog Feeds', () => {
+  const selfUrl = 'http://localhost:8000/api/v1/feeds/site.rss';
+  const updatedAt = new Date('2026-01-03T00:00:00Z');
+
+  const createAuthor = () =>
+    userModel.create({ ...UserFactory.create(), name: 'Ada', account_info: { total_posts: 0, total_reads: 0 } });
+
+  const createBlog = (authorId: unknown, extra: Record<string, any> = {}) =>
+    BlogModel.create({
+      ...BlogFactory.create({ authorId: String(authorId), isPublished: true }),
+      content: [{ type: 'paragraph', data: { text: 'Hello' } }],
+      ...extra
+    });
+
+  afterEach(async () => {
+    await redis.flushall();
+  });
+
+  it('should escape what is not allowed in XML', () => {
+    expect(escapeXml(`<a href="x">Tom & Jerry's</a>\u0001`)).toBe('&lt;a href=&quot;x&quot;&gt;Tom &amp; Jerry&apos;s&lt;/a&gt;');
+  });
+
+  it('should build an RSS feed of the latest published blogs', async () => {
+    const author = await createAuthor();
+    const blog = await createBlog(author._id, { title: 'Fish & <chips>', tags: ['food'] });
+    await BlogModel.updateOne({ _id: blog._id }, { $set: { updatedAt } }, { timestamps: false });
+    await createBlog(author._id, { title: 'Not yet', isPublished: false, draft: true });
+
+    const feed = await feedService.getFeed({ format: 'rss', scope: 'site', selfUrl });
+    expect(feed?.contentType).toBe('application/rss+xml; charset=utf-8');
+    expect(feed?.body).toContain('<title>Fish &amp; &lt;chips&gt;</title>');
+    expect(feed?.body).toContain(`/blog/${blog.slug}</link>`);
+    expect(feed?.body).toContain('<category>food</category>');
+    expect(feed?.body).not.toContain('Not yet');
+    expect(feed?.lastModified).toBe(updatedAt.toUTCString());
+    expect(feed?.etag).toMatch(/^"[0-9a-f]{40}"$/);
+  });
+
+  it('should build Atom and JSON feeds', async () => {
+    const author = await createAuthor();
+    const blog = await createBlog(author._id, { tags: ['food'] });
+    await BlogModel.updateOne({ _id: blog._id }, { $set: { updatedAt } }, { timestamps: false });
+
+    const atom = await feedService.getFeed({ format: 'atom', scope: 'site', selfUrl });
+    expect(atom?.body).toContain('<feed xmlns="http://www.w3.org/2005/Atom">');
+    expect(atom?.body).toContain(`<updated>${updatedAt.toISOString()}</updated>`);
+
+    const json = await feedService.getFeed({ format: 'json', scope: 'site', selfUrl });
+    const parsed = JSON.parse(json?.body || '{}');
+    expect(parsed.version).toBe('https://jsonfeed.org/version/1.1');
+    expect(parsed.items[0]).toMatchObject({ title: blog.title, tags: ['food'], authors: [{ name: 'Ada' }] });
+  });
+
+  it('should scope a feed to an author, and have none for an unknown author', async () => {
+    const author = await createAuthor();
+    const other = await createAuthor();
+    const own = await createBlog(author._id);
+    await createBlog(other._id);
+
+    const feed = await feedService.getFeed({ format: 'json', scope: 'author', value: String(author._id), selfUrl });
+    const parsed = JSON.parse(feed?.body || '{}');
+    expect(parsed.title).toBe('Ada on KidsClub');
+    expect(parsed.items.map((item: any) => item.title)).toEqual([own.title]);
+
+    expect(await feedService.getFeed({ format: 'rss', scope: 'author', value: 'nobody', selfUrl })).toBeNull();
+    expect(await feedService.getFeed({ format: 'rss', scope: 'author', value: String(new mongoose.Types.ObjectId()), selfUrl })).toBeNull();
+  });
+
+  it('should filter tag feeds on the lowercased tag and the audience', async () => {
+    const author = await createAuthor();
+    const kids = await createBlog(author._id, { tags: ['food'], isKidsContent: true, ageGroup: 'kids-9-12' });
+    await createBlog(author._id, { tags: ['food'], isKidsContent: true, ageGroup: 'kids-6-8' });
+    await createBlog(author._id, { tags: ['travel'], isKidsContent: true, ageGroup: 'kids-9-12' });
+
+    const feed = await feedService.getFeed({ format: 'json', scope: 'tag', value: 'Food', isKidsContent: true, ageGroup: 'kids-9-12', selfUrl });
+    expect(JSON.parse(feed?.body || '{}').items.map((item: any) => item.title)).toEqual([kids.title]);
+  });
+
+  it('should serve the cached feed until it expires', async () => {
+    const author = await createAuthor();
+    await createBlog(author._id, { title: 'First' });
+    const first = await feedService.getFeed({ format: 'rss', scope: 'site', selfUrl });
+
+    await createBlog(author._id, { title: 'Second' });
+    expect(await feedService.getFeed({ format: 'rss', scope: 'site', selfUrl })).toEqual(first);
+  });
+});
@@ -0,0 +1,53 @@
+import { DEFAULT_LANGUAGE, languageMeta, negotiateLanguage, parseAcceptLanguage, requestedLanguage } from '../../utils/languages';
+import { translationService } from '../../services/translation.service';
+
+describe('Blog Languages', () => {
+  describe('parseAcceptLanguage', () => {
+    it('should order supported languages by quality', () => {
+      expect(parseAcceptLanguage('en;q=0.5, ar-MA, fr;q=0.8')).toEqual(['ar', 'fr', 'en']);
+    });
+
+    it('should skip unsupported and refused languages', () => {
+      expect(parseAcceptLanguage('de-DE, es;q=0.9, en;q=0')).toEqual([]);
+    });
+
+    it('should keep the header order on equal quality', () => {
+      expect(parseAcceptLanguage('en-US, en-GB, fr')).toEqual(['en', 'fr']);
+    });
+  });
+
+  describe('negotiation', () => {
+    it('should prefer the lang parameter over Accept-Language', () => {
+      expect(negotiateLanguage('ar', 'en')).toBe('ar');
+    });
+
+    it('should ignore an unsupported lang parameter', () => {
+      expect(negotiateLanguage('de', 'en-US')).toBe('en');
+    });
+
+    it('should fall back to the default language', () => {
+      expect(negotiateLanguage(undefined, 'de')).toBe(DEFAULT_LANGUAGE);
+      expect(requestedLanguage(undefined, 'de')).toBeNull();
+    });
+  });
+
+  describe('languageMeta', () => {
+    it('should mark arabic as right to left', () => {
+      expect(languageMeta('ar')).toEqual({ lang: 'ar', dir: 'rtl' });
+      expect(languageMeta('fr')).toEqual({ lang: 'fr', dir: 'ltr' });
+    });
+  });
+
+  describe('listingFilter', () => {
+    it('should keep one variant per translation group', () => {
+      const { $or } = translationService.listingFilter('ar');
+
+      expect($or).toEqual([
+        { language: 'ar' },
+        { language: 'fr', availableLanguages: { $nin: ['ar'] } },
+        { language: 'en', availableLanguages: { $nin: ['ar', 'fr'] } },
+        { language: { $exists: false } }
+      ]);
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import mongoose from 'mongoose';
+import BlogModel from '../../models/blogs.model';
+import BlogLikeModel from '../../models/blogLike.model';
+import { ArticleAnalyticsModel } from '../../models/analytics.model';
+import { blogLikeService } from '../../services/blogLike.service';
+import { redis } from '../../utils/redis';
+import { BlogFactory } from '../factories/blog.factory';
+
+jest.mock('../../utils/redis', () => require('../mocks/memoryRedis.mock'));
+jest.mock('../../server', () => require('../mocks/server.mock'));
+
+const newId = () => String(new mongoose.Types.ObjectId());
+
+describe('Blog Likes', () => {
+  const createBlog = (totalLikes = 0) =>
+    BlogModel.create({
+      ...BlogFactory.create({ authorId: newId(), isPublished: true }),
+      activity: { total_likes: totalLikes }
+    });
+
+  const activityOf = async (blogId: unknown) => (await BlogModel.findById(blogId).lean())?.activity;
+
+  beforeAll(async () => {
+    await BlogLikeModel.init();
+  });
+
+  afterEach(async () => {
+    await redis.flushall();
+  });
+
+  describe('like', () => {
+    it('should count the like of a user once', async () => {
+      const blog = await createBlog();
+      const userId = newId();
+
+      expect(await blogLikeService.like(userId, blog)).toBe(true);
+      expect(await blogLikeService.like(userId, blog)).toBe(false);
+      expect((await activityOf(blog._id))?.total_likes).toBe(1);
+      expect((await ArticleAnalyticsModel.findOne({ blogId: blog._id }).lean() as any)?.likes).toBe(1);
+    });
+
+    it('should count one like when a user likes twice at once', async () => {
+      const blog = await createBlog();
+      const userId = newId();
+
+      await Promise.all([blogLikeService.like(userId, blog), blogLikeService.like(userId, blog)]);
+      expect(await BlogLikeModel.countDocuments({ blog: blog._id })).toBe(1);
+      expect((await activityOf(blog._id))?.total_likes).toBe(1);
+    });
+
+    it('should drop the cached blog', async () => {
+      const blog = await createBlog();
+      await redis.set(String(blog._id), JSON.stringify(blog));
+
+      await blogLikeService.like(newId(), blog);
+      expect(await redis.get(String(blog._id))).toBeNull();
+    });
+  });
+
+  describe('unlike', () => {
+    it('should remove the like without taking the counter below zero', async () => {
+      const blog = await createBlog();
+      const userId = newId();
+      await BlogLikeModel.create({ user: userId, blog: blog._id });
+
+      expect(await blogLikeService.unlike(userId, String(blog._id))).toBe(true);
+      expect(await blogLikeService.unlike(userId, String(blog._id))).toBe(false);
+      expect((await activityOf(blog._id))?.total_likes).toBe(0);
+    });
+  });
+
+  describe('likedIds', () => {
+    it('should tell which of the blogs the user liked', async () => {
+      const [liked, other] = [await createBlog(), await createBlog()];
+      const userId = newId();
+      await blogLikeService.like(userId, liked);
+
+      expect(await blogLikeService.likedIds(userId, [String(liked._id), String(other._id)])).toEqual(new Set([String(liked._id)]));
+      expect(await blogLikeService.likedIds(undefined, [String(liked._id)])).toEqual(new Set());
+    });
+  });
+
+  describe('reconcileCounters', () => {
+    it('should keep the likes counted before likes were stored per user', async () => {
+      const legacy = await createBlog(5);
+      // saving a legacy blog must not record its baseline
+      legacy.title = 'Edited before the reconciliation';
+      await legacy.save();
+      expect((await activityOf(legacy._id))?.legacy_likes).toBeUndefined();
+
+      await blogLikeService.like(newId(), legacy);
+      await blogLikeService.like(newId(), legacy);
+      await blogLikeService.reconcileCounters();
+
+      expect(await activityOf(legacy._id)).toMatchObject({ legacy_likes: 5, total_likes: 7 });
+    });
+
+    it('should keep the likes of a legacy blog nobody liked since', async () => {
+      const legacy = await createBlog(3);
+      await blogLikeService.reconcileCounters();
+      expect(await activityOf(legacy._id)).toMatchObject({ legacy_likes: 3, total_likes: 3 });
+    });
+
+    it('should reset drifted counters to the legacy likes plus the stored likes', async () => {
+      const blog = await createBlog(0);
+      await blogLikeService.like(newId(), blog);
+      await blogLikeService.reconcileCounters();
+
+      await BlogModel.updateOne({ _id: blog._id }, { 'activity.total_likes': 40 });
+      expect(await blogLikeService.reconcileCounters()).toBe(1);
+      expect(await activityOf(blog._id)).toMatchObject({ legacy_likes: 0, total_likes: 1 });
+    });
+
+    it('should change nothing on a second run', async () => {
+      const blog = await createBlog(2);
+      await blogLikeService.like(newId(), blog);
+
+      await blogLikeService.reconcileCounters();
+      expect(await blogLikeService.reconcileCounters()).toBe(0);
+      expect(await activityOf(blog._id)).toMatchObject({ legacy_likes: 2, total_likes: 3 });
+    });
+  });
+});
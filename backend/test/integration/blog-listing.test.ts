@@ -0,0 +1,108 @@
+import mongoose from 'mongoose';
+import BlogModel from '../../models/blogs.model';
+import { BlogListingParams, InvalidCursorError, blogListingService } from '../../services/blogListing.service';
+import { redis } from '../../utils/redis';
+import { BlogFactory } from '../factories/blog.factory';
+
+jest.mock('../../utils/redis', () => require('../mocks/memoryRedis.mock'));
+
+const createBlog = (extra: Record<string, any> = {}) =>
+  BlogModel.create({ ...BlogFactory.create({ authorId: String(new mongoose.Types.ObjectId()), isPublished: true }), ...extra });
+
+// follow the cursors from the first page to the last, the ids in the order listed
+const listAll = async (params: BlogListingParams) => {
+  const ids: string[] = [];
+  let cursor: string | undefined;
+  do {
+    const { blogs, pagination } = await blogListingService.list({ ...params, cursor });
+    ids.push(...blogs.map((blog: any) => String(blog._id)));
+    cursor = pagination.nextCursor || undefined;
+  } while (cursor);
+  return ids;
+};
+
+describe('Blog Listing', () => {
+  afterEach(async () => {
+    await redis.flushall();
+  });
+
+  it('should tell whether a page follows from one blog more than the limit', async () => {
+    for (const date of ['2026-01-01', '2026-01-02', '2026-01-03']) {
+      await createBlog({ published_at: new Date(date) });
+    }
+
+    const { blogs, pagination } = await blogListingService.list({ limit: 2, sort: 'newest' });
+    expect(blogs).toHaveLength(2);
+    expect(pagination).toMatchObject({ page: 1, total: 3, totalPages: 2, hasNext: true, hasPrev: false });
+
+    const next = await blogListingService.list({ limit: 2, sort: 'newest', cursor: pagination.nextCursor as string });
+    expect(next.blogs).toHaveLength(1);
+    expect(next.pagination).toMatchObject({ page: 2, hasNext: false, hasPrev: true, nextCursor: null });
+  });
+
+  it('should list every blog once, newest first and ties broken by id', async () => {
+    const sameDay = new Date('2026-01-02');
+    const blogs = [
+      await createBlog({ published_at: new Date('2026-01-01') }),
+      await createBlog({ published_at: sameDay }),
+      await createBlog({ published_at: sameDay }),
+      await createBlog({ published_at: sameDay }),
+      await createBlog({ published_at: new Date('2026-01-03') })
+    ];
+    const expected = [...blogs]
+      .sort((a: any, b: any) => b.published_at - a.published_at || (String(b._id) > String(a._id) ? 1 : -1))
+      .map(blog => String(blog._id));
+
+    expect(await listAll({ limit: 2, sort: 'newest' })).toEqual(expected);
+  });
+
+  it('should page through blogs without a value for the sort field, listed last', async () => {
+    const read = await createBlog({ activity: { total_reads: 40 } });
+    const lessRead = await createBlog({ activity: { total_reads: 10 } });
+    const unread = [await createBlog(), await createBlog(), await createBlog()];
+    await BlogModel.updateMany({ _id: { $in: unread.map(blog => blog._id) } }, { $unset: { 'activity.total_reads': 1 } });
+
+    expect(await listAll({ limit: 2, sort: 'most_read' })).toEqual([
+      String(read._id),
+      String(lessRead._id),
+      ...unread.map(blog => String(blog._id)).sort().reverse()
+    ]);
+  });
+
+  it('should only list published blogs', async () => {
+    const published = await createBlog();
+    await createBlog({ isPublished: false, draft: true });
+    await createBlog({ isPublished: false, draft: false });
+
+    expect(await listAll({ limit: 10, sort: 'newest' })).toEqual([String(published._id)]);
+  });
+
+  it('should refuse a cursor it did not issue', async () => {
+    await expect(blogListingService.list({ limit: 2, sort: 'newest', cursor: 'not-a-cursor' }))
+      .rejects.toBeInstanceOf(InvalidCursorError);
+    const forged = Buffer.from(JSON.stringify({ v: 1, id: 'nope', p: 2 })).toString('base64url');
+    await expect(blogListingService.list({ limit: 2, sort: 'newest', cursor: forged }))
+      .rejects.toBeInstanceOf(InvalidCursorError);
+  });
+
+  it('should answer from the cache until the listing is invalidated', async () => {
+    await createBlog();
+    expect((await blogListingService.list({ limit: 10, sort: 'newest' })).blogs).toHaveLength(1);
+
+    await createBlog();
+    expect((await blogListingService.list({ limit: 10, sort: 'newest' })).blogs).toHaveLength(1);
+
+    await blogListingService.invalidate();
+    expect((await blogListingService.list({ limit: 10, sort: 'newest' })).blogs).toHaveLength(2);
+  });
+
+  it('should never widen the age groups of a kids account', async () => {
+    const young = await createBlog({ isKidsContent: true, ageGroup: 'kids-9-12' });
+    await createBlog({ isKidsContent: true, ageGroup: 'kids-13-16' });
+    await createBlog({ isKidsContent: false, ageGroup: 'general' });
+    const audienceFilter = { isKidsContent: true, ageGroup: { $in: ['kids-6-8', 'kids-9-12'] } };
+
+    expect(await listAll({ limit: 10, sort: 'newest', audienceFilter })).toEqual([String(young._id)]);
+    expect(await listAll({ limit: 10, sort: 'newest', audienceFilter, ageGroup: 'kids-13-16' })).toEqual([]);
+  });
+});
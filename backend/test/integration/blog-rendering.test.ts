@@ -0,0 +1,84 @@
+import {
+  estimateReadingTime,
+  renderBlocksToAmp,
+  renderBlocksToHtml,
+  renderBlocksToText,
+  sanitizeInline
+} from '../../utils/contentRenderer';
+
+describe('Blog Content Rendering', () => {
+  const blocks = [
+    { type: 'header', data: { text: 'Les <b>planètes</b>', level: 2 } },
+    { type: 'paragraph', data: { text: 'Mars est <i>rouge</i>.<script>alert(1)</script>' } },
+    { type: 'list', data: { style: 'ordered', items: ['Mercure', { content: 'Vénus', items: ['Terre'] }] } },
+    { type: 'image', data: { file: { url: 'https://cdn.example.com/mars.png' }, caption: 'Mars' } },
+    { type: 'embed', data: { service: 'youtube', embed: 'https://www.youtube.com/embed/dQw4w9WgXcQ', width: 580, height: 320 } },
+    { type: 'quote', data: { text: 'Eppur si muove', caption: 'Galilée' } },
+    { type: 'code', data: { code: 'if (a < b) {}' } }
+  ];
+
+  describe('sanitizeInline', () => {
+    it('should keep inline markup and escape the rest', () => {
+      expect(sanitizeInline('<b>ok</b><img src=x onerror=alert(1)> <u>u</u>')).toBe('<b>ok</b> <u>u</u>');
+      expect(sanitizeInline('<script>alert(1)</script>')).toBe('alert(1)');
+      expect(sanitizeInline('1 < 2 & 3')).toBe('1 &lt; 2 &amp; 3');
+    });
+
+    it('should drop unsafe links and close open tags', () => {
+      expect(sanitizeInline('<a href="javascript:alert(1)">x</a>')).toBe('<a>x</a>');
+      expect(sanitizeInline('<a href="https://example.com" onclick="x()">x</a>'))
+        .toBe('<a href="https://example.com" rel="nofollow noopener" target="_blank">x</a>');
+      expect(sanitizeInline('<b><i>x</b>')).toBe('<b><i>x</i></b>');
+    });
+  });
+
+  describe('renderBlocksToHtml', () => {
+    it('should render every block type', () => {
+      const html = renderBlocksToHtml(blocks);
+
+      expect(html).toContain('<h2>Les <b>planètes</b></h2>');
+      expect(html).toContain('<p>Mars est <i>rouge</i>.alert(1)</p>');
+      expect(html).toContain('<ol><li>Mercure</li><li>Vénus<ol><li>Terre</li></ol></li></ol>');
+      expect(html).toContain('<img src="https://cdn.example.com/mars.png" alt="Mars" loading="lazy">');
+      expect(html).toContain('<iframe src="https://www.youtube.com/embed/dQw4w9WgXcQ" width="580" height="320"');
+      expect(html).toContain('<blockquote><p>Eppur si muove</p><cite>Galilée</cite></blockquote>');
+      expect(html).toContain('<pre><code>if (a &lt; b) {}</code></pre>');
+      expect(html).not.toContain('<script');
+    });
+
+    it('should skip images and embeds with unsafe urls', () => {
+      expect(renderBlocksToHtml([
+        { type: 'image', data: { url: 'javascript:alert(1)' } },
+        { type: 'embed', data: { embed: 'http://example.com/player' } }
+      ])).toBe('');
+    });
+  });
+
+  describe('renderBlocksToAmp', () => {
+    it('should use amp components for media', () => {
+      const amp = renderBlocksToAmp(blocks);
+
+      expect(amp).toContain('<amp-img src="https://cdn.example.com/mars.png"');
+      expect(amp).toContain('<amp-youtube data-videoid="dQw4w9WgXcQ" width="580" height="320"');
+      expect(amp).not.toMatch(/<img|<iframe/);
+    });
+  });
+
+  describe('renderBlocksToText', () => {
+    it('should render plain text without markup', () => {
+      expect(renderBlocksToText(blocks)).toBe([
+        'Les planètes',
+        'Mars est rouge.alert(1)',
+        '1. Mercure\n2. Vénus\n  1. Terre',
+        'Mars',
+        'Eppur si muove - Galilée',
+        'if (a < b) {}'
+      ].join('\n\n'));
+    });
+
+    it('should estimate the reading time in minutes', () => {
+      expect(estimateReadingTime('')).toBe(1);
+      expect(estimateReadingTime('word '.repeat(450))).toBe(3);
+    });
+  });
+});
@@ -0,0 +1,111 @@
+import mongoose from 'mongoose';
+import BlogModel from '../../models/blogs.model';
+import BlogRevisionModel from '../../models/blogRevision.model';
+import { blogRevisionService } from '../../services/blogRevision.service';
+import { diffBlocks, extractBlocks, summarizeDiff } from '../../utils/contentBlocks';
+import { BlogFactory } from '../factories/blog.factory';
+
+describe('Blog Revisions - Block Diff', () => {
+  const paragraph = (text: string, id?: string) => ({ id, type: 'paragraph', data: { text } });
+  const header = (text: string, id?: string) => ({ id, type: 'header', data: { text, level: 2 } });
+
+  describe('extractBlocks', () => {
+    it('should read blocks from the raw editor payload', () => {
+      expect(extractBlocks({ blocks: [paragraph('a')] })).toHaveLength(1);
+    });
+
+    it('should read blocks from content wrapped in an array', () => {
+      expect(extractBlocks([{ time: 1, blocks: [paragraph('a'), paragraph('b')] }])).toHaveLength(2);
+    });
+
+    it('should return an empty list for missing content', () => {
+      expect(extractBlocks(undefined)).toEqual([]);
+      expect(extractBlocks([])).toEqual([]);
+    });
+  });
+
+  describe('diffBlocks', () => {
+    it('should report identical content as unchanged', () => {
+      const blocks = [header('Title'), paragraph('Hello')];
+      const diff = diffBlocks(blocks, blocks);
+
+      expect(summarizeDiff(diff)).toEqual({ added: 0, removed: 0, modified: 0, unchanged: 2 });
+    });
+
+    it('should detect added and removed blocks', () => {
+      const diff = diffBlocks(
+        [header('Title'), paragraph('Old intro'), paragraph('Body')],
+        [header('Title'), paragraph('Body'), header('Conclusion')]
+      );
+
+      expect(summarizeDiff(diff)).toEqual({ added: 1, removed: 1, modified: 0, unchanged: 2 });
+      expect(diff.find(entry => entry.op === 'removed')?.before?.data.text).toBe('Old intro');
+      expect(diff.find(entry => entry.op === 'added')?.after?.data.text).toBe('Conclusion');
+    });
+
+    it('should report an edited block in place as modified', () => {
+      const diff = diffBlocks(
+        [header('Title'), paragraph('Helo')],
+        [header('Title'), paragraph('Hello')]
+      );
+
+      expect(diff[1]).toMatchObject({ op: 'modified', fromIndex: 1, toIndex: 1, type: 'paragraph' });
+    });
+
+    it('should match blocks by editor id when available', () => {
+      const diff = diffBlocks(
+        [paragraph('First', 'a'), paragraph('Second', 'b')],
+        [paragraph('First', 'a'), paragraph('Second edited', 'b')]
+      );
+
+      expect(diff.map(entry => entry.op)).toEqual(['unchanged', 'modified']);
+    });
+  });
+});
+
+describe('Blog Revisions - Recording', () => {
+  const editorId = String(new mongoose.Types.ObjectId());
+  const numbersOf = async (blogId: unknown) =>
+    (await BlogRevisionModel.find({ blogId }).sort({ revision: 1 }).lean()).map(revision => revision.revision);
+
+  beforeAll(async () => {
+    await BlogRevisionModel.init();
+  });
+
+  it('should number the revisions of a blog one after the other', async () => {
+    const blog = await BlogModel.create(BlogFactory.create({ isPublished: true }));
+    await blogRevisionService.recordRevision(blog, editorId);
+    blog.title = 'Edited title';
+    const second = await blogRevisionService.recordRevision(blog, editorId);
+
+    expect(second).toMatchObject({ revision: 2, title: 'Edited title' });
+    expect(await numbersOf(blog._id)).toEqual([1, 2]);
+  });
+
+  it('should give concurrent edits distinct revision numbers', async () => {
+    const blog = await BlogModel.create(BlogFactory.create({ isPublished: true }));
+    await Promise.all([1, 2, 3].map(() => blogRevisionService.recordRevision(blog, editorId)));
+    expect(await numbersOf(blog._id)).toEqual([1, 2, 3]);
+  });
+
+  it('should keep the state of a blog written before revisions as revision 1', async () => {
+    const blog = await BlogModel.create(BlogFactory.create({ isPublished: true }));
+    const original = blog.title;
+    await blogRevisionService.recordBaseline(blog);
+    await blogRevisionService.recordBaseline(blog);
+
+    blog.title = 'First edit';
+    await blogRevisionService.recordRevision(blog, editorId);
+
+    const [baseline, edit] = await BlogRevisionModel.find({ blogId: blog._id }).sort({ revision: 1 }).lean();
+    expect(baseline).toMatchObject({ revision: 1, title: original });
+    expect(String(baseline.editedBy)).toBe(String(blog.author));
+    expect(edit).toMatchObject({ revision: 2, title: 'First edit' });
+  });
+
+  it('should record one baseline when edits race for it', async () => {
+    const blog = await BlogModel.create(BlogFactory.create({ isPublished: true }));
+    await Promise.all([blogRevisionService.recordBaseline(blog), blogRevisionService.recordBaseline(blog)]);
+    expect(await numbersOf(blog._id)).toEqual([1]);
+  });
+});
@@ -0,0 +1,133 @@
+import BlogModel from '../../models/blogs.model';
+import userModel from '../../models/user.model';
+import { publishScheduledBlogs, unpublishExpiredBlogs } from '../../services/blog.service';
+import { redis } from '../../utils/redis';
+import { BlogFactory } from '../factories/blog.factory';
+import { UserFactory } from '../factories/user.factory';
+
+jest.mock('../../utils/redis', () => require('../mocks/memoryRedis.mock'));
+jest.mock('../../server', () => require('../mocks/server.mock'));
+
+const HOUR = 60 * 60 * 1000;
+
+describe('Blog Scheduling', () => {
+  const now = new Date('2026-01-01T10:00:00Z');
+
+  const createAuthor = (totalPosts = 0) =>
+    userModel.create({ ...UserFactory.create(), account_info: { total_posts: totalPosts, total_reads: 0 } });
+
+  const createBlog = (authorId: string, extra: Record<string, any> = {}) =>
+    BlogModel.create({ ...BlogFactory.create({ authorId, isPublished: false }), ...extra });
+
+  afterEach(async () => {
+    await redis.flushall();
+  });
+
+  describe('publishScheduledBlogs', () => {
+    it('should publish a due draft, date it and count it for its author', async () => {
+      const author = await createAuthor();
+      const blog = await createBlog(String(author._id), {
+        draft: true,
+        publishAt: new Date(now.getTime() - HOUR),
+        published_at: new Date('2025-12-01')
+      });
+
+      expect(await publishScheduledBlogs(now)).toBe(1);
+
+      const published = await BlogModel.findById(blog._id).lean();
+      expect(published).toMatchObject({ isPublished: true, draft: false, published_at: now });
+      expect(published?.publishAt).toBeUndefined();
+
+      const credited = await userModel.findById(author._id).lean();
+      expect(credited?.account_info.total_posts).toBe(1);
+      expect(credited?.blogs.map(String)).toContain(String(blog._id));
+      expect(JSON.parse(await redis.get(String(author._id)) as string).account_info.total_posts).toBe(1);
+    });
+
+    it('should not count again a blog already out of draft', async () => {
+      const author = await createAuthor(1);
+      await createBlog(String(author._id), { draft: false, publishAt: new Date(now.getTime() - HOUR) });
+
+      expect(await publishScheduledBlogs(now)).toBe(1);
+      expect((await userModel.findById(author._id).lean())?.account_info.total_posts).toBe(1);
+    });
+
+    it('should leave the blogs not due yet', async () => {
+      const author = await createAuthor();
+      const later = await createBlog(String(author._id), { draft: true, publishAt: new Date(now.getTime() + HOUR) });
+
+      expect(await publishScheduledBlogs(now)).toBe(0);
+      expect(await BlogModel.findById(later._id).lean()).toMatchObject({ isPublished: false, draft: true });
+    });
+
+    it('should leave the blogs in the trash', async () => {
+      const author = await createAuthor();
+      const trashed = await createBlog(String(author._id), { draft: true, publishAt: now, deletedAt: now });
+
+      expect(await publishScheduledBlogs(now)).toBe(0);
+      expect(await BlogModel.findById(trashed._id).lean()).toMatchObject({ isPublished: false });
+    });
+
+    it('should record the scheduled publication in the status history', async () => {
+      const author = await createAuthor();
+      const blog = await createBlog(String(author._id), { draft: true, status: 'draft', publishAt: now });
+
+      await publishScheduledBlogs(now);
+      const published = await BlogModel.findById(blog._id).lean();
+      expect(published?.status).toBe('published');
+      expect(published?.statusHistory).toEqual([
+        expect.objectContaining({ from: 'draft', to: 'published', comment: 'Scheduled publication', at: now })
+      ]);
+    });
+
+    it('should only publish kids content once approved', async () => {
+      const author = await createAuthor();
+      const kids = { ...BlogFactory.createKidsContent(), author: author._id, draft: true, publishAt: now };
+      const waiting = await BlogModel.create({ ...kids, status: 'in_review' });
+      const approved = await BlogModel.create({ ...kids, blog_id: 'approved-kids-blog', status: 'approved' });
+
+      expect(await publishScheduledBlogs(now)).toBe(1);
+      expect(await BlogModel.findById(waiting._id).lean()).toMatchObject({ isPublished: false, status: 'in_review' });
+      expect(await BlogModel.findById(approved._id).lean()).toMatchObject({ isPublished: true, status: 'published' });
+    });
+
+    it('should publish a blog once when runs overlap', async () => {
+      const author = await createAuthor();
+      await createBlog(String(author._id), { draft: true, publishAt: now });
+
+      const runs = await Promise.all([publishScheduledBlogs(now), publishScheduledBlogs(now)]);
+      expect(runs[0] + runs[1]).toBe(1);
+      expect((await userModel.findById(author._id).lean())?.account_info.total_posts).toBe(1);
+    });
+  });
+
+  describe('unpublishExpiredBlogs', () => {
+    it('should archive the published blogs past their end date', async () => {
+      const author = await createAuthor(1);
+      const expired = await createBlog(String(author._id), {
+        draft: false,
+        isPublished: true,
+        status: 'published',
+        unpublishAt: new Date(now.getTime() - HOUR)
+      });
+      const running = await createBlog(String(author._id), {
+        draft: false,
+        isPublished: true,
+        status: 'published',
+        unpublishAt: new Date(now.getTime() + HOUR)
+      });
+
+      expect(await unpublishExpiredBlogs(now)).toBe(1);
+      expect(await BlogModel.findById(expired._id).lean()).toMatchObject({ isPublished: false, status: 'archived' });
+      expect(await BlogModel.findById(running._id).lean()).toMatchObject({ isPublished: true, status: 'published' });
+    });
+
+    it('should archive a blog once when runs overlap', async () => {
+      const author = await createAuthor(1);
+      await createBlog(String(author._id), { draft: false, isPublished: true, status: 'published', unpublishAt: now });
+
+      const runs = await Promise.all([unpublishExpiredBlogs(now), unpublishExpiredBlogs(now)]);
+      expect(runs[0] + runs[1]).toBe(1);
+    });
+  });
+});
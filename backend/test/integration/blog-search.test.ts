@@ -0,0 +1,66 @@
+import BlogModel from '../../models/blogs.model';
+import { blogSearchService } from '../../services/blogSearch.service';
+import { AgeGroup, ageGroupFilterFor } from '../../utils/ageGroups';
+import { BlogFactory } from '../factories/blog.factory';
+
+const yearsAgo = (years: number) => new Date(Date.now() - years * 365.25 * 24 * 60 * 60 * 1000);
+
+describe('Blog Search', () => {
+  const kidsAccount = { dateOfBirth: yearsAgo(10) };
+
+  const createBlog = (ageGroup: AgeGroup, tag: string) =>
+    BlogModel.create({
+      ...BlogFactory.create({ isPublished: true, isKidsContent: ageGroup !== 'general', ageGroup }),
+      title: `All about volcanoes for ${ageGroup}`,
+      tags: [tag],
+      category: `category-${ageGroup}`
+    });
+
+  const search = (extra: { ageGroup?: string } = {}, user: { dateOfBirth: Date } | null = kidsAccount) =>
+    blogSearchService.search({ q: 'volcanoes', page: 1, limit: 10, audienceFilter: ageGroupFilterFor(user), ...extra });
+
+  beforeAll(async () => {
+    await BlogModel.init();
+  });
+
+  beforeEach(async () => {
+    await createBlog('kids-6-8', 'young');
+    await createBlog('kids-9-12', 'middle');
+    await createBlog('kids-13-16', 'teen');
+    await createBlog('general', 'adult');
+  });
+
+  it('should rank published blogs matching the query and highlight the terms', async () => {
+    const { results, pagination } = await search({}, null);
+    expect(pagination.total).toBe(4);
+    expect(results[0].highlight.title).toContain('<mark>volcanoes</mark>');
+  });
+
+  it('should only give a kids account results and facets of its age groups', async () => {
+    const { results, facets, pagination } = await search();
+
+    expect(results.map((blog: any) => blog.ageGroup).sort()).toEqual(['kids-6-8', 'kids-9-12']);
+    expect(pagination.total).toBe(2);
+    expect(facets.ageGroup.map(facet => facet.value).sort()).toEqual(['kids-6-8', 'kids-9-12']);
+    expect(facets.tags.map(facet => facet.value).sort()).toEqual(['middle', 'young']);
+    expect(facets.category.map(facet => facet.value).sort()).toEqual(['category-kids-6-8', 'category-kids-9-12']);
+  });
+
+  it('should never widen the age groups of a kids account through the age group filter', async () => {
+    for (const ageGroup of ['kids-13-16', 'general']) {
+      const { results, facets, pagination } = await search({ ageGroup });
+      expect(results).toEqual([]);
+      expect(pagination.total).toBe(0);
+      expect(facets).toEqual({ category: [], tags: [], ageGroup: [], educationalLevel: [] });
+    }
+
+    const { results, facets } = await search({ ageGroup: 'kids-6-8' });
+    expect(results.map((blog: any) => blog.ageGroup)).toEqual(['kids-6-8']);
+    expect(facets.ageGroup).toEqual([{ value: 'kids-6-8', count: 1 }]);
+  });
+
+  it('should leave drafts out', async () => {
+    await BlogModel.create({ ...BlogFactory.create({ isPublished: false }), title: 'Volcanoes draft' });
+    expect((await search({}, null)).pagination.total).toBe(4);
+  });
+});
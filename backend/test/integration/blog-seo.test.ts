@@ -0,0 +1,108 @@
+import mongoose from 'mongoose';
+import BlogModel from '../../models/blogs.model';
+import userModel from '../../models/user.model';
+import { seoService } from '../../services/seo.service';
+import { BlogFactory } from '../factories/blog.factory';
+import { UserFactory } from '../factories/user.factory';
+
+describe('Blog SEO', () => {
+  const createAuthor = () =>
+    userModel.create({ ...UserFactory.create(), name: 'Ada', account_info: { total_posts: 0, total_reads: 0 } });
+
+  const createBlog = (authorId: unknown, extra: Record<string, any> = {}) =>
+    BlogModel.create({ ...BlogFactory.create({ authorId: String(authorId), isPublished: true }), ...extra });
+
+  // the last modification date as stored, mongoose sets it on create
+  const touch = (blogId: unknown, updatedAt: Date) =>
+    BlogModel.updateOne({ _id: blogId }, { $set: { updatedAt } }, { timestamps: false });
+
+  describe('sitemaps', () => {
+    it('should list one sitemap per kind with content, dated by the last change', async () => {
+      const author = await createAuthor();
+      const lastmod = new Date('2026-01-05T00:00:00Z');
+      await touch((await createBlog(author._id, { category: '' }))._id, new Date('2026-01-01T00:00:00Z'));
+      await touch((await createBlog(author._id, { category: '' }))._id, lastmod);
+      await createBlog(author._id, { category: 'Science', isPublished: false, draft: true });
+
+      const index = await seoService.getSitemapIndex('http://api.test');
+      expect(index).toContain('<loc>http://api.test/sitemaps/blogs-1.xml</loc>');
+      expect(index).not.toContain('blogs-2.xml');
+      expect(index).toContain('<loc>http://api.test/sitemaps/authors-1.xml</loc>');
+      expect(index).not.toContain('categories-1.xml');
+      expect(index).toContain(`<lastmod>${lastmod.toISOString()}</lastmod>`);
+    });
+
+    it('should list the published blogs of a page', async () => {
+      const author = await createAuthor();
+      const updatedAt = new Date('2026-01-02T00:00:00Z');
+      const blog = await createBlog(author._id);
+      await touch(blog._id, updatedAt);
+      const draft = await createBlog(author._id, { isPublished: false, draft: true });
+
+      const sitemap = await seoService.getSitemap('blogs', 1);
+      expect(sitemap).toContain(`/blog/${blog.slug}</loc>`);
+      expect(sitemap).toContain(`<lastmod>${updatedAt.toISOString()}</lastmod>`);
+      expect(sitemap).not.toContain(`/blog/${draft.slug}</loc>`);
+    });
+
+    it('should list the authors and categories of published blogs', async () => {
+      const author = await createAuthor();
+      const silent = await createAuthor();
+      await createBlog(author._id, { category: 'Science' });
+      await createBlog(silent._id, { category: 'Arts', isPublished: false, draft: true });
+
+      const authors = await seoService.getSitemap('authors', 1);
+      expect(authors).toContain(`/author/${author.username}</loc>`);
+      expect(authors).not.toContain(`/author/${silent.username}</loc>`);
+
+      const categories = await seoService.getSitemap('categories', 1);
+      expect(categories).toContain('/category/Science</loc>');
+      expect(categories).not.toContain('/category/Arts</loc>');
+    });
+
+    it('should have an empty first page but no empty later pages', async () => {
+      expect(await seoService.getSitemap('categories', 1)).toContain('<urlset');
+      expect(await seoService.getSitemap('categories', 2)).toBeNull();
+      expect(await seoService.getSitemap('blogs', 2)).toBeNull();
+    });
+  });
+
+  describe('getBlogJsonLd', () => {
+    it('should describe a blog as an article', async () => {
+      const author = await createAuthor();
+      const jsonLd = await seoService.getBlogJsonLd({
+        _id: new mongoose.Types.ObjectId(),
+        slug: 'a-blog',
+        title: 'A blog',
+        des: 'About things',
+        tags: ['one', 'two'],
+        author: author._id,
+        readingTime: 4
+      });
+      expect(jsonLd).toMatchObject({
+        '@type': 'Article',
+        headline: 'A blog',
+        description: 'About things',
+        keywords: 'one, two',
+        timeRequired: 'PT4M',
+        author: { '@type': 'Person', name: 'Ada' }
+      });
+      expect(jsonLd.learningResourceType).toBeUndefined();
+    });
+
+    it('should describe kids content as a learning resource for its age group', async () => {
+      const jsonLd = await seoService.getBlogJsonLd({
+        _id: new mongoose.Types.ObjectId(),
+        author: new mongoose.Types.ObjectId(),
+        title: 'x'.repeat(200),
+        isKidsContent: true,
+        ageGroup: 'kids-9-12'
+      });
+      expect(jsonLd['@type']).toEqual(['Article', 'LearningResource']);
+      expect(jsonLd.headline).toHaveLength(110);
+      expect(jsonLd.typicalAgeRange).toBe('9-12');
+      expect(jsonLd.audience).toMatchObject({ '@type': 'EducationalAudience', audienceType: 'children aged 9-12' });
+      expect(jsonLd.author).toBeUndefined();
+    });
+  });
+});
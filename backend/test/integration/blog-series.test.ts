@@ -0,0 +1,73 @@
+import mongoose from 'mongoose';
+import SeriesModel from '../../models/series.model';
+import BlogModel from '../../models/blogs.model';
+import { UserActivityModel } from '../../models/analytics.model';
+import { seriesService } from '../../services/series.service';
+import { BlogFactory } from '../factories/blog.factory';
+
+describe('Blog Series', () => {
+  const authorId = new mongoose.Types.ObjectId();
+
+  const createPart = (isPublished = true) =>
+    BlogModel.create(BlogFactory.create({ authorId: String(authorId), isPublished }));
+
+  // a series of three parts, the second one unpublished unless told otherwise
+  const createSeries = async (secondPublished = false) => {
+    const parts = [await createPart(), await createPart(secondPublished), await createPart()];
+    const series = await SeriesModel.create({ title: 'Learn to code', author: authorId, blogs: parts.map(part => part._id) });
+    return { series, parts };
+  };
+
+  const viewed = (userId: mongoose.Types.ObjectId, blogId: unknown, scrollDepth: number) =>
+    UserActivityModel.create({
+      userId,
+      sessionId: 'session',
+      action: 'view',
+      resourceType: 'blog',
+      resourceId: String(blogId),
+      metadata: { scrollDepth }
+    });
+
+  describe('getPublishedParts', () => {
+    it('should keep the series order and skip unpublished parts', async () => {
+      const { series, parts: [first, , third] } = await createSeries();
+      const published = await seriesService.getPublishedParts(series.blogs);
+      expect(published.map(part => String(part._id))).toEqual([String(first._id), String(third._id)]);
+    });
+  });
+
+  describe('getNavigation', () => {
+    it('should link a part to its neighbours among the published parts', async () => {
+      const { parts: [first, , third] } = await createSeries();
+
+      const navigation = await seriesService.getNavigation(String(third._id));
+      expect(navigation).toMatchObject({ position: 2, total: 2, next: null });
+      expect(String(navigation?.previous?._id)).toBe(String(first._id));
+    });
+
+    it('should be null for a blog in no published series or not published itself', async () => {
+      const { series, parts: [first, second] } = await createSeries();
+      expect(await seriesService.getNavigation(String(second._id))).toBeNull();
+
+      await SeriesModel.updateOne({ _id: series._id }, { isPublished: false });
+      expect(await seriesService.getNavigation(String(first._id))).toBeNull();
+      expect(await seriesService.getNavigation(String((await createPart())._id))).toBeNull();
+    });
+  });
+
+  describe('getProgress', () => {
+    it('should count a part as completed once the reader scrolled through most of it', async () => {
+      const { series, parts: [first, second] } = await createSeries(true);
+      const readerId = new mongoose.Types.ObjectId();
+      await viewed(readerId, first._id, 95);
+      await viewed(readerId, second._id, 20);
+      await viewed(readerId, second._id, 40);
+      await viewed(new mongoose.Types.ObjectId(), second._id, 100);
+
+      const progress = await seriesService.getProgress(String(series._id), String(readerId));
+      expect(progress).toMatchObject({ total: 3, completed: 1, percent: 33 });
+      expect(progress?.parts.map(part => [part.viewed, part.completed])).toEqual([[true, true], [true, false], [false, false]]);
+      expect(String(progress?.nextPart?._id)).toBe(String(second._id));
+    });
+  });
+});
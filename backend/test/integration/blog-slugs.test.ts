@@ -0,0 +1,39 @@
+import { MAX_SLUG_LENGTH, slugify, uniqueSlug } from '../../utils/slug';
+
+describe('Blog Slugs', () => {
+  describe('slugify', () => {
+    it('should drop french accents and ligatures', () => {
+      expect(slugify('Été à la plage : les œufs !')).toBe('ete-a-la-plage-les-oeufs');
+      expect(slugify('Ça va ? Très bien')).toBe('ca-va-tres-bien');
+    });
+
+    it('should keep arabic letters without diacritics', () => {
+      // hamza forms of alef fold to a bare alef, like the harakat
+      expect(slugify('قصة الأَرنب والسلحفاة')).toBe('قصة-الارنب-والسلحفاة');
+    });
+
+    it('should collapse spaces and punctuation', () => {
+      expect(slugify('  Hello,   World 2024 ')).toBe('hello-world-2024');
+    });
+
+    it('should fall back when nothing is left', () => {
+      expect(slugify('🎉🎉')).toBe('blog');
+    });
+
+    it('should cut long titles', () => {
+      const slug = slugify('word '.repeat(40));
+
+      expect(slug.length).toBeLessThanOrEqual(MAX_SLUG_LENGTH);
+      expect(slug.endsWith('-')).toBe(false);
+    });
+  });
+
+  describe('uniqueSlug', () => {
+    it('should suffix taken slugs', async () => {
+      const taken = new Set(['lesson', 'lesson-2']);
+
+      expect(await uniqueSlug('lesson', async slug => taken.has(slug))).toBe('lesson-3');
+      expect(await uniqueSlug('other', async slug => taken.has(slug))).toBe('other');
+    });
+  });
+});
@@ -0,0 +1,186 @@
+import mongoose from 'mongoose';
+import BlogModel from '../../models/blogs.model';
+import UserModel from '../../models/user.model';
+import TagModel from '../../models/tag.model';
+import CommentModel from '../../models/comment.model';
+import BlogLikeModel from '../../models/blogLike.model';
+import SeriesModel from '../../models/series.model';
+import BlogRevisionModel from '../../models/blogRevision.model';
+import { BookmarkModel, ReadingListModel } from '../../models/bookmark.model';
+import { ArticleAnalyticsModel } from '../../models/analytics.model';
+import { blogTrashService, trashRetentionDays } from '../../services/blogTrash.service';
+import { redis } from '../../utils/redis';
+import { BlogFactory } from '../factories/blog.factory';
+import { UserFactory } from '../factories/user.factory';
+
+jest.mock('../../utils/redis', () => require('../mocks/memoryRedis.mock'));
+jest.mock('../../server', () => require('../mocks/server.mock'));
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('Blog Trash', () => {
+  const actorId = String(new mongoose.Types.ObjectId());
+
+  // an author credited with one published blog tagged space
+  const createPublished = async (extra: Record<string, any> = {}) => {
+    const author = await UserModel.create({ ...UserFactory.create(), account_info: { total_posts: 0, total_reads: 0 } });
+    const blog = await BlogModel.create({
+      ...BlogFactory.create({ authorId: String(author._id), isPublished: true }),
+      draft: false,
+      tags: ['space'],
+      ...extra
+    });
+    const posts = blog.draft ? 0 : 1;
+    await UserModel.updateOne({ _id: author._id }, { $set: { blogs: [blog._id], 'account_info.total_posts': posts } });
+    await TagModel.create({ slug: 'space', name: 'space', usageCount: 1 });
+    return { author, blog, blogId: String(blog._id) };
+  };
+
+  const authorOf = (authorId: unknown) => UserModel.findById(authorId).lean();
+  const spaceUsage = async () => (await TagModel.findOne({ slug: 'space' }).lean())?.usageCount;
+
+  afterEach(async () => {
+    delete process.env.TRASH_RETENTION_DAYS;
+    await redis.flushall();
+  });
+
+  it('should keep trashed blogs 30 days unless configured', () => {
+    expect(trashRetentionDays()).toBe(30);
+    process.env.TRASH_RETENTION_DAYS = '7';
+    expect(trashRetentionDays()).toBe(7);
+  });
+
+  describe('moveToTrash', () => {
+    it('should hide the blog, keep its status for a restore and uncount it', async () => {
+      const now = new Date('2026-01-01T00:00:00Z');
+      const { author, blogId } = await createPublished();
+      await redis.set(blogId, 'cached');
+
+      await blogTrashService.moveToTrash(blogId, actorId, now);
+      const stored = await BlogModel.findById(blogId).lean();
+      expect(stored).toMatchObject({ status: 'published', isPublished: false, deletedAt: now, purgeAt: new Date(now.getTime() + 30 * DAY) });
+      expect(String(stored?.deletedBy)).toBe(actorId);
+
+      const credited = await authorOf(author._id);
+      expect(credited?.account_info.total_posts).toBe(0);
+      expect(credited?.blogs).toEqual([]);
+      expect(await spaceUsage()).toBe(0);
+      expect(await redis.get(blogId)).toBeNull();
+    });
+
+    it('should leave the post count of drafts alone', async () => {
+      const { author, blogId } = await createPublished({ draft: true, isPublished: false });
+      await UserModel.updateOne({ _id: author._id }, { $set: { 'account_info.total_posts': 2 } });
+
+      await blogTrashService.moveToTrash(blogId, actorId);
+      expect(await BlogModel.findById(blogId).lean()).toMatchObject({ status: 'draft' });
+      expect((await authorOf(author._id))?.account_info.total_posts).toBe(2);
+    });
+
+    it('should uncount a blog deleted twice at once only once', async () => {
+      const { author, blogId } = await createPublished();
+      await UserModel.updateOne({ _id: author._id }, { $set: { 'account_info.total_posts': 2 } });
+
+      const trashed = await Promise.all([blogTrashService.moveToTrash(blogId, actorId), blogTrashService.moveToTrash(blogId, actorId)]);
+      expect(trashed.filter(Boolean)).toHaveLength(1);
+      expect((await authorOf(author._id))?.account_info.total_posts).toBe(1);
+    });
+
+    it('should never take the post count below zero', async () => {
+      const { author, blogId } = await createPublished();
+      await UserModel.updateOne({ _id: author._id }, { $set: { 'account_info.total_posts': 0 } });
+
+      await blogTrashService.moveToTrash(blogId, actorId);
+      const credited = await authorOf(author._id);
+      expect(credited?.account_info.total_posts).toBe(0);
+      expect(credited?.blogs).toEqual([]);
+    });
+  });
+
+  describe('restore', () => {
+    it('should publish again a blog published when deleted and count it back', async () => {
+      const { author, blogId } = await createPublished();
+      await blogTrashService.moveToTrash(blogId, actorId);
+
+      await blogTrashService.restore(blogId);
+      const stored = await BlogModel.findById(blogId).lean();
+      expect(stored).toMatchObject({ isPublished: true, status: 'published', deletedAt: null });
+      expect(stored?.purgeAt).toBeUndefined();
+
+      const credited = await authorOf(author._id);
+      expect(credited?.account_info.total_posts).toBe(1);
+      expect(credited?.blogs.map(String)).toEqual([blogId]);
+      expect(await spaceUsage()).toBe(1);
+    });
+
+    it('should keep a blog unpublished when it was not published before', async () => {
+      const { blogId } = await createPublished({ status: 'in_review', isPublished: false });
+      await blogTrashService.moveToTrash(blogId, actorId);
+
+      await blogTrashService.restore(blogId);
+      expect(await BlogModel.findById(blogId).lean()).toMatchObject({ isPublished: false, status: 'in_review' });
+    });
+
+    it('should do nothing for a blog out of the trash', async () => {
+      const { author, blogId } = await createPublished();
+      expect(await blogTrashService.restore(blogId)).toBeNull();
+      expect((await authorOf(author._id))?.account_info.total_posts).toBe(1);
+      expect(await spaceUsage()).toBe(1);
+    });
+  });
+
+  describe('list', () => {
+    it('should list the trashed blogs of an author, newest deletion first', async () => {
+      const { author, blogId } = await createPublished();
+      const later = await BlogModel.create(BlogFactory.create({ authorId: String(author._id), isPublished: true }));
+      const other = await BlogModel.create(BlogFactory.create({ isPublished: true }));
+      await blogTrashService.moveToTrash(blogId, actorId, new Date('2026-01-01T00:00:00Z'));
+      await blogTrashService.moveToTrash(String(later._id), actorId, new Date('2026-01-02T00:00:00Z'));
+      await blogTrashService.moveToTrash(String(other._id), actorId);
+
+      const { blogs, total } = await blogTrashService.list(String(author._id), 1, 10);
+      expect(total).toBe(2);
+      expect(blogs.map(blog => String(blog._id))).toEqual([String(later._id), blogId]);
+    });
+  });
+
+  describe('purge', () => {
+    it('should only delete blogs in the trash, with their data', async () => {
+      const { blog, blogId } = await createPublished();
+      const userId = new mongoose.Types.ObjectId();
+      await CommentModel.create({ content: 'Nice', author: userId, blogId: blog._id });
+      await BlogLikeModel.create({ user: userId, blog: blog._id });
+      await BlogRevisionModel.create({ blogId: blog._id, revision: 1, title: blog.title, editedBy: userId });
+      await BookmarkModel.create({ user: userId, blog: blog._id });
+      const list = await ReadingListModel.create({ owner: userId, name: 'Later', items: [{ blog: blog._id }] });
+      const series = await SeriesModel.create({ title: 'Series', author: blog.author, blogs: [blog._id] });
+      await ArticleAnalyticsModel.create({ blogId: blog._id, date: new Date() });
+
+      expect(await blogTrashService.purge(blogId)).toBe(false);
+      expect(await BlogModel.exists({ _id: blogId })).not.toBeNull();
+
+      await blogTrashService.moveToTrash(blogId, actorId);
+      expect(await blogTrashService.purge(blogId)).toBe(true);
+      expect(await BlogModel.exists({ _id: blogId })).toBeNull();
+      for (const model of [CommentModel, BlogRevisionModel, ArticleAnalyticsModel] as mongoose.Model<any>[]) {
+        expect(await model.countDocuments({ blogId: blog._id })).toBe(0);
+      }
+      expect(await BlogLikeModel.countDocuments({ blog: blog._id })).toBe(0);
+      expect(await BookmarkModel.countDocuments({ blog: blog._id })).toBe(0);
+      expect((await ReadingListModel.findById(list._id).lean())?.items).toEqual([]);
+      expect((await SeriesModel.findById(series._id).lean())?.blogs).toEqual([]);
+    });
+
+    it('should purge only the blogs past their retention', async () => {
+      const now = new Date();
+      const expired = await createPublished();
+      const kept = await BlogModel.create(BlogFactory.create({ isPublished: true }));
+      await blogTrashService.moveToTrash(expired.blogId, actorId, new Date(now.getTime() - 31 * DAY));
+      await blogTrashService.moveToTrash(String(kept._id), actorId, now);
+
+      expect(await blogTrashService.purgeExpired(now)).toBe(1);
+      expect(await BlogModel.exists({ _id: expired.blogId })).toBeNull();
+      expect(await BlogModel.exists({ _id: kept._id })).not.toBeNull();
+    });
+  });
+});
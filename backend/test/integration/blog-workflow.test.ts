@@ -0,0 +1,166 @@
+import BlogModel, { BlogStatus } from '../../models/blogs.model';
+import userModel from '../../models/user.model';
+import NotificationModel from '../../models/notification.model';
+import { BLOG_TRANSITIONS, WorkflowActor, blogWorkflowService, getBlogStatus, initialBlogStatus } from '../../services/blogWorkflow.service';
+import { redis } from '../../utils/redis';
+import { BlogFactory } from '../factories/blog.factory';
+import { UserFactory } from '../factories/user.factory';
+
+jest.mock('../../utils/redis', () => require('../mocks/memoryRedis.mock'));
+jest.mock('../../server', () => require('../mocks/server.mock'));
+
+const actorOf = (user: { _id: unknown; role: string }): WorkflowActor => ({ _id: String(user._id), role: user.role });
+
+describe('Blog Workflow', () => {
+  const createUser = (role: 'user' | 'moderator' = 'user') =>
+    userModel.create({ ...UserFactory.create({ role }), account_info: { total_posts: 0, total_reads: 0 } });
+
+  const blogIn = (status: BlogStatus | undefined, authorId: unknown, extra: Record<string, any> = {}) =>
+    BlogModel.create({
+      ...BlogFactory.create({ authorId: String(authorId), isPublished: status === 'published' }),
+      status,
+      draft: status === 'draft',
+      ...extra
+    });
+
+  afterEach(async () => {
+    await redis.flushall();
+  });
+
+  describe('status', () => {
+    it('should derive the status of blogs created before the workflow', async () => {
+      const author = await createUser();
+      expect(getBlogStatus(await blogIn(undefined, author._id, { isPublished: true }))).toBe('published');
+      expect(getBlogStatus(await blogIn(undefined, author._id, { isPublished: false }))).toBe('draft');
+      expect(getBlogStatus(await blogIn('archived', author._id))).toBe('archived');
+    });
+
+    it('should send kids and flagged content to review on create', () => {
+      expect(initialBlogStatus({ draft: true, isPublished: true, isKidsContent: true })).toBe('draft');
+      expect(initialBlogStatus({ draft: false, isPublished: true, isKidsContent: true })).toBe('in_review');
+      expect(initialBlogStatus({ draft: false, isPublished: true, needsReview: true })).toBe('in_review');
+      expect(initialBlogStatus({ draft: false, isPublished: true })).toBe('published');
+      expect(initialBlogStatus({ draft: false, isPublished: false })).toBe('draft');
+    });
+
+    it('should only let archived blogs go back to draft', () => {
+      expect(BLOG_TRANSITIONS.archived).toEqual(['draft']);
+    });
+  });
+
+  describe('transition', () => {
+    it('should refuse moves outside the state machine', async () => {
+      const author = await createUser();
+      const moderator = await createUser('moderator');
+      await expect(blogWorkflowService.transition(await blogIn('archived', author._id), 'published', actorOf(author)))
+        .rejects.toMatchObject({ statusCode: 409 });
+      await expect(blogWorkflowService.transition(await blogIn('draft', author._id), 'approved', actorOf(moderator)))
+        .rejects.toMatchObject({ statusCode: 409 });
+    });
+
+    it('should refuse users who are neither the author nor a reviewer', async () => {
+      const author = await createUser();
+      const stranger = await createUser();
+      await expect(blogWorkflowService.transition(await blogIn('draft', author._id), 'in_review', actorOf(stranger)))
+        .rejects.toMatchObject({ statusCode: 403 });
+    });
+
+    it('should leave review decisions to moderators, never on their own blog', async () => {
+      const author = await createUser();
+      const moderator = await createUser('moderator');
+      await expect(blogWorkflowService.transition(await blogIn('in_review', author._id), 'approved', actorOf(author)))
+        .rejects.toMatchObject({ statusCode: 403 });
+      await expect(blogWorkflowService.transition(await blogIn('in_review', moderator._id), 'approved', actorOf(moderator)))
+        .rejects.toMatchObject({ statusCode: 403, message: 'You cannot review your own blog' });
+    });
+
+    it('should ask for a comment when changes are requested and tell the author', async () => {
+      const author = await createUser();
+      const moderator = await createUser('moderator');
+      const blog = await blogIn('in_review', author._id);
+      await expect(blogWorkflowService.transition(blog, 'changes_requested', actorOf(moderator), '  '))
+        .rejects.toMatchObject({ statusCode: 400 });
+
+      await blogWorkflowService.transition(blog, 'changes_requested', actorOf(moderator), ' Fix the intro ');
+      const stored = await BlogModel.findById(blog._id).lean();
+      expect(stored?.status).toBe('changes_requested');
+      expect(stored?.statusHistory).toEqual([
+        expect.objectContaining({ from: 'in_review', to: 'changes_requested', comment: 'Fix the intro' })
+      ]);
+      expect(String(stored?.statusHistory[0].by)).toBe(String(moderator._id));
+      expect(await NotificationModel.findOne({ recipient: author._id, type: 'blog_review' }).lean())
+        .toMatchObject({ data: expect.objectContaining({ from: 'in_review', to: 'changes_requested' }) });
+    });
+
+    it('should only let the author submit for review', async () => {
+      const author = await createUser();
+      const moderator = await createUser('moderator');
+      await expect(blogWorkflowService.transition(await blogIn('draft', author._id), 'in_review', actorOf(moderator)))
+        .rejects.toMatchObject({ statusCode: 403 });
+    });
+
+    it('should publish kids content only once approved', async () => {
+      const author = await createUser();
+      await expect(blogWorkflowService.transition(await blogIn('draft', author._id, { isKidsContent: true }), 'published', actorOf(author)))
+        .rejects.toMatchObject({ statusCode: 403 });
+
+      const blog = await blogIn('approved', author._id, { isKidsContent: true, draft: true });
+      await blogWorkflowService.transition(blog, 'published', actorOf(author));
+      expect(await BlogModel.findById(blog._id).lean()).toMatchObject({ status: 'published', isPublished: true, draft: false });
+    });
+
+    it('should count a published draft for its author once', async () => {
+      const author = await createUser();
+      const blog = await blogIn('draft', author._id);
+
+      await blogWorkflowService.transition(blog, 'published', actorOf(author));
+      await blogWorkflowService.transition(blog, 'draft', actorOf(author));
+      await blogWorkflowService.transition(blog, 'published', actorOf(author));
+
+      const credited = await userModel.findById(author._id).lean();
+      expect(credited?.account_info.total_posts).toBe(1);
+      expect(credited?.blogs.map(String)).toEqual([String(blog._id)]);
+    });
+
+    it('should drop the cached blog when it is published', async () => {
+      const author = await createUser();
+      const blog = await blogIn('draft', author._id);
+      await redis.set(String(blog._id), JSON.stringify(blog));
+
+      await blogWorkflowService.transition(blog, 'published', actorOf(author));
+      expect(await redis.get(String(blog._id))).toBeNull();
+    });
+
+    it('should keep the cached blog when it was never public', async () => {
+      const author = await createUser();
+      const blog = await blogIn('draft', author._id);
+      await redis.set(String(blog._id), JSON.stringify(blog));
+
+      await blogWorkflowService.transition(blog, 'in_review', actorOf(author));
+      expect(await redis.get(String(blog._id))).not.toBeNull();
+    });
+  });
+
+  describe('resubmit', () => {
+    it('should send edited published blogs back to review whoever edits them', async () => {
+      const author = await createUser();
+      const editor = await createUser();
+      const blog = await blogIn('published', author._id);
+
+      await blogWorkflowService.resubmit(blog, actorOf(editor), 'Edited after approval');
+      const stored = await BlogModel.findById(blog._id).lean();
+      expect(stored).toMatchObject({ status: 'in_review', isPublished: false });
+      expect(stored?.statusHistory).toEqual([
+        expect.objectContaining({ from: 'published', to: 'in_review', comment: 'Edited after approval' })
+      ]);
+    });
+
+    it('should refuse blogs that cannot go to review', async () => {
+      const author = await createUser();
+      await expect(blogWorkflowService.resubmit(await blogIn('archived', author._id), actorOf(author), 'Edited'))
+        .rejects.toMatchObject({ statusCode: 409 });
+      await expect(blogWorkflowService.resubmit(await blogIn('in_review', author._id), actorOf(author), 'Edited'))
+        .rejects.toMatchObject({ statusCode: 409 });
+    });
+  });
+});
@@ -0,0 +1,90 @@
+import mongoose from 'mongoose';
+import BlogModel from '../../models/blogs.model';
+import { BookmarkModel, ReadingListModel } from '../../models/bookmark.model';
+import { ArticleAnalyticsModel } from '../../models/analytics.model';
+import { bookmarkService } from '../../services/bookmark.service';
+import { BlogFactory } from '../factories/blog.factory';
+
+jest.mock('../../utils/redis', () => require('../mocks/memoryRedis.mock'));
+jest.mock('../../server', () => require('../mocks/server.mock'));
+
+describe('Bookmarks', () => {
+  const userId = String(new mongoose.Types.ObjectId());
+
+  const createBlog = (isPublished = true) =>
+    BlogModel.create(BlogFactory.create({ authorId: String(new mongoose.Types.ObjectId()), isPublished }));
+
+  const bookmarksCounted = async (blogId: unknown) =>
+    (await ArticleAnalyticsModel.findOne({ blogId }).lean() as any)?.bookmarks;
+
+  beforeAll(async () => {
+    await BookmarkModel.init();
+    await ReadingListModel.init();
+  });
+
+  describe('addBookmark', () => {
+    it('should bookmark and count a blog once', async () => {
+      const blogId = String((await createBlog())._id);
+
+      expect(await bookmarkService.addBookmark(userId, blogId)).toBe(true);
+      expect(await bookmarkService.addBookmark(userId, blogId)).toBe(false);
+      expect(await BookmarkModel.countDocuments({ user: userId, blog: blogId })).toBe(1);
+      expect(await bookmarksCounted(blogId)).toBe(1);
+    });
+
+    it('should keep one bookmark when the same blog is bookmarked at once', async () => {
+      const blogId = String((await createBlog())._id);
+
+      const added = await Promise.all([bookmarkService.addBookmark(userId, blogId), bookmarkService.addBookmark(userId, blogId)]);
+      expect(added.filter(Boolean)).toHaveLength(1);
+      expect(await bookmarksCounted(blogId)).toBe(1);
+    });
+  });
+
+  describe('removeBookmark', () => {
+    it('should take the blog out of the reading lists of the user', async () => {
+      const blogId = String((await createBlog())._id);
+      const list = await ReadingListModel.create({ owner: userId, name: 'Later' });
+      await bookmarkService.addToReadingList(userId, String(list._id), blogId);
+
+      expect(await bookmarkService.removeBookmark(userId, blogId)).toBe(true);
+      expect((await ReadingListModel.findById(list._id).lean())?.items).toEqual([]);
+      expect(await bookmarksCounted(blogId)).toBe(0);
+    });
+
+    it('should do nothing for a blog that was not bookmarked', async () => {
+      const blogId = String((await createBlog())._id);
+      expect(await bookmarkService.removeBookmark(userId, blogId)).toBe(false);
+      expect(await bookmarksCounted(blogId)).toBeUndefined();
+    });
+  });
+
+  describe('reading lists', () => {
+    it('should bookmark the blog and add it to a list of the user once', async () => {
+      const blogId = String((await createBlog())._id);
+      const list = await ReadingListModel.create({ owner: userId, name: 'Later' });
+
+      expect(await bookmarkService.addToReadingList(userId, String(list._id), blogId)).toBe(true);
+      expect(await bookmarkService.addToReadingList(userId, String(list._id), blogId)).toBe(false);
+      expect((await ReadingListModel.findById(list._id).lean())?.items).toHaveLength(1);
+      expect(await BookmarkModel.countDocuments({ user: userId, blog: blogId })).toBe(1);
+    });
+
+    it('should not add to the list of another user', async () => {
+      const blogId = String((await createBlog())._id);
+      const list = await ReadingListModel.create({ owner: new mongoose.Types.ObjectId(), name: 'Theirs' });
+
+      expect(await bookmarkService.addToReadingList(userId, String(list._id), blogId)).toBe(false);
+      expect((await ReadingListModel.findById(list._id).lean())?.items).toEqual([]);
+    });
+
+    it('should list the items in the order they were added, skipping unpublished blogs', async () => {
+      const [first, second, third] = [await createBlog(), await createBlog(false), await createBlog()];
+      const items = [first, second, third].map((blog, index) => ({ blog: blog._id, addedAt: new Date(2026, 0, index + 1) }));
+
+      const { items: listed, pagination } = await bookmarkService.getReadingListItems({ items }, 1, 3);
+      expect(listed.map(item => String(item.blog?._id))).toEqual([String(first._id), String(third._id)]);
+      expect(pagination).toMatchObject({ total: 3, totalPages: 1, hasNext: false });
+    });
+  });
+});
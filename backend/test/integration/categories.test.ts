@@ -0,0 +1,102 @@
+import BlogModel from '../../models/blogs.model';
+import CategoryModel from '../../models/category.model';
+import { categoryService } from '../../services/category.service';
+import { blogListingService } from '../../services/blogListing.service';
+import { redis } from '../../utils/redis';
+import { BlogFactory } from '../factories/blog.factory';
+
+jest.mock('../../utils/redis', () => require('../mocks/memoryRedis.mock'));
+
+describe('Categories', () => {
+  // science > space > planets, and a category below an inactive parent
+  const createCategories = async () => {
+    const science = await CategoryModel.create({ slug: 'science', name: 'science', translations: { fr: 'Sciences' }, aliases: ['sci'] });
+    const space = await CategoryModel.create({ slug: 'space', name: 'space', parent: science._id, ageGroups: ['kids-9-12', 'general'], order: 1 });
+    const planets = await CategoryModel.create({ slug: 'planets', name: 'planets', parent: space._id });
+    const inactive = await CategoryModel.create({ slug: 'inactive-parent', name: 'inactive-parent', isActive: false });
+    await CategoryModel.create({ slug: 'orphan', name: 'orphan', parent: inactive._id, order: 2 });
+    return { science, space, planets };
+  };
+
+  beforeAll(async () => {
+    await CategoryModel.init();
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await redis.flushall();
+  });
+
+  describe('hierarchy', () => {
+    it('should nest categories under their parent, translated when asked', async () => {
+      await createCategories();
+      const tree = await categoryService.getTree('fr');
+      expect(tree.map(category => category.name)).toEqual(['Sciences', 'orphan']);
+      expect(tree[0].children[0].slug).toBe('space');
+      expect(tree[0].children[0].children[0].slug).toBe('planets');
+    });
+
+    it('should include every category below one', async () => {
+      await createCategories();
+      expect(await categoryService.withDescendants('science')).toEqual(['science', 'space', 'planets']);
+      expect(await categoryService.withDescendants('unknown')).toEqual(['unknown']);
+    });
+
+    it('should refuse a parent below the category itself', async () => {
+      const { science, planets } = await createCategories();
+      expect(await categoryService.createsCycle(String(science._id), String(planets._id))).toBe(true);
+      expect(await categoryService.createsCycle(String(science._id), String(science._id))).toBe(true);
+      expect(await categoryService.createsCycle(String(planets._id), String(science._id))).toBe(false);
+    });
+
+    it('should serve the cached categories until they are invalidated', async () => {
+      await createCategories();
+      await categoryService.getAll();
+      await CategoryModel.create({ slug: 'arts', name: 'arts' });
+
+      expect((await categoryService.getAll()).map(category => category.slug)).not.toContain('arts');
+      await categoryService.invalidate();
+      expect((await categoryService.getAll()).map(category => category.slug)).toContain('arts');
+    });
+  });
+
+  describe('validateBlogCategory', () => {
+    it('should resolve a category by slug or alias', async () => {
+      await createCategories();
+      expect(await categoryService.validateBlogCategory('Science')).toEqual({ slug: 'science' });
+      expect(await categoryService.validateBlogCategory('sci')).toEqual({ slug: 'science' });
+    });
+
+    it('should refuse unknown categories and age groups the category is not for', async () => {
+      await createCategories();
+      expect(await categoryService.validateBlogCategory('cooking')).toEqual({ error: 'Unknown category cooking' });
+      expect((await categoryService.validateBlogCategory('space', 'kids-6-8')).error)
+        .toBe('Category space is only for kids-9-12, general');
+    });
+  });
+
+  describe('migrateBlogCategories', () => {
+    it('should map free-text categories, creating the unknown ones', async () => {
+      await CategoryModel.create({ slug: 'science', name: 'Science' });
+      const withCategory = (category: string) => BlogModel.create(BlogFactory.create({ category, isPublished: true }));
+      const [misspelt, , kept, cooking] = [
+        await withCategory('Sciences'),
+        await withCategory('Sciences'),
+        await withCategory('science'),
+        await withCategory('Cooking')
+      ];
+      const invalidate = jest.spyOn(blogListingService, 'invalidate');
+
+      const report = await categoryService.migrateBlogCategories();
+      expect(report.mapped).toEqual({ Sciences: 'science', science: 'science', Cooking: 'cooking' });
+      expect(report.created).toEqual(['cooking']);
+      expect(report.blogsUpdated).toBe(3);
+      expect((await CategoryModel.findOne({ slug: 'science' }).lean())?.aliases).toEqual(['sciences']);
+      expect(await CategoryModel.findOne({ slug: 'cooking' }).lean()).toMatchObject({ name: 'Cooking' });
+      expect((await BlogModel.findById(misspelt._id).lean())?.category).toBe('science');
+      expect((await BlogModel.findById(kept._id).lean())?.category).toBe('science');
+      expect((await BlogModel.findById(cooking._id).lean())?.category).toBe('cooking');
+      expect(invalidate).toHaveBeenCalled();
+    });
+  });
+});
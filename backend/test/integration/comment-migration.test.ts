@@ -0,0 +1,117 @@
+import mongoose from 'mongoose';
+import CommentModel from '../../models/comment.model';
+import BlogModel from '../../models/blogs.model';
+import { commentService } from '../../services/comment.service';
+import { BlogFactory } from '../factories/blog.factory';
+
+jest.mock('../../utils/redis', () => require('../mocks/memoryRedis.mock'));
+// the service broadcasts through the realtime service of the server, never started here
+jest.mock('../../server', () => require('../mocks/server.mock'));
+
+describe('Legacy Comment Migration', () => {
+  const userId = new mongoose.Types.ObjectId();
+  const otherId = new mongoose.Types.ObjectId();
+  const questionId = new mongoose.Types.ObjectId();
+  const reviewId = new mongoose.Types.ObjectId();
+
+  const embedded = () => ({
+    questions: [{
+      _id: questionId,
+      user: { _id: userId, name: 'Ada' },
+      question: 'How does it work?',
+      createdAt: new Date('2025-01-01'),
+      questionReplies: [
+        { user: otherId, answer: 'Like this', createdAt: new Date('2025-01-02') },
+        { userId: String(userId), answer: 'Thanks!' }
+      ]
+    }],
+    reviews: [{
+      _id: reviewId,
+      user: otherId,
+      comment: 'Great read',
+      commentReplies: [{ user: userId, comment: 'Glad you liked it' }]
+    }]
+  });
+
+  const createBlog = (extra: Record<string, any> = {}) =>
+    BlogModel.create({ ...BlogFactory.create({ isPublished: true }), ...embedded(), ...extra });
+
+  const legacy = (kind: string, id: string) =>
+    CommentModel.findOne({ 'legacySource.kind': kind, 'legacySource.id': id }).lean();
+
+  beforeAll(async () => {
+    await CommentModel.init();
+  });
+
+  it('should move questions, answers and review replies into the comment threads', async () => {
+    const blog = await createBlog();
+
+    const report = await commentService.migrateEmbeddedComments();
+    expect(report).toEqual({ blogs: 1, questions: 1, answers: 2, reviewReplies: 1, skipped: 0 });
+
+    const question = await legacy('question', String(questionId));
+    expect(question).toMatchObject({ content: 'How does it work?', parentId: null, depth: 0, createdAt: new Date('2025-01-01') });
+    expect(String(question?.author)).toBe(String(userId));
+    expect(String(question?.blogId)).toBe(String(blog._id));
+
+    const answer = await legacy('answer', `${questionId}:0`);
+    expect(answer).toMatchObject({ content: 'Like this', depth: 1, createdAt: new Date('2025-01-02') });
+    expect(String(answer?.author)).toBe(String(otherId));
+    expect(String(answer?.parentId)).toBe(String(question?._id));
+    expect(await legacy('answer', `${questionId}:1`)).toMatchObject({ content: 'Thanks!', createdAt: question?.createdAt });
+
+    const review = await legacy('review', String(reviewId));
+    expect(review).toMatchObject({ content: 'Great read', depth: 0 });
+    const reply = await legacy('review_reply', `${reviewId}:0`);
+    expect(reply).toMatchObject({ depth: 1 });
+    expect(String(reply?.parentId)).toBe(String(review?._id));
+  });
+
+  it('should drop the embedded entries once migrated', async () => {
+    const blog = await createBlog();
+    await commentService.migrateEmbeddedComments();
+
+    const stored = await BlogModel.findById(blog._id).lean();
+    expect(stored?.questions).toEqual([]);
+    expect(stored?.reviews[0]).toMatchObject({ comment: 'Great read', commentReplies: [] });
+  });
+
+  it('should migrate nothing twice when run again', async () => {
+    const blog = await createBlog();
+    await commentService.migrateEmbeddedComments();
+    // a run stopped before the embedded entries were dropped
+    await BlogModel.updateOne({ _id: blog._id }, { $set: embedded() });
+
+    expect(await commentService.migrateEmbeddedComments())
+      .toEqual({ blogs: 1, questions: 0, answers: 0, reviewReplies: 0, skipped: 0 });
+    expect(await CommentModel.countDocuments({ blogId: blog._id })).toBe(5);
+  });
+
+  it('should leave the entries without an author in the blog', async () => {
+    const blog = await createBlog({
+      questions: [{
+        _id: questionId,
+        user: userId,
+        question: 'Anyone?',
+        questionReplies: [{ answer: 'No author' }]
+      }],
+      reviews: [{ _id: reviewId, comment: 'No author either', commentReplies: [{ user: userId, comment: 'Reply' }] }]
+    });
+
+    const report = await commentService.migrateEmbeddedComments();
+    expect(report).toMatchObject({ questions: 1, answers: 0, reviewReplies: 0, skipped: 2 });
+    // the question stays until its answer can be migrated too
+    const stored = await BlogModel.findById(blog._id).lean();
+    expect(stored?.questions).toHaveLength(1);
+    expect(stored?.reviews[0].commentReplies).toHaveLength(1);
+  });
+
+  it('should recount the comments of each migrated blog', async () => {
+    const blog = await createBlog();
+    await commentService.migrateEmbeddedComments();
+
+    expect((await BlogModel.findById(blog._id).lean())?.activity)
+      .toMatchObject({ total_comments: 5, total_parent_comments: 2 });
+    expect((await legacy('question', String(questionId)))?.replyCount).toBe(2);
+  });
+});
@@ -0,0 +1,97 @@
+import mongoose from 'mongoose';
+import CommentModel from '../../models/comment.model';
+import BlogModel from '../../models/blogs.model';
+import { countComment, moderationPriority, uncountComment } from '../../services/commentModeration.service';
+import { preModeratedAgeGroups, requiresPreModeration } from '../../utils/commentModeration';
+import { BlogFactory } from '../factories/blog.factory';
+
+describe('Comment Moderation', () => {
+  describe('moderationPriority', () => {
+    it('should rank the most serious reason first', () => {
+      const spam = moderationPriority({ flagReasons: ['spam'], onKidsContent: false, moderationStatus: 'pending' });
+      const harassment = moderationPriority({ flagReasons: ['harassment'], onKidsContent: false, moderationStatus: 'pending' });
+      expect(harassment).toBeGreaterThan(spam);
+    });
+
+    it('should raise the priority with each flag up to a cap', () => {
+      const once = moderationPriority({ flagReasons: ['spam'], onKidsContent: false, moderationStatus: 'pending' });
+      const twice = moderationPriority({ flagReasons: ['spam', 'spam'], onKidsContent: false, moderationStatus: 'pending' });
+      const many = moderationPriority({ flagReasons: Array(30).fill('spam'), onKidsContent: false, moderationStatus: 'pending' });
+      const more = moderationPriority({ flagReasons: Array(40).fill('spam'), onKidsContent: false, moderationStatus: 'pending' });
+      expect(twice).toBeGreaterThan(once);
+      expect(more).toBe(many);
+    });
+
+    it('should put kids content and escalated comments ahead', () => {
+      const base = moderationPriority({ flagReasons: ['other'], onKidsContent: false, moderationStatus: 'pending' });
+      const kids = moderationPriority({ flagReasons: ['other'], onKidsContent: true, moderationStatus: 'pending' });
+      const escalated = moderationPriority({ flagReasons: ['other'], onKidsContent: false, moderationStatus: 'escalated' });
+      expect(kids).toBeGreaterThan(base);
+      expect(escalated).toBeGreaterThan(kids);
+    });
+  });
+
+  describe('pre-moderation', () => {
+    const yearsAgo = (years: number) => new Date(Date.now() - years * 365.25 * 24 * 60 * 60 * 1000);
+    const adult = { dateOfBirth: yearsAgo(30) };
+    const child = { dateOfBirth: yearsAgo(10) };
+    const teen = { dateOfBirth: yearsAgo(14) };
+
+    afterEach(() => {
+      delete process.env.COMMENT_PREMODERATION_AGE_GROUPS;
+    });
+
+    it('should hold comments on kids content by default', () => {
+      expect(requiresPreModeration({ isKidsContent: true }, adult)).toBe(true);
+      expect(requiresPreModeration({ isKidsContent: false }, adult)).toBe(false);
+    });
+
+    it('should follow the blog setting when there is one', () => {
+      expect(requiresPreModeration({ isKidsContent: true, commentPreModeration: false }, adult)).toBe(false);
+      expect(requiresPreModeration({ isKidsContent: false, commentPreModeration: true }, adult)).toBe(true);
+      expect(requiresPreModeration({ isKidsContent: true, commentPreModeration: null }, adult)).toBe(true);
+    });
+
+    it('should always hold comments of commenters under 13', () => {
+      expect(requiresPreModeration({ isKidsContent: false, commentPreModeration: false }, child)).toBe(true);
+      expect(requiresPreModeration({ isKidsContent: false }, teen)).toBe(false);
+    });
+
+    it('should read the pre-moderated age groups from the environment', () => {
+      process.env.COMMENT_PREMODERATION_AGE_GROUPS = 'kids-13-16, unknown';
+      expect(preModeratedAgeGroups()).toEqual(['kids-13-16']);
+      expect(requiresPreModeration({ isKidsContent: false }, teen)).toBe(true);
+      expect(requiresPreModeration({ isKidsContent: false }, child)).toBe(false);
+    });
+  });
+
+  describe('counters', () => {
+    it('should undo exactly what counting a comment did', async () => {
+      const blog = await BlogModel.create({
+        ...BlogFactory.create({ isPublished: true }),
+        activity: { total_comments: 4, total_parent_comments: 3 }
+      });
+      const parent = await CommentModel.create({ content: 'Parent', author: new mongoose.Types.ObjectId(), blogId: blog._id, replyCount: 1 });
+      const topLevel = { blogId: blog._id as mongoose.Types.ObjectId, parentId: undefined };
+      const reply = { blogId: blog._id as mongoose.Types.ObjectId, parentId: String(parent._id) };
+      const counters = async () => ({
+        activity: (await BlogModel.findById(blog._id).lean())?.activity,
+        replies: (await CommentModel.findById(parent._id).lean())?.replyCount
+      });
+
+      await countComment(topLevel);
+      await countComment(reply);
+      expect(await counters()).toMatchObject({
+        activity: { total_comments: 6, total_parent_comments: 4 },
+        replies: 2
+      });
+
+      await uncountComment(reply);
+      await uncountComment(topLevel);
+      expect(await counters()).toMatchObject({
+        activity: { total_comments: 4, total_parent_comments: 3 },
+        replies: 1
+      });
+    });
+  });
+});
@@ -0,0 +1,65 @@
+import mongoose from 'mongoose';
+import { decodeReplyCursor, encodeReplyCursor, nestReplies, viewerReaction } from '../../utils/commentThreads';
+
+const id = () => new mongoose.Types.ObjectId();
+const comment = (fields: Record<string, any> = {}) => ({
+  _id: id(),
+  createdAt: new Date(),
+  replyCount: 0,
+  reactions: { likes: [], dislikes: [], hearts: [], laughs: [] },
+  ...fields
+});
+
+describe('Comment Threads', () => {
+  describe('reply cursors', () => {
+    it('should decode what it encodes', () => {
+      const reply = comment({ createdAt: new Date('2024-05-01T10:00:00Z') });
+      const cursor = decodeReplyCursor(encodeReplyCursor(reply));
+      expect(cursor).toEqual({ createdAt: reply.createdAt, id: String(reply._id) });
+    });
+
+    it('should refuse cursors it did not make', () => {
+      expect(decodeReplyCursor('not-a-cursor')).toBeNull();
+      expect(decodeReplyCursor(Buffer.from(JSON.stringify({ c: 'yesterday', id: '1' })).toString('base64url'))).toBeNull();
+    });
+  });
+
+  describe('viewerReaction', () => {
+    it('should return the reaction of the viewer only', () => {
+      const viewer = id();
+      const reactions = { likes: [id()], dislikes: [], hearts: [viewer], laughs: [] };
+      expect(viewerReaction(reactions, String(viewer))).toBe('heart');
+      expect(viewerReaction(reactions, String(id()))).toBeNull();
+      expect(viewerReaction(reactions)).toBeNull();
+    });
+  });
+
+  describe('nestReplies', () => {
+    it('should nest the loaded replies and page them per thread', () => {
+      const root = comment({ replyCount: 3 });
+      const replies = [comment(), comment(), comment()];
+      const nested = comment();
+      const repliesByParent = new Map<string, any[]>([
+        [String(root._id), replies],
+        [String(replies[0]._id), [nested]],
+        [String(replies[1]._id), []]
+      ]);
+
+      const [thread] = nestReplies([root], repliesByParent, 2);
+      expect(thread.replies.map(reply => reply._id)).toEqual([replies[0]._id, replies[1]._id]);
+      expect(thread.hasMoreReplies).toBe(true);
+      expect(decodeReplyCursor(thread.nextRepliesCursor as string)?.id).toBe(String(replies[1]._id));
+      expect(thread.replies[0].replies[0]._id).toBe(nested._id);
+      expect(thread.replies[0].hasMoreReplies).toBe(false);
+      expect(thread.replies[1].replies).toEqual([]);
+    });
+
+    it('should tell about replies below the depth loaded', () => {
+      const [withReplies, without] = nestReplies([comment({ replyCount: 4 }), comment()], new Map(), 10);
+      expect(withReplies.replies).toEqual([]);
+      expect(withReplies.hasMoreReplies).toBe(true);
+      expect(withReplies.nextRepliesCursor).toBeNull();
+      expect(without.hasMoreReplies).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,137 @@
+import { findLinks, maskUnsafeTerms, redactPersonalData, runRules, tokenize } from '../../utils/contentSafety';
+import { buildVerdict, contentSafetyService, stricterAgeGroup } from '../../services/contentSafety.service';
+
+const categoriesOf = (text: string) => runRules(text).map(signal => signal.category);
+
+describe('Content Safety', () => {
+  describe('rules', () => {
+    it('should find nothing in ordinary text', () => {
+      expect(runRules('We planted tomatoes in the school garden today, it was great fun!')).toEqual([]);
+      expect(runRules('Nous avons lu un conte sur les dinosaures en classe.')).toEqual([]);
+    });
+
+    it('should catch profanity in French, Arabic and English', () => {
+      expect(categoriesOf('this is shit')).toContain('profanity');
+      expect(categoriesOf('quel connard')).toContain('profanity');
+      expect(categoriesOf('انت قحبة')).toContain('profanity');
+    });
+
+    it('should see through leetspeak, accents, repeated and spelled-out letters', () => {
+      expect(categoriesOf('sh1t')).toContain('profanity');
+      expect(categoriesOf('enculé')).toContain('profanity');
+      expect(categoriesOf('shiiiit')).toContain('profanity');
+      expect(categoriesOf('f u c k')).toContain('profanity');
+      expect(tokenize('f.u.c.k')).toContain('fuck');
+    });
+
+    it('should not read a trailing exclamation mark as leetspeak', () => {
+      expect(tokenize('Wow!')).toEqual(['wow']);
+    });
+
+    it('should match phrases word by word', () => {
+      expect(categoriesOf('i will kill you')).toContain('violence');
+      expect(categoriesOf('je vais te tuer')).toContain('violence');
+      expect(categoriesOf('kill myself')).toContain('self_harm');
+    });
+
+    it('should detect personal data without keeping it', () => {
+      const [signal] = runRules('write to me at sami.kid@example.com or 06 12 34 56 78');
+      expect(signal.category).toBe('pii');
+      expect(signal.matches).toEqual(['email', 'phone']);
+      expect(categoriesOf("j'habite au 12 rue des Lilas")).toContain('pii');
+      expect(categoriesOf('I was born in 2014 and I have 3 cats')).toEqual([]);
+    });
+
+    it('should only take numbers written like phone numbers for one', () => {
+      ['06 12 34 56 78', '0612345678', '+212 612 345 678', '+33 6 12 34 56 78', '00212612345678', '555-123-4567']
+        .forEach(phone => expect(categoriesOf(`call me ${phone}`)).toContain('pii'));
+      ["Let's count: 1 2 3 4 5 6 7 8 9 10!", 'Wars of 1914 1918 1939 1945', 'Count 0 1 2 3 4 5 6 7 8 9', 'ISBN 978 2 07 061275 8']
+        .forEach(text => expect(categoriesOf(text)).toEqual([]));
+    });
+
+    it('should allow counting lessons and dates for the youngest readers', () => {
+      const counting = buildVerdict(runRules("Let's count: 1 2 3 4 5 6 7 8 9 10!"));
+      const history = buildVerdict(runRules('Wars of 1914 1918 1939 1945'));
+      expect(counting.ageGroups['kids-6-8'].action).toBe('allow');
+      expect(history.ageGroups['kids-9-12'].action).toBe('allow');
+    });
+
+    it('should redact personal data', () => {
+      expect(redactPersonalData('mail sami@example.com, call +212 612 345 678'))
+        .toBe('mail [email], call [phone]');
+      expect(redactPersonalData('born in 1914 1918 1939 1945')).toBe('born in 1914 1918 1939 1945');
+    });
+
+    it('should weigh links by where they go and trust embeds', () => {
+      expect(findLinks('watch https://www.youtube.com/watch?v=abc')).toEqual([]);
+      const [messaging] = findLinks('join discord.gg/abcd');
+      const [shortener] = findLinks('look https://bit.ly/xyz');
+      const [other] = findLinks('see https://random-site.xyz/page');
+      expect(messaging.weight).toBeGreaterThan(shortener.weight);
+      expect(shortener.weight).toBeGreaterThan(other.weight);
+    });
+
+    it('should flag spam', () => {
+      expect(categoriesOf('buy buy buy buy buy buy now')).toContain('spam');
+      expect(categoriesOf('CLICK HERE TO WIN A FREE PHONE TODAY')).toContain('spam');
+    });
+
+    it('should mask unsafe words and keep the rest', () => {
+      expect(maskUnsafeTerms('what the sh1t, nice story')).toBe('what the ***, nice story');
+      expect(maskUnsafeTerms('"merde!" said the pirate')).toBe('"***!" said the pirate');
+      expect(maskUnsafeTerms('a classic story')).toBe('a classic story');
+    });
+  });
+
+  describe('verdict', () => {
+    it('should allow safe content for every age group', () => {
+      const verdict = buildVerdict([]);
+      expect(verdict.category).toBe('safe');
+      expect(verdict.recommendedAgeGroup).toBe('kids-6-8');
+      expect(Object.keys(verdict.ageGroups).every(group => verdict.ageGroups[group as 'general'].action === 'allow')).toBe(true);
+    });
+
+    it('should be stricter for younger readers', () => {
+      const verdict = buildVerdict([{ category: 'link', score: 0.9, source: 'rules', matches: ['discord.gg'] }]);
+      expect(verdict.ageGroups['kids-6-8'].action).toBe('block');
+      expect(verdict.ageGroups['kids-13-16'].action).toBe('review');
+      expect(verdict.recommendedAgeGroup).toBe('general');
+    });
+
+    it('should block hate for everyone', () => {
+      const verdict = buildVerdict([{ category: 'hate', score: 0.9, source: 'rules', matches: ['sale arabe'] }]);
+      expect(verdict.recommendedAgeGroup).toBeNull();
+      expect(verdict.flagged).toEqual(['sale arabe']);
+    });
+
+    it('should pick the younger of two age groups', () => {
+      expect(stricterAgeGroup('general', 'kids-9-12')).toBe('kids-9-12');
+      expect(stricterAgeGroup('kids-6-8', 'kids-13-16')).toBe('kids-6-8');
+    });
+  });
+
+  describe('model adapter', () => {
+    afterEach(() => {
+      contentSafetyService.useModel(null);
+    });
+
+    it('should add the model signals to the rules, with personal data redacted', async () => {
+      const classify = jest.fn().mockResolvedValue([{ category: 'violence', score: 0.9, source: 'model', matches: ['threat'] }]);
+      contentSafetyService.useModel({ name: 'test-model', classify });
+
+      const verdict = await contentSafetyService.classify('meet me after school, sami@example.com');
+      expect(classify).toHaveBeenCalledWith('meet me after school, [email]');
+      expect(verdict.category).toBe('violence');
+      expect(verdict.signals.map(signal => signal.source)).toEqual(['rules', 'test-model']);
+    });
+
+    it('should fall back to the rules when the model fails', async () => {
+      const error = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      contentSafetyService.useModel({ name: 'test-model', classify: jest.fn().mockRejectedValue(new Error('timeout')) });
+
+      const verdict = await contentSafetyService.classify('what the fuck');
+      expect(verdict.category).toBe('profanity');
+      error.mockRestore();
+    });
+  });
+});
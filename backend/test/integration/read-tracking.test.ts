@@ -0,0 +1,121 @@
+import mongoose from 'mongoose';
+import { createServer } from 'http';
+import BlogModel from '../../models/blogs.model';
+import userModel from '../../models/user.model';
+import RealtimeService from '../../services/realtime.service';
+import { MIN_READ_TIME, MIN_SCROLL_DEPTH, ViewEnd, readTrackingService } from '../../services/readTracking.service';
+import { redis } from '../../utils/redis';
+import { BlogFactory } from '../factories/blog.factory';
+import { UserFactory } from '../factories/user.factory';
+
+jest.mock('../../utils/redis', () => require('../mocks/memoryRedis.mock'));
+
+describe('Read Tracking', () => {
+  let blogId: string;
+  let userId: string;
+
+  const view = (extra: Partial<ViewEnd>): ViewEnd => ({ blogId, sessionId: 'a', readTime: 120, scrollDepth: 100, ...extra });
+  const activity = async () => (await BlogModel.findById(blogId).lean())?.activity;
+  const readsOfUser = async () => (await userModel.findById(userId).lean())?.account_info.total_reads;
+
+  beforeEach(async () => {
+    const blog = await BlogModel.create({
+      ...BlogFactory.create({ authorId: String(new mongoose.Types.ObjectId()), isPublished: true }),
+      activity: { total_reads: 0, total_views: 0, average_read_time: 0, bounce_rate: 0 }
+    });
+    const user = await userModel.create({ ...UserFactory.create(), account_info: { total_posts: 0, total_reads: 0 } });
+    blogId = String(blog._id);
+    userId = String(user._id);
+  });
+
+  afterEach(async () => {
+    await redis.flushall();
+  });
+
+  it('should count a read past the read time or the scroll depth', async () => {
+    expect(await readTrackingService.recordViewEnd(view({ sessionId: 'a', userId, readTime: MIN_READ_TIME, scrollDepth: 0 })))
+      .toEqual({ counted: true, read: true });
+    expect(await readTrackingService.recordViewEnd(view({ sessionId: 'b', readerFingerprint: 'reader', readTime: 0, scrollDepth: MIN_SCROLL_DEPTH })))
+      .toEqual({ counted: true, read: true });
+    expect((await activity())?.total_reads).toBe(2);
+    expect(await readsOfUser()).toBe(1);
+  });
+
+  it('should keep short views out of the reads but in the view statistics', async () => {
+    expect(await readTrackingService.recordViewEnd(view({ userId, readTime: 10, scrollDepth: 20 })))
+      .toEqual({ counted: true, read: false });
+    await readTrackingService.recordViewEnd(view({ sessionId: 'b', userId, readTime: 30, scrollDepth: 100 }));
+
+    expect(await activity()).toMatchObject({ total_reads: 1, total_views: 2, average_read_time: 20, bounce_rate: 0.5 });
+  });
+
+  it('should count a view reported twice once', async () => {
+    await readTrackingService.recordViewEnd(view({ userId }));
+    expect(await readTrackingService.recordViewEnd(view({ userId }))).toEqual({ counted: false, read: false });
+    expect(await activity()).toMatchObject({ total_reads: 1, total_views: 1 });
+  });
+
+  it('should count one read per reader in the window across sessions', async () => {
+    await readTrackingService.recordViewEnd(view({ sessionId: 'a', userId }));
+    expect(await readTrackingService.recordViewEnd(view({ sessionId: 'b', userId }))).toEqual({ counted: true, read: false });
+    expect(await activity()).toMatchObject({ total_reads: 1, total_views: 2 });
+    expect(await readsOfUser()).toBe(1);
+  });
+
+  it('should tell anonymous readers apart by their fingerprint, not their session', async () => {
+    await readTrackingService.recordViewEnd(view({ sessionId: 'a', readerFingerprint: 'reader-1' }));
+    await readTrackingService.recordViewEnd(view({ sessionId: 'b', readerFingerprint: 'reader-1' }));
+    await readTrackingService.recordViewEnd(view({ sessionId: 'c', readerFingerprint: 'reader-2' }));
+    expect((await activity())?.total_reads).toBe(2);
+  });
+
+  it('should not count a read without a user or a fingerprint', async () => {
+    expect(await readTrackingService.recordViewEnd(view({}))).toEqual({ counted: true, read: false });
+    expect((await activity())?.total_reads).toBe(0);
+  });
+
+  it('should cap the read time of views left open', async () => {
+    await readTrackingService.recordViewEnd(view({ userId, readTime: 10 * 60 * 60, scrollDepth: 0 }));
+    expect((await activity())?.average_read_time).toBe(3600);
+  });
+
+  describe('isReadable', () => {
+    it('should only accept published blogs', async () => {
+      expect(await readTrackingService.isReadable(blogId)).toBe(true);
+      expect(await readTrackingService.isReadable('not-an-id')).toBe(false);
+
+      const draft = await BlogModel.create(BlogFactory.create({ authorId: userId, isPublished: false }));
+      expect(await readTrackingService.isReadable(String(draft._id))).toBe(false);
+    });
+
+    it('should refuse blogs in the trash', async () => {
+      await BlogModel.updateOne({ _id: blogId }, { deletedAt: new Date() });
+      expect(await readTrackingService.isReadable(blogId)).toBe(false);
+    });
+  });
+
+  describe('socket reports', () => {
+    const realtime = new RealtimeService(createServer());
+    const handlers = new Map<string, (data: any) => Promise<void>>();
+
+    beforeAll(() => {
+      const socket = { userId: undefined as string | undefined, handshake: { headers: {} }, on: (event: string, handler: any) => handlers.set(event, handler) };
+      (realtime as any).handleAnalyticsEvents(socket);
+    });
+
+    afterAll(() => {
+      (realtime as any).io.close();
+    });
+
+    it('should count the reads reported over the socket', async () => {
+      await handlers.get('article-view-end')!({ blogId, sessionId: 'a', readTime: 120, scrollDepth: 100 });
+      expect((await activity())?.total_views).toBe(1);
+    });
+
+    it('should ignore the reports of blogs no longer published', async () => {
+      await BlogModel.updateOne({ _id: blogId }, { isPublished: false });
+      await handlers.get('article-view-end')!({ blogId, sessionId: 'a', readTime: 120, scrollDepth: 100 });
+      expect((await activity())?.total_views).toBe(0);
+    });
+  });
+});
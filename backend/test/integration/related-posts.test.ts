@@ -0,0 +1,88 @@
+import mongoose from 'mongoose';
+import BlogModel from '../../models/blogs.model';
+import { UserActivityModel } from '../../models/analytics.model';
+import { SourceBlog, relatedCacheKey, relatedPostsService } from '../../services/relatedPosts.service';
+import { redis } from '../../utils/redis';
+import { BlogFactory } from '../factories/blog.factory';
+
+jest.mock('../../utils/redis', () => require('../mocks/memoryRedis.mock'));
+
+describe('Related Posts', () => {
+  const createBlog = (extra: Record<string, any>) =>
+    BlogModel.create({
+      ...BlogFactory.create({ isPublished: true }),
+      tags: ['unrelated'],
+      category: 'arts',
+      ageGroup: 'general',
+      isKidsContent: false,
+      ...extra
+    });
+
+  const createSource = (extra: Record<string, any> = {}) =>
+    createBlog({ tags: ['space', 'planets'], category: 'science', ...extra });
+
+  const viewed = (userId: mongoose.Types.ObjectId, blogId: unknown) =>
+    UserActivityModel.create({ userId, sessionId: 'session', action: 'view', resourceType: 'blog', resourceId: String(blogId) });
+
+  afterEach(async () => {
+    await redis.flushall();
+  });
+
+  it('should rank shared tags above a shared category', async () => {
+    const source = await createSource();
+    const sameCategory = await createBlog({ category: 'science' });
+    const oneTag = await createBlog({ tags: ['space'] });
+    const twoTags = await createBlog({ tags: ['space', 'planets'] });
+    await createBlog({});
+
+    const related = await relatedPostsService.getRelated(source, 5, null);
+    expect(related.map(post => [post._id, post.score])).toEqual([
+      [String(twoTags._id), 7],
+      [String(oneTag._id), 4],
+      [String(sameCategory._id), 3]
+    ]);
+    expect(await redis.get(relatedCacheKey(String(source._id)))).not.toBeNull();
+  });
+
+  it('should stay in the audience of the blog and leave out its translations and hidden blogs', async () => {
+    const source = await createSource({ isKidsContent: true, ageGroup: 'kids-9-12' });
+    const kids = await createBlog({ tags: ['space'], isKidsContent: true, ageGroup: 'kids-9-12' });
+    await createBlog({ tags: ['space'] });
+    await createBlog({ tags: ['space'], isKidsContent: true, translationOf: source._id });
+    await createBlog({ tags: ['space'], isKidsContent: true, isPublished: false, draft: true });
+    await createBlog({ tags: ['space'], isKidsContent: true, deletedAt: new Date() });
+
+    const related = await relatedPostsService.getRelated(source, 5, null);
+    expect(related.map(post => post._id)).toEqual([String(kids._id)]);
+  });
+
+  it('should find nothing without tags, category or co-readers', async () => {
+    const source = await createSource({ tags: [], category: '' });
+    await createBlog({});
+    expect(await relatedPostsService.getRelated(source, 5, null)).toEqual([]);
+  });
+
+  it('should add the blogs read by the same readers', async () => {
+    const source = await createSource();
+    const coRead = await createBlog({});
+    const reader = new mongoose.Types.ObjectId();
+    await viewed(reader, source._id);
+    await viewed(reader, coRead._id);
+
+    const [related] = await relatedPostsService.getRelated(source, 5, null);
+    expect(related).toMatchObject({ _id: String(coRead._id), score: 5 });
+  });
+
+  it('should drop cached posts no longer published and ages a kids account may not read', async () => {
+    const source: SourceBlog = await createSource({ isKidsContent: true, ageGroup: 'kids-9-12' });
+    const kept = await createBlog({ tags: ['space'], isKidsContent: true, ageGroup: 'kids-9-12' });
+    const unpublished = await createBlog({ tags: ['space'], isKidsContent: true, ageGroup: 'kids-9-12' });
+    await createBlog({ tags: ['space'], isKidsContent: true, ageGroup: 'kids-13-16' });
+    await relatedPostsService.getRelated(source, 5, null);
+
+    await BlogModel.updateOne({ _id: unpublished._id }, { isPublished: false });
+    const related = await relatedPostsService.getRelated(source, 5, ['kids-6-8', 'kids-9-12']);
+    expect(related.map(post => post._id)).toEqual([String(kept._id)]);
+    expect(redis.setex).toHaveBeenCalledTimes(1);
+  });
+});
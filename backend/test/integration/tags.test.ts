@@ -0,0 +1,110 @@
+import TagModel from '../../models/tag.model';
+import BlogModel from '../../models/blogs.model';
+import { tagService } from '../../services/tag.service';
+import { redis } from '../../utils/redis';
+import { BlogFactory } from '../factories/blog.factory';
+
+jest.mock('../../utils/redis', () => require('../mocks/memoryRedis.mock'));
+jest.mock('../../server', () => require('../mocks/server.mock'));
+
+describe('Tags', () => {
+  const createBlog = (tags: string[]) => BlogModel.create({ ...BlogFactory.create({ isPublished: true }), tags });
+  const usageOf = async (slug: string) => (await TagModel.findOne({ slug }).lean())?.usageCount;
+
+  beforeAll(async () => {
+    await TagModel.init();
+  });
+
+  afterEach(async () => {
+    await redis.flushall();
+  });
+
+  describe('normalizeTags', () => {
+    beforeEach(async () => {
+      await TagModel.create({ slug: 'javascript', name: 'JavaScript', aliases: ['js'] });
+      await TagModel.create({ slug: 'horror', name: 'Horror', blockedForKids: true });
+    });
+
+    it('should map spellings and aliases to the registered tag once', async () => {
+      expect(await tagService.normalizeTags(['JavaScript', 'js', ' ', 'New Tag'], false))
+        .toEqual({ tags: ['javascript', 'new-tag'], blocked: [] });
+    });
+
+    it('should refuse tags blocked on kids content', async () => {
+      expect(await tagService.normalizeTags(['Horror', 'js'], true)).toEqual({ tags: ['javascript'], blocked: ['horror'] });
+      expect(await tagService.normalizeTags(['Horror'], false)).toEqual({ tags: ['horror'], blocked: [] });
+    });
+  });
+
+  describe('syncUsage', () => {
+    it('should count added tags, registering them, and uncount removed ones without going below zero', async () => {
+      await TagModel.create({ slug: 'a', name: 'a', usageCount: 1 });
+      await TagModel.create({ slug: 'b', name: 'b', usageCount: 0 });
+
+      await tagService.syncUsage(['a', 'b'], ['c']);
+      expect(await usageOf('a')).toBe(0);
+      expect(await usageOf('b')).toBe(0);
+      expect(await TagModel.findOne({ slug: 'c' }).lean()).toMatchObject({ name: 'c', usageCount: 1 });
+    });
+
+    it('should not write when the tags did not change', async () => {
+      await TagModel.create({ slug: 'a', name: 'a', usageCount: 1 });
+      await tagService.syncUsage(['a', 'b'], ['b', 'a']);
+      expect(await usageOf('a')).toBe(1);
+      expect(await TagModel.exists({ slug: 'b' })).toBeNull();
+    });
+  });
+
+  describe('recountUsage', () => {
+    it('should count the blogs of every tag and reset the unused ones', async () => {
+      await TagModel.create({ slug: 'stale', name: 'stale', usageCount: 4 });
+      await createBlog(['food', 'travel']);
+      await createBlog(['food']);
+
+      expect(await tagService.recountUsage()).toBe(2);
+      expect(await usageOf('food')).toBe(2);
+      expect(await usageOf('travel')).toBe(1);
+      expect(await usageOf('stale')).toBe(0);
+    });
+  });
+
+  describe('merge', () => {
+    it('should rewrite the tagged blogs and keep the merged tags as aliases', async () => {
+      await TagModel.create({ slug: 'javascript', name: 'JavaScript', aliases: ['js'] });
+      await TagModel.create({ slug: 'ecmascript', name: 'ECMAScript', aliases: ['es'] });
+      const both = await createBlog(['ecmascript', 'web', 'javascript']);
+      const merged = await createBlog(['ecmascript']);
+      await createBlog(['javascript']);
+      await redis.set(String(both._id), JSON.stringify(both));
+
+      const result = await tagService.merge(['ecmascript', 'javascript'], 'javascript');
+      expect(result?.blogsUpdated).toBe(2);
+      expect((await BlogModel.findById(both._id).lean())?.tags).toEqual(['javascript', 'web']);
+      expect((await BlogModel.findById(merged._id).lean())?.tags).toEqual(['javascript']);
+      expect(await TagModel.findOne({ slug: 'javascript' }).lean())
+        .toMatchObject({ aliases: ['js', 'ecmascript', 'es'], usageCount: 3 });
+      expect(await TagModel.exists({ slug: 'ecmascript' })).toBeNull();
+      expect(await redis.get(String(both._id))).toBeNull();
+    });
+
+    it('should do nothing when the target tag does not exist', async () => {
+      await TagModel.create({ slug: 'a', name: 'a' });
+      const blog = await createBlog(['a']);
+      expect(await tagService.merge(['a'], 'b')).toBeNull();
+      expect((await BlogModel.findById(blog._id).lean())?.tags).toEqual(['a']);
+    });
+  });
+
+  describe('rename', () => {
+    it('should keep the former slug as an alias and drop the caches of its blogs', async () => {
+      await TagModel.create({ slug: 'js', name: 'JS', aliases: ['javascript'] });
+      const blog = await createBlog(['js', 'web']);
+      await redis.set(String(blog._id), JSON.stringify(blog));
+
+      await tagService.rename('js', 'javascript');
+      expect(await TagModel.findOne({ slug: 'javascript' }).lean()).toMatchObject({ aliases: ['js'] });
+      expect((await BlogModel.findById(blog._id).lean())?.tags).toEqual(['javascript', 'web']);
+      expect(await redis.get(String(blog._id))).toBeNull();
+    });
+  });
+});
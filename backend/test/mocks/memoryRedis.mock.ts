@@ -0,0 +1,67 @@
+// In-memory stand-in for the Upstash client, keeps what the services write so
+// caches, claims and counters behave as they would against Redis
+// Use with: jest.mock('../../utils/redis', () => require('../mocks/memoryRedis.mock'))
+
+interface Entry {
+  value: any;
+  expiresAt?: number;
+}
+
+const store = new Map<string, Entry>();
+
+const read = (key: string): Entry | undefined => {
+  const entry = store.get(key);
+  if (entry?.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+    store.delete(key);
+    return undefined;
+  }
+  return entry;
+};
+
+const write = (key: string, value: any, seconds?: number) => {
+  store.set(key, { value, expiresAt: seconds ? Date.now() + seconds * 1000 : undefined });
+};
+
+export const redis = {
+  get: jest.fn(async (key: string) => read(key)?.value ?? null),
+  set: jest.fn(async (key: string, value: any, options?: { nx?: boolean; ex?: number }) => {
+    if (options?.nx && read(key)) return null;
+    write(key, value, options?.ex);
+    return 'OK';
+  }),
+  setex: jest.fn(async (key: string, seconds: number, value: any) => {
+    write(key, value, seconds);
+    return 'OK';
+  }),
+  del: jest.fn(async (...keys: string[]) => keys.filter(key => store.delete(key)).length),
+  exists: jest.fn(async (...keys: string[]) => keys.filter(key => read(key)).length),
+  incr: jest.fn(async (key: string) => {
+    const entry = read(key);
+    const value = Number(entry?.value || 0) + 1;
+    store.set(key, { value, expiresAt: entry?.expiresAt });
+    return value;
+  }),
+  expire: jest.fn(async (key: string, seconds: number) => {
+    const entry = read(key);
+    if (!entry) return 0;
+    entry.expiresAt = Date.now() + seconds * 1000;
+    return 1;
+  }),
+  lpush: jest.fn(async (key: string, ...values: any[]) => {
+    const list = [...values.reverse(), ...(read(key)?.value || [])];
+    store.set(key, { value: list, expiresAt: read(key)?.expiresAt });
+    return list.length;
+  }),
+  ltrim: jest.fn(async (key: string, start: number, stop: number) => {
+    const entry = read(key);
+    if (entry) entry.value = entry.value.slice(start, stop + 1);
+    return 'OK';
+  }),
+  lrange: jest.fn(async (key: string, start: number, stop: number) =>
+    (read(key)?.value || []).slice(start, stop < 0 ? undefined : stop + 1)),
+  ping: jest.fn(async () => 'PONG'),
+  flushall: jest.fn(async () => {
+    store.clear();
+    return 'OK';
+  })
+};
@@ -0,0 +1,7 @@
+// The realtime service of the server, the server itself is never started in tests
+// Use with: jest.mock('../../server', () => require('../mocks/server.mock'))
+export const realtimeService = {
+  emitNotification: jest.fn(),
+  emitNewComment: jest.fn(),
+  emitCommentReaction: jest.fn()
+};
@@ -33,6 +33,10 @@ export interface PaginationMeta {
   hasPrev: boolean;
 }
 
+export interface CursorPaginationMeta extends PaginationMeta {
+  nextCursor: string | null;
+}
+
 export interface AuthenticatedRequest extends Request {
   user?: IUser;
 }
@@ -279,6 +283,8 @@ export enum NotificationType {
   FOLLOW = 'follow',
   MENTION = 'mention',
   BLOG_PUBLISHED = 'blog_published',
+  BLOG_REVIEW = 'blog_review',
+  BLOG_INVITATION = 'blog_invitation',
   SYSTEM = 'system'
 }
 
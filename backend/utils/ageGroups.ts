@@ -0,0 +1,52 @@
+/**
+ * Age group helpers shared by the blog endpoints that serve kids accounts.
+ * Brackets follow SecurityManager.kidsContentFilter.
+ */
+
+export type AgeGroup = 'kids-6-8' | 'kids-9-12' | 'kids-13-16' | 'general';
+
+export const AGE_GROUPS: AgeGroup[] = ['kids-6-8', 'kids-9-12', 'kids-13-16', 'general'];
+
+const KIDS_AGE_GROUPS: AgeGroup[] = ['kids-6-8', 'kids-9-12', 'kids-13-16'];
+
+export const calculateAge = (dateOfBirth: string | Date): number => {
+    const today = new Date();
+    const birthDate = new Date(dateOfBirth);
+    let age = today.getFullYear() - birthDate.getFullYear();
+    const monthDiff = today.getMonth() - birthDate.getMonth();
+
+    if (monthDiff < 0 || (monthDiff === 0 && today.getDate() < birthDate.getDate())) {
+        age--;
+    }
+
+    return age;
+};
+
+// age group of an account, general for adults and accounts without a birth date
+export const getUserAgeGroup = (user?: { dateOfBirth?: string | Date } | null): AgeGroup => {
+    if (!user?.dateOfBirth) return 'general';
+    const age = calculateAge(user.dateOfBirth);
+    if (isNaN(age) || age >= 17) return 'general';
+    if (age < 9) return 'kids-6-8';
+    if (age < 13) return 'kids-9-12';
+    return 'kids-13-16';
+};
+
+export const isKidsAccount = (user?: { dateOfBirth?: string | Date } | null) =>
+    getUserAgeGroup(user) !== 'general';
+
+/**
+ * Blog age groups a user may see, or null when the user is not restricted.
+ * Kids only get kids content targeted at their own bracket or a younger one.
+ */
+export const getAllowedAgeGroups = (user?: { dateOfBirth?: string | Date } | null): AgeGroup[] | null => {
+    const ageGroup = getUserAgeGroup(user);
+    if (ageGroup === 'general') return null;
+    return KIDS_AGE_GROUPS.slice(0, KIDS_AGE_GROUPS.indexOf(ageGroup) + 1);
+};
+
+// mongo filter restricting blogs to what the user may see
+export const ageGroupFilterFor = (user?: { dateOfBirth?: string | Date } | null): Record<string, any> => {
+    const allowed = getAllowedAgeGroups(user);
+    return allowed ? { isKidsContent: true, ageGroup: { $in: allowed } } : {};
+};
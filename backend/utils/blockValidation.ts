@@ -0,0 +1,163 @@
+/**
+ * Schema validation of EditorJS content blocks sent to blog create/edit.
+ */
+import { z } from "zod";
+import { ValidationError } from "../types/api.types";
+
+export const MAX_BLOCKS = 500;
+export const MAX_BLOCK_SIZE = 20 * 1024; // serialized JSON, in characters
+const MAX_LIST_DEPTH = 5;
+
+// hosts embeds may come from, subdomains included
+const DEFAULT_EMBED_HOSTS = [
+    'youtube.com',
+    'youtube-nocookie.com',
+    'youtu.be',
+    'vimeo.com',
+    'dailymotion.com',
+    'codepen.io',
+    'scratch.mit.edu',
+    'khanacademy.org'
+];
+
+export const embedAllowlist = (): string[] => process.env.EMBED_ALLOWED_HOSTS
+    ? process.env.EMBED_ALLOWED_HOSTS.split(',').map(host => host.trim().toLowerCase()).filter(Boolean)
+    : DEFAULT_EMBED_HOSTS;
+
+export const isAllowedEmbed = (url: string): boolean => {
+    try {
+        const { protocol, hostname } = new URL(url);
+        const host = hostname.toLowerCase();
+        return protocol === 'https:'
+            && embedAllowlist().some(allowed => host === allowed || host.endsWith(`.${allowed}`));
+    } catch (error) {
+        return false;
+    }
+};
+
+const httpUrl = z.string().max(2048).refine(url => /^https?:\/\//i.test(url), 'Must be an http(s) url');
+const caption = z.string().max(1000).optional();
+
+type ListItem = string | { content: string; items: ListItem[] };
+
+const listItems = (depth: number): z.ZodType<ListItem[]> => z.array(depth >= MAX_LIST_DEPTH
+    ? z.string().max(2000)
+    : z.union([
+        z.string().max(2000),
+        z.object({
+            content: z.string().max(2000),
+            items: z.lazy(() => listItems(depth + 1)).default([])
+        })
+    ])).max(200, 'A list cannot have more than 200 items');
+
+// data schema of every supported block type
+export const BLOCK_SCHEMAS = {
+    paragraph: z.object({
+        text: z.string().max(10000)
+    }),
+    header: z.object({
+        text: z.string().min(1, 'Header text is required').max(500),
+        level: z.number().int().min(1).max(6)
+    }),
+    list: z.object({
+        style: z.enum(['ordered', 'unordered']),
+        items: listItems(1)
+    }),
+    image: z.object({
+        file: z.object({
+            url: httpUrl,
+            width: z.number().positive().optional(),
+            height: z.number().positive().optional()
+        }),
+        caption,
+        withBorder: z.boolean().optional(),
+        stretched: z.boolean().optional(),
+        withBackground: z.boolean().optional()
+    }),
+    embed: z.object({
+        service: z.string().max(50),
+        source: httpUrl,
+        embed: httpUrl.refine(isAllowedEmbed, 'Embeds are only allowed from approved https hosts'),
+        width: z.number().positive().optional(),
+        height: z.number().positive().optional(),
+        caption
+    }),
+    quote: z.object({
+        text: z.string().min(1, 'Quote text is required').max(5000),
+        caption,
+        alignment: z.enum(['left', 'center']).optional()
+    }),
+    code: z.object({
+        code: z.string().max(MAX_BLOCK_SIZE)
+    }),
+    delimiter: z.object({})
+};
+
+export type BlockType = keyof typeof BLOCK_SCHEMAS;
+
+export const BLOCK_TYPES = Object.keys(BLOCK_SCHEMAS) as BlockType[];
+
+const blockShape = z.object({
+    id: z.string().max(64).optional(),
+    type: z.string(),
+    data: z.record(z.string(), z.any())
+});
+
+/**
+ * Validate the editor payload ({ blocks } or the array mongoose wraps it in).
+ * Returns one ValidationError per problem, fields point at the offending block.
+ */
+export const validateContentBlocks = (content: any): ValidationError[] => {
+    const payload = Array.isArray(content) ? content[0] : content;
+    const blocks = payload?.blocks;
+    if (!Array.isArray(blocks) || blocks.length === 0) {
+        return [{ field: 'content.blocks', message: 'Blog content is required', code: 'required' }];
+    }
+    if (blocks.length > MAX_BLOCKS) {
+        return [{
+            field: 'content.blocks',
+            message: `Blog content cannot have more than ${MAX_BLOCKS} blocks`,
+            code: 'too_big',
+            received: blocks.length
+        }];
+    }
+
+    return blocks.reduce<ValidationError[]>((errors, block, index) => {
+        const field = `content.blocks.${index}`;
+        const shape = blockShape.safeParse(block);
+        if (!shape.success) {
+            return [...errors, { field, message: 'A block needs a type and a data object', code: 'invalid_type' }];
+        }
+
+        const size = JSON.stringify(block).length;
+        if (size > MAX_BLOCK_SIZE) {
+            return [...errors, {
+                field,
+                message: `Block is too large (${size} characters, at most ${MAX_BLOCK_SIZE})`,
+                code: 'too_big',
+                received: size
+            }];
+        }
+
+        // own keys only, a type such as "constructor" must not reach the prototype
+        const schema = Object.prototype.hasOwnProperty.call(BLOCK_SCHEMAS, shape.data.type)
+            ? BLOCK_SCHEMAS[shape.data.type as BlockType]
+            : undefined;
+        if (!schema) {
+            return [...errors, {
+                field: `${field}.type`,
+                message: `Unsupported block type, expected one of ${BLOCK_TYPES.join(', ')}`,
+                code: 'unknown_block_type',
+                received: shape.data.type
+            }];
+        }
+
+        const data = (schema as z.ZodTypeAny).safeParse(shape.data.data);
+        if (data.success) return errors;
+        return [...errors, ...data.error.issues.map(issue => ({
+            field: [`${field}.data`, ...issue.path.map(String)].join('.'),
+            message: `${shape.data.type} block: ${issue.message}`,
+            code: issue.code
+        }))];
+    }, []);
+};
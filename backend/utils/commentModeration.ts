@@ -0,0 +1,33 @@
+/**
+ * Pre-moderation policy: comments held until a moderator approves them.
+ */
+import { AGE_GROUPS, AgeGroup, getUserAgeGroup } from "./ageGroups";
+
+// commenters under 13
+const DEFAULT_PRE_MODERATED_AGE_GROUPS: AgeGroup[] = ['kids-6-8', 'kids-9-12'];
+
+/**
+ * Age groups of the commenters whose comments are always held,
+ * COMMENT_PREMODERATION_AGE_GROUPS lists them comma separated ("none" for no group)
+ */
+export const preModeratedAgeGroups = (): AgeGroup[] => {
+    const configured = process.env.COMMENT_PREMODERATION_AGE_GROUPS;
+    if (!configured) return DEFAULT_PRE_MODERATED_AGE_GROUPS;
+    return configured
+        .split(',')
+        .map(group => group.trim())
+        .filter((group): group is AgeGroup => AGE_GROUPS.includes(group as AgeGroup));
+};
+
+/**
+ * Whether a new comment waits for approval: always for the pre-moderated age groups,
+ * else as set on the blog, kids content being pre-moderated when the blog sets nothing
+ */
+export const requiresPreModeration = (
+    blog: { isKidsContent?: boolean; commentPreModeration?: boolean | null },
+    commenter?: { dateOfBirth?: string | Date } | null
+): boolean => {
+    if (preModeratedAgeGroups().includes(getUserAgeGroup(commenter))) return true;
+    if (typeof blog.commentPreModeration === 'boolean') return blog.commentPreModeration;
+    return Boolean(blog.isKidsContent);
+};
@@ -0,0 +1,80 @@
+/**
+ * Threaded comments: replies nested under their parent a page at a time,
+ * with the cursor to load the next replies of each thread.
+ */
+import mongoose from "mongoose";
+
+// deepest reply, see the depth of the comment model
+export const MAX_THREAD_DEPTH = 5;
+export const DEFAULT_REPLIES_LIMIT = 10;
+export const MAX_REPLIES_LIMIT = 50;
+
+export type ReactionType = 'like' | 'dislike' | 'heart' | 'laugh';
+
+const REACTION_KEYS: [string, ReactionType][] = [['likes', 'like'], ['dislikes', 'dislike'], ['hearts', 'heart'], ['laughs', 'laugh']];
+
+// position of the last reply loaded, replies are read oldest first
+export interface ReplyCursor {
+    createdAt: Date;
+    id: string;
+}
+
+export interface ThreadComment {
+    [field: string]: any;
+    viewerReaction: ReactionType | null;
+    replies: ThreadComment[];
+    // more replies than loaded, or replies below the depth asked for
+    hasMoreReplies: boolean;
+    // cursor of the next replies, null to start from the first one
+    nextRepliesCursor: string | null;
+}
+
+export const encodeReplyCursor = (reply: { createdAt: Date | string; _id: any }): string =>
+    Buffer.from(JSON.stringify({ c: new Date(reply.createdAt).toISOString(), id: String(reply._id) })).toString('base64url');
+
+/**
+ * Cursor back to a position, null when it is not one of ours
+ */
+export const decodeReplyCursor = (raw: string): ReplyCursor | null => {
+    try {
+        const cursor = JSON.parse(Buffer.from(raw, 'base64url').toString('utf8'));
+        const createdAt = new Date(cursor.c);
+        if (!mongoose.Types.ObjectId.isValid(cursor.id) || isNaN(createdAt.getTime())) return null;
+        return { createdAt, id: String(cursor.id) };
+    } catch (error) {
+        return null;
+    }
+};
+
+/**
+ * Reaction of the viewer on a comment, a user has one reaction at most
+ */
+export const viewerReaction = (reactions: Record<string, any[]> | undefined, viewerId?: string): ReactionType | null => {
+    if (!reactions || !viewerId) return null;
+    const found = REACTION_KEYS.find(([key]) => (reactions[key] || []).some(id => String(id) === viewerId));
+    return found ? found[1] : null;
+};
+
+/**
+ * Comments with their replies nested. Each list of repliesByParent holds the replies of a parent
+ * oldest first with one more than the limit, to tell whether more follow; a parent missing
+ * from it was not loaded (below the depth asked for) and its replyCount says whether it has any.
+ */
+export const nestReplies = (
+    comments: any[],
+    repliesByParent: Map<string, any[]>,
+    limit: number,
+    viewerId?: string
+): ThreadComment[] =>
+    comments.map(comment => {
+        const loaded = repliesByParent.get(String(comment._id));
+        const page = loaded ? loaded.slice(0, limit) : [];
+        const hasMoreReplies = loaded ? loaded.length > limit : comment.replyCount > 0;
+        return {
+            ...comment,
+            viewerReaction: viewerReaction(comment.reactions, viewerId),
+            replies: nestReplies(page, repliesByParent, limit, viewerId),
+            hasMoreReplies,
+            nextRepliesCursor: hasMoreReplies && page.length ? encodeReplyCursor(page[page.length - 1]) : null
+        };
+    });
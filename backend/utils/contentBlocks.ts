@@ -0,0 +1,115 @@
+/**
+ * Helpers for EditorJS-style blog content ({ time, blocks, version }).
+ */
+
+export interface ContentBlock {
+    id?: string;
+    type: string;
+    data: any;
+}
+
+export interface BlockDiffEntry {
+    op: 'added' | 'removed' | 'modified' | 'unchanged';
+    type: string;
+    fromIndex?: number;
+    toIndex?: number;
+    before?: ContentBlock;
+    after?: ContentBlock;
+}
+
+export interface BlockDiffSummary {
+    added: number;
+    removed: number;
+    modified: number;
+    unchanged: number;
+}
+
+// Blog content is stored either as the raw editor payload or wrapped in an array by mongoose
+export const extractBlocks = (content: any): ContentBlock[] => {
+    if (!content) return [];
+    if (Array.isArray(content)) {
+        if (content.length && Array.isArray(content[0]?.blocks)) {
+            return content[0].blocks;
+        }
+        return content.filter((block: any) => block && typeof block.type === 'string');
+    }
+    return Array.isArray(content.blocks) ? content.blocks : [];
+};
+
+const sameData = (a: ContentBlock, b: ContentBlock) =>
+    a.type === b.type && JSON.stringify(a.data) === JSON.stringify(b.data);
+
+// Blocks are matched by their editor id when present, otherwise by their content
+const blockKey = (block: ContentBlock) =>
+    block.id ? `id:${block.id}` : `data:${block.type}:${JSON.stringify(block.data)}`;
+
+/**
+ * Block-by-block diff between two block lists, based on the longest common subsequence
+ */
+export const diffBlocks = (from: ContentBlock[], to: ContentBlock[]): BlockDiffEntry[] => {
+    const fromKeys = from.map(blockKey);
+    const toKeys = to.map(blockKey);
+
+    // lcs[i][j] = length of LCS of from[i..] and to[j..]
+    const lcs: number[][] = Array.from({ length: from.length + 1 }, () => new Array(to.length + 1).fill(0));
+    for (let i = from.length - 1; i >= 0; i--) {
+        for (let j = to.length - 1; j >= 0; j--) {
+            lcs[i][j] = fromKeys[i] === toKeys[j]
+                ? lcs[i + 1][j + 1] + 1
+                : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+        }
+    }
+
+    const entries: BlockDiffEntry[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < from.length || j < to.length) {
+        if (i < from.length && j < to.length && fromKeys[i] === toKeys[j]) {
+            entries.push({
+                op: sameData(from[i], to[j]) ? 'unchanged' : 'modified',
+                type: to[j].type,
+                fromIndex: i,
+                toIndex: j,
+                before: from[i],
+                after: to[j]
+            });
+            i++;
+            j++;
+        } else if (i < from.length && (j >= to.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+            entries.push({ op: 'removed', type: from[i].type, fromIndex: i, before: from[i] });
+            i++;
+        } else {
+            entries.push({ op: 'added', type: to[j].type, toIndex: j, after: to[j] });
+            j++;
+        }
+    }
+
+    // A block of the same type removed and re-added in place is reported as a modification
+    const merged: BlockDiffEntry[] = [];
+    for (let k = 0; k < entries.length; k++) {
+        const current = entries[k];
+        const following = entries[k + 1];
+        if (current.op === 'removed' && following?.op === 'added' && current.type === following.type
+            && !current.before?.id && !following.after?.id) {
+            merged.push({
+                op: 'modified',
+                type: current.type,
+                fromIndex: current.fromIndex,
+                toIndex: following.toIndex,
+                before: current.before,
+                after: following.after
+            });
+            k++;
+        } else {
+            merged.push(current);
+        }
+    }
+
+    return merged;
+};
+
+export const summarizeDiff = (entries: BlockDiffEntry[]): BlockDiffSummary =>
+    entries.reduce<BlockDiffSummary>((summary, entry) => {
+        summary[entry.op]++;
+        return summary;
+    }, { added: 0, removed: 0, modified: 0, unchanged: 0 });
@@ -0,0 +1,258 @@
+/**
+ * Server-side rendering of EditorJS blocks to sanitized HTML, AMP HTML and plain text.
+ */
+import { ContentBlock, extractBlocks } from "./contentBlocks";
+
+export type ContentFormat = 'blocks' | 'html' | 'amp' | 'text';
+
+export const CONTENT_FORMATS: ContentFormat[] = ['blocks', 'html', 'amp', 'text'];
+
+// average reading speed, words per minute
+const WORDS_PER_MINUTE = 200;
+
+// inline markup EditorJS puts in texts, with the attributes kept for each tag
+const INLINE_TAGS: Record<string, string[]> = {
+    b: [],
+    strong: [],
+    i: [],
+    em: [],
+    u: [],
+    s: [],
+    mark: [],
+    code: [],
+    br: [],
+    sub: [],
+    sup: [],
+    a: ['href']
+};
+
+const SAFE_URL = /^(https?:|mailto:|\/(?!\/))/i;
+
+const escapeHtml = (value: string) => value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+// like escapeHtml but leaves the entities already in the text alone
+const escapeText = (value: string) => value
+    .replace(/&(?!(?:[a-z]+|#\d+|#x[0-9a-f]+);)/gi, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+
+const decodeEntities = (value: string) => value
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&');
+
+const safeUrl = (url: any): string | null => {
+    if (typeof url !== 'string') return null;
+    const trimmed = url.trim();
+    return SAFE_URL.test(trimmed) ? trimmed : null;
+};
+
+const readAttribute = (attributes: string, name: string): string | null => {
+    const match = attributes.match(new RegExp(`\\s${name}\\s*=\\s*("([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i'));
+    return match ? decodeEntities(match[2] ?? match[3] ?? match[4] ?? '') : null;
+};
+
+/**
+ * Keep the inline tags EditorJS produces and escape everything else.
+ * Links only keep http(s), mailto and relative urls.
+ */
+export const sanitizeInline = (value: any): string => {
+    if (typeof value !== 'string') return '';
+
+    const open: string[] = [];
+    let html = '';
+    let last = 0;
+    const tags = /<(\/?)([a-z0-9]+)([^>]*)>/gi;
+    let match: RegExpExecArray | null;
+
+    while ((match = tags.exec(value))) {
+        html += escapeText(value.slice(last, match.index));
+        last = tags.lastIndex;
+
+        const [, closing, rawName, attributes] = match;
+        const name = rawName.toLowerCase();
+        if (!(name in INLINE_TAGS)) continue;
+
+        if (name === 'br') {
+            html += '<br>';
+        } else if (closing) {
+            const index = open.lastIndexOf(name);
+            if (index === -1) continue;
+            // close the tags left open inside this one
+            html += open.splice(index).reverse().map(tag => `</${tag}>`).join('');
+        } else if (name === 'a') {
+            const href = safeUrl(readAttribute(attributes, 'href'));
+            html += href ? `<a href="${escapeHtml(href)}" rel="nofollow noopener" target="_blank">` : '<a>';
+            open.push(name);
+        } else {
+            html += `<${name}>`;
+            open.push(name);
+        }
+    }
+    html += escapeText(value.slice(last));
+    return html + open.reverse().map(tag => `</${tag}>`).join('');
+};
+
+const toText = (value: any): string => typeof value === 'string'
+    ? decodeEntities(value.replace(/<br\s*\/?>/gi, ' ').replace(/<[^>]*>/g, '')).replace(/\s+/g, ' ').trim()
+    : '';
+
+// list items are plain strings or nested { content, items } objects
+const listItems = (items: any[]): Array<{ content: string; items: any[] }> =>
+    (Array.isArray(items) ? items : []).map(item => typeof item === 'string'
+        ? { content: item, items: [] }
+        : { content: item?.content || '', items: item?.items || [] });
+
+const renderList = (items: any[], ordered: boolean): string => {
+    const tag = ordered ? 'ol' : 'ul';
+    const rendered = listItems(items)
+        .map(item => `<li>${sanitizeInline(item.content)}${item.items.length ? renderList(item.items, ordered) : ''}</li>`)
+        .join('');
+    return `<${tag}>${rendered}</${tag}>`;
+};
+
+const listText = (items: any[], ordered: boolean, depth = 0): string[] =>
+    listItems(items).reduce<string[]>((lines, item, index) => [
+        ...lines,
+        `${'  '.repeat(depth)}${ordered ? `${index + 1}.` : '-'} ${toText(item.content)}`,
+        ...listText(item.items, ordered, depth + 1)
+    ], []);
+
+const figure = (media: string, caption: any) => {
+    const text = sanitizeInline(caption);
+    return `<figure>${media}${text ? `<figcaption>${text}</figcaption>` : ''}</figure>`;
+};
+
+const dimension = (value: any, fallback: number) =>
+    Number.isFinite(Number(value)) && Number(value) > 0 ? Math.round(Number(value)) : fallback;
+
+const youtubeId = (url: string) =>
+    url.match(/(?:youtube(?:-nocookie)?\.com\/(?:embed\/|watch\?v=)|youtu\.be\/)([\w-]{11})/)?.[1] || null;
+
+const renderImage = (data: any, amp: boolean): string => {
+    const src = safeUrl(data.file?.url || data.url);
+    if (!src) return '';
+    const alt = escapeHtml(toText(data.caption));
+    if (amp) {
+        const width = dimension(data.file?.width, 1200);
+        const height = dimension(data.file?.height, 675);
+        return figure(`<amp-img src="${escapeHtml(src)}" alt="${alt}" width="${width}" height="${height}" layout="responsive"></amp-img>`, data.caption);
+    }
+    return figure(`<img src="${escapeHtml(src)}" alt="${alt}" loading="lazy">`, data.caption);
+};
+
+const renderEmbed = (data: any, amp: boolean): string => {
+    const src = safeUrl(data.embed);
+    if (!src || !/^https:/i.test(src)) return '';
+    const width = dimension(data.width, 640);
+    const height = dimension(data.height, 360);
+
+    if (amp) {
+        const videoId = data.service === 'youtube' ? youtubeId(src) : null;
+        const media = videoId
+            ? `<amp-youtube data-videoid="${videoId}" width="${width}" height="${height}" layout="responsive"></amp-youtube>`
+            : `<amp-iframe src="${escapeHtml(src)}" width="${width}" height="${height}" layout="responsive" sandbox="allow-scripts allow-same-origin allow-popups" frameborder="0"></amp-iframe>`;
+        return figure(media, data.caption);
+    }
+    return figure(
+        `<iframe src="${escapeHtml(src)}" width="${width}" height="${height}" frameborder="0" allowfullscreen loading="lazy" sandbox="allow-scripts allow-same-origin allow-popups allow-presentation"></iframe>`,
+        data.caption
+    );
+};
+
+const renderBlock = (block: ContentBlock, amp: boolean): string => {
+    const data = block.data || {};
+    switch (block.type) {
+        case 'paragraph':
+            return `<p>${sanitizeInline(data.text)}</p>`;
+        case 'header': {
+            const level = Math.min(Math.max(parseInt(data.level) || 2, 1), 6);
+            return `<h${level}>${sanitizeInline(data.text)}</h${level}>`;
+        }
+        case 'list':
+            return renderList(data.items, data.style === 'ordered');
+        case 'image':
+            return renderImage(data, amp);
+        case 'embed':
+            return renderEmbed(data, amp);
+        case 'quote': {
+            const caption = sanitizeInline(data.caption);
+            return `<blockquote><p>${sanitizeInline(data.text)}</p>${caption ? `<cite>${caption}</cite>` : ''}</blockquote>`;
+        }
+        case 'code':
+            return `<pre><code>${escapeHtml(typeof data.code === 'string' ? data.code : '')}</code></pre>`;
+        case 'delimiter':
+            return '<hr>';
+        default:
+            return '';
+    }
+};
+
+const blockText = (block: ContentBlock): string => {
+    const data = block.data || {};
+    switch (block.type) {
+        case 'list':
+            return listText(data.items, data.style === 'ordered').join('\n');
+        case 'quote':
+            return [toText(data.text), toText(data.caption)].filter(Boolean).join(' - ');
+        case 'code':
+            return typeof data.code === 'string' ? data.code.trim() : '';
+        case 'image':
+        case 'embed':
+            return toText(data.caption);
+        default:
+            return [data.text, data.title, data.message].map(toText).filter(Boolean).join(' ');
+    }
+};
+
+/**
+ * Sanitized HTML of the blocks, unknown block types are skipped
+ */
+export const renderBlocksToHtml = (blocks: ContentBlock[]): string =>
+    blocks.map(block => renderBlock(block, false)).filter(Boolean).join('\n');
+
+/**
+ * AMP-compatible HTML: amp-img, amp-youtube and amp-iframe instead of img and iframe
+ */
+export const renderBlocksToAmp = (blocks: ContentBlock[]): string =>
+    blocks.map(block => renderBlock(block, true)).filter(Boolean).join('\n');
+
+/**
+ * Plain text of the blocks, one paragraph per block.
+ * Used for search indexing and reading time estimates.
+ */
+export const renderBlocksToText = (blocks: ContentBlock[]): string =>
+    blocks.map(blockText).filter(Boolean).join('\n\n');
+
+/**
+ * Reading time in minutes of a plain text, at least one minute
+ */
+export const estimateReadingTime = (text: string): number => {
+    const words = text.split(/\s+/).filter(Boolean).length;
+    return Math.max(1, Math.ceil(words / WORDS_PER_MINUTE));
+};
+
+/**
+ * Stored blog content in the requested format, the raw content for 'blocks'
+ */
+export const renderContent = (content: any, format: ContentFormat) => {
+    const blocks = extractBlocks(content);
+    switch (format) {
+        case 'html':
+            return renderBlocksToHtml(blocks);
+        case 'amp':
+            return renderBlocksToAmp(blocks);
+        case 'text':
+            return renderBlocksToText(blocks);
+        default:
+            return content;
+    }
+};
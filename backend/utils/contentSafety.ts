@@ -0,0 +1,279 @@
+/**
+ * Local content-safety rules: word lists in the blog languages, personal data,
+ * links and spam patterns. Runs offline, see ContentSafetyService for the verdict.
+ */
+import { embedAllowlist } from "./blockValidation";
+
+export type SafetyCategory = 'profanity' | 'sexual' | 'violence' | 'hate' | 'self_harm' | 'pii' | 'link' | 'spam';
+
+export const SAFETY_CATEGORIES: SafetyCategory[] = ['profanity', 'sexual', 'violence', 'hate', 'self_harm', 'pii', 'link', 'spam'];
+
+export interface SafetySignal {
+    category: SafetyCategory;
+    // 0 to 1, how strongly the content falls in the category
+    score: number;
+    // 'rules' or the name of the model adapter
+    source: string;
+    // matched terms, or the kind of personal data found (never the data itself)
+    matches: string[];
+}
+
+type WordList = [string, number][];
+
+/**
+ * Terms and their weight per category, French, Arabic and English mixed.
+ * A trailing * matches any word starting with the term, several words match a phrase.
+ */
+const WORD_LISTS: Partial<Record<SafetyCategory, WordList>> = {
+    profanity: [
+        ['fuck*', 0.9], ['shit*', 0.8], ['bitch*', 0.9], ['asshole*', 0.9], ['bastard*', 0.8],
+        ['dick', 0.6], ['wtf', 0.5], ['stfu', 0.6], ['crap', 0.4], ['damn', 0.3],
+        ['merde*', 0.8], ['putain*', 0.9], ['connard*', 0.9], ['connasse*', 0.9], ['salope*', 0.95],
+        ['encule*', 0.95], ['nique*', 0.9], ['batard*', 0.8], ['ta gueule', 0.7], ['bordel', 0.4],
+        ['قحبة', 0.95], ['شرموطة', 0.95], ['زبي', 0.9], ['كس', 0.9], ['خرا', 0.7]
+    ],
+    sexual: [
+        ['porn*', 0.95], ['nsfw', 0.8], ['nude*', 0.8], ['naked', 0.6], ['sex', 0.6], ['sexy', 0.5],
+        ['sexe', 0.6], ['seins nus', 0.8], ['pornographique*', 0.95],
+        ['سكس', 0.95], ['اباحي*', 0.95], ['عاري*', 0.7]
+    ],
+    violence: [
+        ['kill*', 0.5], ['murder*', 0.7], ['stab', 0.6], ['stabbed', 0.7], ['shoot*', 0.4], ['gun', 0.3], ['guns', 0.3], ['beat you up', 0.7],
+        ['i will kill you', 0.95], ['tuer', 0.5], ['meurtre*', 0.7], ['je vais te tuer', 0.95], ['frapper', 0.4],
+        ['قتل', 0.5], ['اقتل*', 0.7], ['سأقتلك', 0.95], ['اضربك', 0.7]
+    ],
+    hate: [
+        ['nazi*', 0.7], ['retarded', 0.8], ['go back to your country', 0.9],
+        ['sale arabe', 0.95], ['sale noir', 0.95], ['sale juif', 0.95], ['retourne dans ton pays', 0.9],
+        ['ارجع لبلدك', 0.9]
+    ],
+    self_harm: [
+        ['kill myself', 0.95], ['kill yourself', 0.95], ['kys', 0.9], ['suicide*', 0.7], ['cut myself', 0.9],
+        ['want to die', 0.8], ['me suicider', 0.95], ['tue toi', 0.95], ['envie de mourir', 0.85],
+        ['انتحار', 0.7], ['انتحر', 0.85], ['اقتل نفسي', 0.95]
+    ]
+};
+
+// categories whose words are masked by maskUnsafeTerms
+const MASKED_CATEGORIES: SafetyCategory[] = ['profanity', 'sexual', 'hate'];
+
+const LEET: Record<string, string> = { '0': 'o', '1': 'i', '3': 'e', '4': 'a', '5': 's', '7': 't', '@': 'a', '$': 's', '!': 'i' };
+
+// built at runtime, unicode property escapes are newer than the compile target
+const COMBINING_MARKS = new RegExp('[\\p{M}\\u0640]', 'gu');
+const NON_WORD = new RegExp('[^\\p{L}\\p{N}]+', 'u');
+const LETTER = new RegExp('\\p{L}', 'u');
+
+/**
+ * One word made comparable: lower case, no accents or Arabic diacritics,
+ * leetspeak decoded when mixed with letters, letters repeated 3 times or more collapsed
+ */
+export const normalizeWord = (word: string): string => {
+    // a trailing ! is punctuation, not leetspeak
+    let normalized = word.replace(/!+$/, '').normalize('NFKD').replace(COMBINING_MARKS, '').toLowerCase()
+        .replace(/[أإآ]/g, 'ا')
+        .replace(/ى/g, 'ي');
+    if (LETTER.test(normalized) && /[013457@$!]/.test(normalized)) {
+        normalized = normalized.replace(/[013457@$!]/g, char => LEET[char]);
+    }
+    return normalized.replace(/(.)\1{2,}/g, '$1');
+};
+
+/**
+ * Normalized words of a text. Letters spelled one by one ("f u c k", "f.u.c.k")
+ * are also added joined up.
+ */
+export const tokenize = (text: string): string[] => {
+    const words = text
+        .split(/\s+/)
+        .map(normalizeWord)
+        .reduce((all: string[], word) => all.concat(word.split(NON_WORD)), [])
+        .filter(Boolean);
+
+    const joined: string[] = [];
+    let run: string[] = [];
+    for (const word of [...words, '']) {
+        if (word.length === 1 && LETTER.test(word)) {
+            run.push(word);
+            continue;
+        }
+        if (run.length >= 3) joined.push(run.join(''));
+        run = [];
+    }
+    return words.concat(joined);
+};
+
+const compiledLists = Object.keys(WORD_LISTS).map(category => ({
+    category: category as SafetyCategory,
+    entries: (WORD_LISTS[category as SafetyCategory] as WordList).map(([term, weight]) => ({
+        term,
+        weight,
+        words: term.replace(/\*$/, '').split(/\s+/).map(normalizeWord),
+        prefix: term.endsWith('*')
+    }))
+}));
+
+type CompiledEntry = typeof compiledLists[number]['entries'][number];
+
+const matchesAt = (words: string[], index: number, entry: CompiledEntry) =>
+    entry.words.every((expected, offset) => {
+        const word = words[index + offset];
+        if (word === undefined) return false;
+        return entry.prefix && offset === entry.words.length - 1 ? word.startsWith(expected) : word === expected;
+    });
+
+// noisy-or: several independent hits add up without going over 1
+const combine = (weights: number[]) => 1 - weights.reduce((rest, weight) => rest * (1 - weight), 1);
+
+const round = (score: number) => Math.round(score * 100) / 100;
+
+const wordListSignals = (words: string[]): SafetySignal[] =>
+    compiledLists
+        .map(({ category, entries }) => {
+            const hits = entries.filter(entry => words.some((_, index) => matchesAt(words, index, entry)));
+            return {
+                category,
+                score: round(combine(hits.map(hit => hit.weight))),
+                source: 'rules',
+                matches: hits.map(hit => hit.term.replace(/\*$/, ''))
+            };
+        })
+        .filter(signal => signal.matches.length);
+
+const EMAIL = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g;
+// 9 to 15 digits with the usual separators, told apart from other numbers by isPhoneNumber
+const PHONE = /(?:\+|\b00)?\d(?:[\s.-]?\d){8,14}\b/g;
+const NANP_PHONE = /^\d{3}[\s.-]\d{3}[\s.-]\d{4}$/;
+
+/**
+ * Whether a run of digits is written like a phone number: an international prefix,
+ * a national number starting with 0, or 555-123-4567. Counting, years and
+ * ISBNs are not, nor are runs of single digits.
+ */
+const isPhoneNumber = (candidate: string): boolean => {
+    const international = /^(?:\+|00)/.test(candidate);
+    const groups = candidate.replace(/^\+/, '').split(/[\s.-]/);
+    // the digit after a country code may stand alone (+33 6 12 34 56 78)
+    const singles = groups.slice(international ? 2 : 0).filter(group => group.length === 1).length;
+    if (singles > 1) return false;
+    const digits = groups.join('');
+    if (international) return true;
+    return (digits.startsWith('0') && digits.length === 10) || NANP_PHONE.test(candidate);
+};
+
+const findPhoneNumbers = (text: string): string[] => (text.match(PHONE) || []).filter(isPhoneNumber);
+const ADDRESSES = [
+    new RegExp('\\b\\d{1,5}(?:\\s+[\\p{L}\'-]+){0,3}\\s+(?:street|st|road|rd|avenue|ave|lane|drive|boulevard|blvd)\\b', 'giu'),
+    new RegExp('\\b\\d{1,5}\\s*,?\\s*(?:bis\\s+)?(?:rue|avenue|boulevard|bd|impasse|allée|allee|chemin|place)\\b', 'giu'),
+    new RegExp('(?:شارع|زنقة|درب|حي)[^\\n\\d]{0,30}\\d+', 'gu')
+];
+const SELF_DISCLOSURE: [RegExp, string][] = [
+    [/\b(?:i live (?:at|in|on)|my address|j'habite|mon adresse)\b|أسكن في|عنواني/i, 'location'],
+    [/\b(?:my (?:phone|number) is|mon (?:numéro|numero)|call me at)\b|رقمي/i, 'contact'],
+    [/\b(?:my school is|i go to school at|mon (?:école|ecole|collège|college) (?:est|c'est))\b|مدرستي/i, 'school']
+];
+
+const personalDataSignal = (text: string): SafetySignal | null => {
+    const found: [string, number][] = [];
+    if (text.match(EMAIL)) found.push(['email', 0.8]);
+    if (findPhoneNumbers(text.replace(EMAIL, ' ')).length) found.push(['phone', 0.8]);
+    if (ADDRESSES.some(pattern => text.match(pattern))) found.push(['address', 0.7]);
+    SELF_DISCLOSURE.forEach(([pattern, kind]) => {
+        if (pattern.test(text)) found.push([kind, 0.5]);
+    });
+    if (!found.length) return null;
+    return { category: 'pii', score: round(combine(found.map(([, weight]) => weight))), source: 'rules', matches: found.map(([kind]) => kind) };
+};
+
+/**
+ * Text with emails, phone numbers and street addresses replaced by placeholders,
+ * what an external model receives
+ */
+export const redactPersonalData = (text: string): string =>
+    ADDRESSES.reduce(
+        (redacted, pattern) => redacted.replace(pattern, '[address]'),
+        text.replace(EMAIL, '[email]').replace(PHONE, candidate => isPhoneNumber(candidate) ? '[phone]' : candidate)
+    );
+
+const URL_PATTERN = /\b(?:https?:\/\/|www\.)[^\s<>"']+|\b[a-z0-9-]+(?:\.[a-z0-9-]+)*\.(?:com|net|org|io|gg|me|ly|co|ma|fr|xyz|ru|info|app)\b(?:\/[^\s<>"']*)?/gi;
+// private contact with strangers
+const MESSAGING_HOSTS = ['discord.gg', 'discord.com', 't.me', 'telegram.me', 'wa.me', 'chat.whatsapp.com', 'snapchat.com', 'kik.me'];
+// hide where the link goes
+const SHORTENER_HOSTS = ['bit.ly', 'tinyurl.com', 'goo.gl', 't.co', 'rb.gy', 'is.gd', 'cutt.ly', 'ow.ly'];
+
+const hostOf = (link: string): string | null => {
+    try {
+        return new URL(/^https?:\/\//i.test(link) ? link : `https://${link}`).hostname.toLowerCase().replace(/^www\./, '');
+    } catch (error) {
+        return null;
+    }
+};
+
+const sameOrSubdomain = (host: string, domains: string[]) =>
+    domains.some(domain => host === domain || host.endsWith(`.${domain}`));
+
+// links of the text outside the trusted hosts (embed allowlist and the frontend)
+export const findLinks = (text: string): { host: string; weight: number }[] => {
+    const frontend = hostOf(process.env.FRONTEND_URL || '');
+    const trusted = frontend ? [...embedAllowlist(), frontend] : embedAllowlist();
+    return (text.replace(EMAIL, ' ').match(URL_PATTERN) || [])
+        .map(hostOf)
+        .filter((host): host is string => Boolean(host) && !sameOrSubdomain(host as string, trusted))
+        .map(host => ({
+            host,
+            weight: sameOrSubdomain(host, MESSAGING_HOSTS) ? 0.9 : sameOrSubdomain(host, SHORTENER_HOSTS) ? 0.7 : 0.4
+        }));
+};
+
+const spamSignal = (text: string, words: string[], links: number): SafetySignal | null => {
+    const found: [string, number][] = [];
+    if (links >= 3) found.push(['links', 0.6]);
+    const counts = words.reduce((all, word) => all.set(word, (all.get(word) || 0) + 1), new Map<string, number>());
+    const top = Math.max(0, ...Array.from(counts.values()));
+    if (top >= 6 && top / words.length > 0.4) found.push(['repetition', 0.6]);
+    const letters = text.replace(/[^A-Za-z]/g, '');
+    if (letters.length >= 20 && letters.replace(/[^A-Z]/g, '').length / letters.length > 0.7) found.push(['caps', 0.4]);
+    if (/(.)\1{5,}/.test(text)) found.push(['repeated characters', 0.3]);
+    if (!found.length) return null;
+    return { category: 'spam', score: round(combine(found.map(([, weight]) => weight))), source: 'rules', matches: found.map(([kind]) => kind) };
+};
+
+/**
+ * Signals of the local rules for a text, one per category found
+ */
+export const runRules = (text: string): SafetySignal[] => {
+    if (!text || !text.trim()) return [];
+    const words = tokenize(text);
+    const signals = wordListSignals(words);
+
+    const personalData = personalDataSignal(text);
+    if (personalData) signals.push(personalData);
+
+    const links = findLinks(text);
+    if (links.length) {
+        signals.push({
+            category: 'link',
+            score: round(combine(links.map(link => link.weight))),
+            source: 'rules',
+            matches: Array.from(new Set(links.map(link => link.host)))
+        });
+    }
+
+    const spam = spamSignal(text, words, links.length);
+    if (spam) signals.push(spam);
+    return signals;
+};
+
+/**
+ * Text with the profane, sexual and hateful words replaced by ***
+ */
+export const maskUnsafeTerms = (text: string): string =>
+    // the punctuation around a word is kept
+    text.replace(/(["'(«]*)(\S+?)([.,;:?!)"'»]*)(?=\s|$)/g, (raw, before: string, word: string, after: string) => {
+        const words = tokenize(word);
+        const unsafe = compiledLists
+            .filter(({ category }) => MASKED_CATEGORIES.includes(category))
+            .some(({ entries }) => entries.some(entry =>
+                entry.words.length === 1 && words.some((_, index) => matchesAt(words, index, entry))));
+        return unsafe ? `${before}***${after}` : raw;
+    });
@@ -0,0 +1,56 @@
+/**
+ * Languages of the blogs and negotiation of the variant to serve.
+ * Same codes as AdCampaign.targeting.languages.
+ */
+
+export type Language = 'fr' | 'ar' | 'en';
+
+export const LANGUAGES: Language[] = ['fr', 'ar', 'en'];
+
+export const DEFAULT_LANGUAGE: Language = 'fr';
+
+const RTL_LANGUAGES: Language[] = ['ar'];
+
+export const isLanguage = (value: unknown): value is Language =>
+    typeof value === 'string' && LANGUAGES.includes(value as Language);
+
+export const textDirection = (language?: string): 'rtl' | 'ltr' =>
+    RTL_LANGUAGES.includes(language as Language) ? 'rtl' : 'ltr';
+
+// lang and dir attributes for the client
+export const languageMeta = (language?: string) => {
+    const lang = isLanguage(language) ? language : DEFAULT_LANGUAGE;
+    return { lang, dir: textDirection(lang) };
+};
+
+/**
+ * Supported languages of an Accept-Language header, most preferred first.
+ * Regions are ignored (ar-MA is ar), q=0 excludes a language.
+ */
+export const parseAcceptLanguage = (header?: string): Language[] => {
+    if (!header) return [];
+    return header
+        .split(',')
+        .map((part, index) => {
+            const [range, ...params] = part.trim().split(';');
+            const q = params.map(param => param.trim()).find(param => param.startsWith('q='));
+            return { language: range.trim().split('-')[0].toLowerCase(), q: q ? parseFloat(q.slice(2)) : 1, index };
+        })
+        .filter(entry => isLanguage(entry.language) && entry.q > 0)
+        .sort((a, b) => b.q - a.q || a.index - b.index)
+        .map(entry => entry.language as Language)
+        .filter((language, index, languages) => languages.indexOf(language) === index);
+};
+
+/**
+ * Language requested by the client: the lang query parameter, then Accept-Language.
+ * Null when neither names a supported language.
+ */
+export const requestedLanguage = (lang?: unknown, acceptLanguage?: string): Language | null =>
+    isLanguage(lang) ? lang : parseAcceptLanguage(acceptLanguage)[0] || null;
+
+/**
+ * Language to serve, the default one when the client has no supported preference
+ */
+export const negotiateLanguage = (lang?: unknown, acceptLanguage?: string): Language =>
+    requestedLanguage(lang, acceptLanguage) || DEFAULT_LANGUAGE;
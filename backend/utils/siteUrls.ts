@@ -0,0 +1,26 @@
+/**
+ * Public urls of the frontend, used in feeds, sitemaps and structured data.
+ */
+
+export const SITE_NAME = 'KidsClub';
+
+export const siteUrl = () => (process.env.FRONTEND_URL || 'http://localhost:3000').replace(/\/+$/, '');
+
+export const blogUrl = (blog: { slug?: string; _id?: any }) =>
+    `${siteUrl()}/blog/${encodeURIComponent(blog.slug || String(blog._id))}`;
+
+export const authorUrl = (author: { username?: string; _id?: any }) =>
+    `${siteUrl()}/author/${encodeURIComponent(author.username || String(author._id || ''))}`;
+
+export const categoryUrl = (category: string) => `${siteUrl()}/category/${encodeURIComponent(category)}`;
+
+export const tagUrl = (tag: string) => `${siteUrl()}/tag/${encodeURIComponent(tag)}`;
+
+export const escapeXml = (value: string) => value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+    // characters not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
@@ -0,0 +1,46 @@
+// letters with no decomposition in NFKD
+const LIGATURES: Record<string, string> = {
+    'œ': 'oe',
+    'æ': 'ae',
+    'ß': 'ss',
+    'ø': 'o',
+    'ł': 'l',
+    'đ': 'd'
+};
+
+// latin letters and digits, arabic letters and arabic-indic digits
+const SLUG_CHARS = /[^a-z0-9\u0621-\u063A\u0641-\u064A\u0660-\u0669\u0671-\u06D3\u06F0-\u06F9]+/g;
+
+export const MAX_SLUG_LENGTH = 80;
+
+/**
+ * URL slug of a title. Accents are dropped ("Été" -> "ete"), arabic letters are kept
+ * without their diacritics so arabic titles get readable slugs.
+ */
+export const slugify = (title: string): string => {
+    const slug = (title || '')
+        .toLowerCase()
+        .replace(/[œæßøłđ]/g, char => LIGATURES[char])
+        .normalize('NFKD')
+        // combining marks: latin accents, arabic harakat and hamza (أ -> ا)
+        .replace(/[\u0300-\u036F\u064B-\u065F\u0670]/g, '')
+        // tatweel is only decorative
+        .replace(/\u0640/g, '')
+        .replace(SLUG_CHARS, '-')
+        .replace(/^-+|-+$/g, '')
+        .slice(0, MAX_SLUG_LENGTH)
+        .replace(/-+$/g, '');
+
+    return slug || 'blog';
+};
+
+/**
+ * Make a slug unique by suffixing -2, -3, ... while isTaken says it is used
+ */
+export const uniqueSlug = async (base: string, isTaken: (slug: string) => Promise<boolean>): Promise<string> => {
+    let candidate = base;
+    for (let suffix = 2; await isTaken(candidate); suffix++) {
+        candidate = `${base.slice(0, MAX_SLUG_LENGTH - String(suffix).length - 1)}-${suffix}`;
+    }
+    return candidate;
+};